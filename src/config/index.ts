@@ -4,9 +4,14 @@ import dotenv from 'dotenv';
 // 環境変数の読み込み
 dotenv.config();
 
+// 永続データの保存先（署名プロファイルなど）
+const dataDir = process.env.DATA_DIR || path.join(__dirname, '../../data');
+const port = Number(process.env.PORT) || 3001;
+
 export const config = {
-  port: Number(process.env.PORT) || 3001,
+  port,
   tempDir: process.env.TEMP_DIR || path.join(__dirname, '../../tmp/c2pa-web-app-temp'),
+  dataDir,
   tempFileTtl: 24 * 60 * 60 * 1000, // 24時間
   maxUploadSize: 10 * 1024 * 1024, // 10MB
   supportedImageFormats: [
@@ -21,6 +26,10 @@ export const config = {
     { extension: '.heif', mimeType: 'image/heif', name: 'HEIF' },
     { extension: '.gif', mimeType: 'image/gif', name: 'GIF' }
   ],
+  // サイドカーとして扱うC2PAマニフェストストア
+  manifestStoreFormat: { extension: '.c2pa', mimeType: 'application/c2pa', name: 'C2PA' },
+  // 一括署名の結果をまとめたアーカイブ
+  archiveFormat: { extension: '.zip', mimeType: 'application/zip', name: 'ZIP' },
   appInfo: {
     name: 'C2PA Web App',
     version: '1.0.0',
@@ -29,11 +38,107 @@ export const config = {
   },
   c2pa: {
     defaultSigningAlgorithm: 'ES256',
-    defaultTsaUrl: 'http://timestamp.digicert.com',
+    // 'none' でタイムスタンプなし、'local' で内蔵TSAを使用
+    defaultTsaUrl: process.env.DEFAULT_TSA_URL || 'http://timestamp.digicert.com',
+    // リクエストや署名プロファイルで指定できるTSAのURL（DEFAULT_TSA_URLは常に許可。カンマ区切り）
+    allowedTsaUrls: process.env.TSA_ALLOWED_URLS
+      ? process.env.TSA_ALLOWED_URLS.split(',').map(url => url.trim()).filter(Boolean)
+      : [] as string[],
+    localTsa: {
+      // 内蔵RFC 3161タイムスタンプ局の設定
+      enabled: process.env.LOCAL_TSA_ENABLED === 'true',
+      url: process.env.LOCAL_TSA_URL || `http://127.0.0.1:${port}/api/tsa`,
+      // 未指定の場合は初回利用時に鍵と自己署名証明書を生成して保存する
+      certificatePath: process.env.LOCAL_TSA_CERT_PATH || '',
+      privateKeyPath: process.env.LOCAL_TSA_KEY_PATH || '',
+      storageDir: path.join(dataDir, 'tsa'),
+      policyOid: process.env.LOCAL_TSA_POLICY_OID || '1.3.6.1.4.1.32473.1.1'
+    },
     thumbnailOptions: {
       maxSize: 1024,
       quality: 80
     },
+    // マニフェストを埋め込める形式（それ以外はサイドカーでのみ署名できる。カンマ区切りで上書き可能）
+    embeddableMimeTypes: process.env.C2PA_EMBEDDABLE_MIME_TYPES
+      ? process.env.C2PA_EMBEDDABLE_MIME_TYPES.split(',').map(type => type.trim()).filter(Boolean)
+      : ['image/jpeg', 'image/png', 'image/webp', 'image/tiff', 'image/avif', 'image/heic', 'image/heif', 'image/gif'],
+    photoMetadata: {
+      // 署名時にマニフェストへ含めるEXIF/IPTC/XMPの項目（カンマ区切りで上書き可能）
+      allowlist: process.env.PHOTO_METADATA_ALLOWLIST
+        ? process.env.PHOTO_METADATA_ALLOWLIST.split(',').map(key => key.trim()).filter(Boolean)
+        : [
+            'tiff:Make',
+            'tiff:Model',
+            'exifEX:LensMake',
+            'exifEX:LensModel',
+            'exif:ExposureTime',
+            'exif:FNumber',
+            'exif:PhotographicSensitivity',
+            'exif:FocalLength',
+            'exif:ExposureBiasValue',
+            'exif:DateTimeOriginal',
+            'photoshop:DateCreated',
+            'dc:creator',
+            'dc:rights'
+          ]
+    },
+    validation: {
+      // 署名リクエストのmanifestDataの上限（JSONのバイト数、アサーション数、タイトルの文字数）
+      maxManifestDataSize: Number(process.env.MAX_MANIFEST_DATA_SIZE) || 64 * 1024,
+      maxAssertions: 50,
+      maxTitleLength: 1024,
+      // assertionsで指定を許可する c2pa.* のラベル（c2pa.actionsとc2pa.training-mining以外。カンマ区切り）
+      allowedAssertionLabels: process.env.C2PA_ALLOWED_ASSERTION_LABELS
+        ? process.env.C2PA_ALLOWED_ASSERTION_LABELS.split(',').map(label => label.trim()).filter(Boolean)
+        : [] as string[]
+    },
+    privacy: {
+      // 位置情報・シリアル番号・所有者名の既定の扱い（warn / strip / coarsen）
+      defaultPolicy: process.env.PRIVACY_POLICY || 'warn',
+      // coarsenで緯度・経度を丸める小数点以下の桁数（2桁で約1km）
+      coarsenDecimals: 2
+    },
+    remoteManifests: {
+      // manifestMode: 'remote' で署名したマニフェストの保存先と、参照URLに使用する公開URL（未指定の場合はリクエストのホスト）
+      storageDir: process.env.REMOTE_MANIFEST_DIR || path.join(dataDir, 'manifests'),
+      publicBaseUrl: process.env.REMOTE_MANIFEST_BASE_URL || ''
+    },
+    batchSigning: {
+      // 一括署名で1回に指定できるファイル数と、同時に署名するファイル数の上限
+      maxFiles: Number(process.env.BATCH_SIGN_MAX_FILES) || 100,
+      concurrency: Number(process.env.BATCH_SIGN_CONCURRENCY) || 4
+    },
+    manifestTemplates: {
+      // マニフェストテンプレートの保存先
+      storageDir: process.env.MANIFEST_TEMPLATE_DIR || path.join(dataDir, 'manifest-templates')
+    },
+    signingProfiles: {
+      // 署名プロファイル（証明書・秘密鍵）の保存先と暗号化キー
+      storageDir: process.env.SIGNING_PROFILE_DIR || path.join(dataDir, 'signing-profiles'),
+      secret: process.env.SIGNING_PROFILE_SECRET || ''
+    },
+    remoteSigner: {
+      // リモート署名サービス（HSMなど）の設定。秘密鍵はこのサーバーに置かない
+      url: process.env.REMOTE_SIGNER_URL || '',
+      authToken: process.env.REMOTE_SIGNER_TOKEN || '',
+      timeout: Number(process.env.REMOTE_SIGNER_TIMEOUT) || 30 * 1000 // 30秒
+    },
+    signingService: {
+      // リモート署名サービスの参照実装（開発・テスト用）
+      enabled: process.env.SIGNING_SERVICE_ENABLED === 'true',
+      authToken: process.env.SIGNING_SERVICE_TOKEN || '',
+      // 指定した署名プロファイルで署名する。未指定の場合はテスト署名者を使用
+      profileId: process.env.SIGNING_SERVICE_PROFILE_ID || ''
+    },
+    devCa: {
+      // 開発・ステージング用の認証局（C2PAの証明書プロファイルに沿ったテスト用の署名証明書を発行する）
+      enabled: process.env.DEV_CA_ENABLED === 'true',
+      // ルートCAと中間CAの鍵・証明書の保存先（初回利用時に生成する）
+      storageDir: process.env.DEV_CA_DIR || path.join(dataDir, 'dev-ca'),
+      // 署名証明書の有効期間（日）の既定値と上限
+      defaultValidityDays: 365,
+      maxValidityDays: 825
+    },
     trust: {
       // Content Credentials (C2PA) 信頼リスト設定
       enabled: process.env.ENABLE_TRUST_LIST !== 'false', // デフォルトで有効
@@ -44,6 +149,8 @@ export const config = {
         anchorCerts: 'anchors.pem',
         storeCfg: 'store.cfg'
       },
+      // 公開の信頼リストとは別に管理する組織独自のトラストアンカーの保存先
+      privateStoreDir: process.env.PRIVATE_TRUST_DIR || path.join(dataDir, 'trust'),
       cacheConfig: {
         ttl: 24 * 60 * 60 * 1000, // 24時間
         refreshInterval: 12 * 60 * 60 * 1000 // 12時間ごとに更新
@@ -53,7 +160,7 @@ export const config = {
   cors: {
     // CORS設定の強化
     origin: process.env.CORS_ORIGIN || '*', // フロントエンドのオリジン
-    methods: ['GET', 'POST', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin'],
     exposedHeaders: ['Content-Type', 'Content-Disposition', 'Content-Length'],
     credentials: true,
@@ -63,4 +170,15 @@ export const config = {
     level: process.env.NODE_ENV === 'production' ? 'info' : 'debug',
     format: process.env.NODE_ENV === 'production' ? 'combined' : 'dev'
   }
-};
\ No newline at end of file
+};
+
+/**
+ * 起動時に設定の組み合わせを検証する
+ * 安全に起動できない設定の場合は例外を投げる
+ */
+export function validateConfig(): void {
+  const { signingService } = config.c2pa;
+  if (signingService.enabled && !signingService.authToken) {
+    throw new Error('SIGNING_SERVICE_ENABLED=true の場合は SIGNING_SERVICE_TOKEN を設定してください。');
+  }
+}
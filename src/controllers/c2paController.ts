@@ -4,22 +4,53 @@ import path from 'path';
 import { 
   isValidFileId, 
   getTempFilePath, 
-  getMimeType, 
-  generateUniqueId 
+  getMimeType,
+  saveOriginalFileName
 } from '../utils/fileUtils';
 import { config } from '../config';
-import { SignData, C2paManifestData } from '../types';
+import { SignData, BatchSignData, EditData, TranscodeData, C2paManifestData, CertificateTrustInfo } from '../types';
 import { 
   createC2pa, 
-  createTestSigner, 
-  ManifestBuilder, 
-  SigningAlgorithm, 
-  BufferAsset, 
-  FileAsset,
-  ResolvedManifestStore,
-  ResolvedManifest
+  ResolvedManifestStore
 } from 'c2pa-node';
-import { createC2paTrustOptions, extractCertificateTrustInfo } from '../utils/trustListUtils';
+import { isAppError, toErrorResponse } from '../utils/errors';
+import { summarizeAiProvenance } from '../services/aiDisclosureService';
+import { parseTrainingMining } from '../services/trainingMiningService';
+import {
+  extractPhotoMetadata,
+  applyPhotoMetadataOverrides,
+  createPhotoMetadataAssertions,
+  getPhotoMetadataAllowlist,
+  normalizePhotoMetadataOptions
+} from '../services/photoMetadataService';
+import {
+  getRemoteManifestPath,
+  readManifestStore,
+  resolveSidecarFileId
+} from '../services/manifestStoreService';
+import { signBatch } from '../services/batchSigningService';
+import { inspectCertificateChain } from '../services/certificateInspectionService';
+import { evaluateSignerTrust } from '../services/certificateTrustService';
+import { applyManifestTemplate } from '../services/manifestTemplateService';
+import {
+  assertManifestOutput,
+  createDerivedSignData,
+  prepareSigningOptions,
+  previewManifest,
+  signAsset,
+  SigningOptions
+} from '../services/manifestSigningService';
+import {
+  applyEditOperations,
+  createEditActions,
+  createTranscodeAction,
+  getTranscodeMimeType,
+  normalizeEditOperations,
+  normalizeTranscodeOptions,
+  removeEditedAsset,
+  transcodeImage,
+  TranscodeOptions
+} from '../services/editService';
 
 // シングルトンC2PAインスタンスの作成
 const c2paInstance = createC2pa();
@@ -45,17 +76,24 @@ function transformC2paDataForFrontend(data: ResolvedManifestStore): C2paManifest
       assertions: manifest.assertions || [],
       ingredients: manifest.ingredients || [],
       signature_info: manifest.signature_info || null,
+      trainingMining: parseTrainingMining(manifest),
       // その他必要なフィールド
     };
   });
 
+  // 材料のマニフェストまでたどって生成AIの関与を集計
+  const aiProvenance = summarizeAiProvenance(data);
+
   // フロントエンドの期待する形式に整形
   const transformed: C2paManifestData = {
     active_manifest: activeManifestLabel,
     manifests: transformedManifests,
     validation_status: Array.isArray(data.validation_status) 
       ? data.validation_status[0]?.code || "unknown" 
-      : "unknown"
+      : "unknown",
+    aiGenerated: aiProvenance.aiGenerated,
+    aiSources: aiProvenance.sources,
+    trainingMining: parseTrainingMining(data.active_manifest)
   };
 
   return transformed;
@@ -80,6 +118,9 @@ export const uploadFile = async (req: Request, res: Response): Promise<void> =>
     // ファイル名をサニタイズしてメタデータを作成
     const sanitizedFileName = path.basename(file.originalname);
     const fileId = path.basename(file.path);
+
+    // マニフェストテンプレートの{{filename}}や材料のタイトルに使用するため、元のファイル名を保存する
+    await saveOriginalFileName(fileId, sanitizedFileName);
     
     // ファイルのURLを生成
     const baseUrl = `${req.protocol}://${req.get('host')}`;
@@ -109,8 +150,8 @@ export const uploadFile = async (req: Request, res: Response): Promise<void> =>
  */
 export const readC2pa = async (req: Request, res: Response): Promise<void> => {
   try {
-    // リクエストボディからfileIdを取得
-    const { fileId } = req.body;
+    // リクエストボディからfileIdとサイドカーのファイルIDを取得
+    const { fileId, sidecarFileId: requestedSidecarFileId } = req.body;
 
     // fileIdのバリデーション
     if (!fileId || !isValidFileId(fileId)) {
@@ -146,17 +187,21 @@ export const readC2pa = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // サイドカー（.c2pa）のバリデーション
+    let sidecarFileId: string | null;
+    try {
+      sidecarFileId = await resolveSidecarFileId(requestedSidecarFileId);
+    } catch (err) {
+      if (isAppError(err)) {
+        res.status(err.statusCode).json(toErrorResponse(err));
+        return;
+      }
+      throw err;
+    }
+
     try {
       // ファイルのC2PA情報を読み取る
-      // トラストリストオプションを取得（可能であれば）
-      const trustOptions = await createC2paTrustOptions();
-      const fileAsset: FileAsset = { path: tempFilePath, mimeType };
-      
-      // 現在のc2pa-nodeバージョンではread()に設定を渡せないため
-      // 標準の方法で読み取り、その後で証明書の検証を行う
-      // トラストオプションが利用可能な場合、検証結果を手動で拡張
-      // 注: 将来的にc2pa-nodeがAPIで直接サポートするまでの暫定対応
-      const result = await c2paInstance.read(fileAsset);
+      const result = await readManifestStore(c2paInstance, fileId, sidecarFileId);
 
       if (result) {
         // データ構造をデバッグログとして出力
@@ -171,11 +216,15 @@ export const readC2pa = async (req: Request, res: Response): Promise<void> => {
 
         // C2PAデータがある場合、フロントエンドの期待する形式に変換
         const transformedData = transformC2paDataForFrontend(result);
+
+        // 署名証明書の信頼性を評価
+        const certificateTrust = await evaluateSignerTrust(fileId, sidecarFileId, result);
         
         res.json({
           success: true,
           hasC2pa: true,
           manifest: transformedData,
+          certificateTrust,
         });
       } else {
         // C2PAデータがない場合
@@ -212,7 +261,8 @@ export const readC2pa = async (req: Request, res: Response): Promise<void> => {
 export const signC2pa = async (req: Request, res: Response): Promise<void> => {
   try {
     // リクエストボディを取得
-    const { fileId, manifestData, certificate, privateKey, useLocalSigner } = req.body as SignData;
+    const signData = req.body as SignData;
+    const { fileId, certificate, privateKey, pkcs12, useLocalSigner, useRemoteSigner, profileId } = signData;
 
     // fileIdのバリデーション
     if (!fileId || !isValidFileId(fileId)) {
@@ -223,21 +273,27 @@ export const signC2pa = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // マニフェストデータのバリデーション
-    if (!manifestData || typeof manifestData !== "object") {
-      res.status(400).json({
-        success: false,
-        error: "無効なマニフェストデータです。",
-      });
-      return;
+    // マニフェストテンプレートの適用と署名オプションのバリデーション
+    let resolvedSignData: SignData;
+    let signingOptions: SigningOptions;
+    try {
+      const applied = await applyManifestTemplate(signData);
+      resolvedSignData = applied.signData;
+      signingOptions = prepareSigningOptions(resolvedSignData, applied.builderOptions);
+    } catch (err) {
+      if (isAppError(err)) {
+        res.status(err.statusCode).json(toErrorResponse(err));
+        return;
+      }
+      throw err;
     }
-    
-    // ローカル署名の場合、証明書と秘密鍵のバリデーション
-    if (useLocalSigner) {
-      if (!certificate || !privateKey) {
+
+    // ローカル署名の場合、証明書と秘密鍵（またはPKCS#12）のバリデーション（プロファイル指定・リモート署名時は不要）
+    if (useLocalSigner && !profileId && !useRemoteSigner) {
+      if ((!certificate || !privateKey) && !pkcs12) {
         res.status(400).json({
           success: false,
-          error: "ローカル署名には証明書と秘密鍵が必要です。",
+          error: "ローカル署名には証明書と秘密鍵、またはPKCS#12が必要です。",
         });
         return;
       }
@@ -257,165 +313,475 @@ export const signC2pa = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // ファイル拡張子を抽出
-    const extension = path.extname(fileId);
+    // MIMEタイプを拡張子から決定
+    if (!getMimeType(fileId)) {
+      res.status(400).json({
+        success: false,
+        error: "サポートされていないファイル形式です。",
+      });
+      return;
+    }
 
-    // 出力ファイル名を生成
-    const outputFileName = `signed_${generateUniqueId()}${extension}`;
-    const outputPath = path.join(config.tempDir, outputFileName);
+    try {
+      // ダウンロードURLを生成
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const signed = await signAsset(fileId, resolvedSignData, signingOptions, baseUrl);
+      const downloadUrl = `${baseUrl}/api/download?file=${signed.fileId}`;
 
-    // MIMEタイプを拡張子から決定
-    const mimeType = getMimeType(fileId);
+      res.json({
+        success: true,
+        fileId: signed.fileId,
+        downloadUrl,
+        ...signed.details,
+      });
+    } catch (err) {
+      if (isAppError(err)) {
+        res.status(err.statusCode).json(toErrorResponse(err));
+        return;
+      }
+      console.error("C2PAモジュール処理エラー:", err);
+      res.status(500).json({
+        success: false,
+        error: "C2PAモジュールの処理に失敗しました",
+      });
+    }
+  } catch (error) {
+    console.error("C2PA署名エラー:", error);
+    
+    res.status(500).json({
+      success: false,
+      error: "C2PA署名処理中にエラーが発生しました。",
+    });
+  }
+};
 
-    if (!mimeType) {
+/**
+ * 複数ファイルの一括署名処理
+ * ファイルごとの結果と、署名済みファイルをまとめたZIPのダウンロードURLを返す
+ */
+export const signBatchC2pa = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const batchData = req.body as BatchSignData;
+
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const outcome = await signBatch(batchData, baseUrl);
+
+    res.json({
+      success: true,
+      ...outcome,
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("一括署名エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "一括署名処理中にエラーが発生しました。",
+    });
+  }
+};
+
+/**
+ * 署名前のマニフェストの確認
+ * 署名処理と同じ手順でマニフェストを構築し、署名やファイルの書き込みは行わずに内容と警告を返す
+ */
+export const previewSignC2pa = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const signData = req.body as SignData;
+    const { fileId } = signData;
+
+    // fileIdのバリデーション
+    if (!fileId || !isValidFileId(fileId)) {
       res.status(400).json({
         success: false,
-        error: "サポートされていないファイル形式です。",
+        error: "無効なファイルIDです。",
       });
       return;
     }
 
+    // ファイルの存在チェック
     try {
-      // 署名者の作成
-      let signer;
-      
-      if (useLocalSigner && certificate && privateKey) {
-        console.log("ローカル署名者を使用します");
-        
-        try {
-          // PEMと秘密鍵の内容をバッファに変換
-          const certificateBuffer = Buffer.from(certificate.content);
-          const privateKeyBuffer = Buffer.from(privateKey.content);
-          
-          // ローカル署名者を作成
-          signer = {
-            type: 'local' as const,
-            certificate: certificateBuffer,
-            privateKey: privateKeyBuffer,
-            algorithm: SigningAlgorithm.ES256,
-            tsaUrl: 'http://timestamp.digicert.com',
-          };
-        } catch (err) {
-          console.error("証明書または秘密鍵の処理エラー:", err);
-          res.status(400).json({
-            success: false,
-            error: "証明書または秘密鍵の処理に失敗しました: " + (err instanceof Error ? err.message : String(err)),
-          });
-          return;
-        }
-      } else {
-        console.log("テスト署名者を使用します");
-        // テスト署名者を作成
-        signer = await createTestSigner();
+      await fs.access(getTempFilePath(fileId));
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: "指定されたファイルが見つかりません。",
+      });
+      return;
+    }
+
+    try {
+      const applied = await applyManifestTemplate(signData);
+      const signingOptions = prepareSigningOptions(applied.signData, applied.builderOptions);
+      const preview = await previewManifest(fileId, applied.signData, signingOptions);
+
+      res.json({
+        success: true,
+        fileId,
+        manifest: preview.manifest,
+        ...preview.details,
+        warnings: preview.warnings,
+      });
+    } catch (err) {
+      if (isAppError(err)) {
+        res.status(err.statusCode).json(toErrorResponse(err));
+        return;
       }
+      console.error("マニフェスト構築エラー:", err);
+      res.status(500).json({
+        success: false,
+        error: "マニフェストの構築に失敗しました",
+      });
+    }
+  } catch (error) {
+    console.error("署名プレビューエラー:", error);
 
-      // C2PAインスタンスを署名者付きで作成
-      const c2pa = createC2pa({ signer });
+    res.status(500).json({
+      success: false,
+      error: "署名前のマニフェストの確認中にエラーが発生しました。",
+    });
+  }
+};
 
-      // マニフェストビルダーを作成
-      const manifest = new ManifestBuilder({
-        claim_generator: manifestData.claimGenerator || "c2pa-web-app/1.0.0",
-        format: manifestData.format || mimeType,
-        title: manifestData.title,
+/**
+ * 画像の編集処理
+ * アップロード済みの画像に編集操作を適用し、編集元をparentOf材料、各操作をc2pa.actionsとして記録して署名する
+ */
+export const editC2pa = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const editData = req.body as EditData;
+    const { fileId, manifestData, operations: requestedOperations, ...signOptions } = editData;
+
+    // fileIdのバリデーション
+    if (!fileId || !isValidFileId(fileId)) {
+      res.status(400).json({
+        success: false,
+        error: "無効なファイルIDです。",
       });
+      return;
+    }
 
-      // アサーションの追加
-      if (manifestData.assertions && manifestData.assertions.length > 0) {
-        // すべてのアサーションを追加
-        for (const assertion of manifestData.assertions) {
-          manifest.definition.assertions = manifest.definition.assertions || [];
-          manifest.definition.assertions.push(assertion);
-        }
+    // ファイルの存在チェック
+    try {
+      await fs.access(getTempFilePath(fileId));
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: `指定されたファイルが見つかりません。: ${error}`,
+      });
+      return;
+    }
+
+    // 編集操作と署名オプションのバリデーション（編集元はparentOf材料になる）
+    let operations: EditData['operations'];
+    let signData: SignData;
+    let signingOptions: SigningOptions;
+    try {
+      operations = normalizeEditOperations(requestedOperations);
+      const applied = await applyManifestTemplate({ ...signOptions, fileId, manifestData });
+      signData = createDerivedSignData(applied.signData, createEditActions(operations));
+      signingOptions = prepareSigningOptions(signData, applied.builderOptions);
+    } catch (err) {
+      if (isAppError(err)) {
+        res.status(err.statusCode).json(toErrorResponse(err));
+        return;
       }
+      throw err;
+    }
 
-      // 追加メタデータの設定
-      if (manifestData.creator) {
-        manifest.definition.assertions = manifest.definition.assertions || [];
-        manifest.definition.assertions.push({
-          label: "dc.creator",
-          data: { value: manifestData.creator },
-        });
+    let editedFileId: string | null = null;
+    try {
+      const edited = await applyEditOperations(fileId, operations);
+      editedFileId = edited.fileId;
+
+      // ダウンロードURLを生成
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const signed = await signAsset(edited.fileId, signData, signingOptions, baseUrl);
+      const downloadUrl = `${baseUrl}/api/download?file=${signed.fileId}`;
+
+      res.json({
+        success: true,
+        fileId: signed.fileId,
+        downloadUrl,
+        edit: {
+          sourceFileId: fileId,
+          operations,
+          format: edited.format,
+          width: edited.width,
+          height: edited.height,
+        },
+        ...signed.details,
+      });
+    } catch (err) {
+      if (isAppError(err)) {
+        res.status(err.statusCode).json(toErrorResponse(err));
+        return;
       }
+      console.error("画像編集エラー:", err);
+      res.status(500).json({
+        success: false,
+        error: "画像の編集に失敗しました",
+      });
+    } finally {
+      if (editedFileId) {
+        await removeEditedAsset(editedFileId);
+      }
+    }
+  } catch (error) {
+    console.error("画像編集エラー:", error);
 
-      if (manifestData.copyright) {
-        manifest.definition.assertions = manifest.definition.assertions || [];
-        manifest.definition.assertions.push({
-          label: "dc.rights",
-          data: { value: manifestData.copyright },
-        });
+    res.status(500).json({
+      success: false,
+      error: "画像の編集処理中にエラーが発生しました。",
+    });
+  }
+};
+
+/**
+ * 形式変換処理
+ * アップロード済みの画像を別の形式に変換し、変換元をparentOf材料、c2pa.transcodedアクションを記録して署名する
+ */
+export const convertC2pa = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const transcodeData = req.body as TranscodeData;
+    const { fileId, manifestData, targetFormat, quality, sidecar, ...signOptions } = transcodeData;
+
+    // fileIdのバリデーション
+    if (!fileId || !isValidFileId(fileId)) {
+      res.status(400).json({
+        success: false,
+        error: "無効なファイルIDです。",
+      });
+      return;
+    }
+
+    // ファイルの存在チェック
+    try {
+      await fs.access(getTempFilePath(fileId));
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: `指定されたファイルが見つかりません。: ${error}`,
+      });
+      return;
+    }
+
+    // 変換先と署名オプションのバリデーション（変換元はparentOf材料になる）
+    let transcodeOptions: TranscodeOptions;
+    let signData: SignData;
+    let signingOptions: SigningOptions;
+    try {
+      transcodeOptions = normalizeTranscodeOptions(targetFormat, quality);
+      const applied = await applyManifestTemplate({
+        ...signOptions,
+        fileId,
+        manifestData,
+        manifestMode: sidecar === true ? 'sidecar' : signOptions.manifestMode
+      });
+      signData = createDerivedSignData(applied.signData, [createTranscodeAction(fileId, transcodeOptions)]);
+      signingOptions = prepareSigningOptions(signData, applied.builderOptions);
+      assertManifestOutput(getTranscodeMimeType(transcodeOptions), signingOptions.manifestMode);
+    } catch (err) {
+      if (isAppError(err)) {
+        res.status(err.statusCode).json(toErrorResponse(err));
+        return;
       }
+      throw err;
+    }
 
-      if (manifestData.description) {
-        manifest.definition.assertions = manifest.definition.assertions || [];
-        manifest.definition.assertions.push({
-          label: "dc.description",
-          data: { value: manifestData.description },
-        });
+    let transcodedFileId: string | null = null;
+    try {
+      const transcoded = await transcodeImage(fileId, transcodeOptions);
+      transcodedFileId = transcoded.fileId;
+
+      // ダウンロードURLを生成
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const signed = await signAsset(transcoded.fileId, signData, signingOptions, baseUrl);
+      const downloadUrl = `${baseUrl}/api/download?file=${signed.fileId}`;
+
+      res.json({
+        success: true,
+        fileId: signed.fileId,
+        downloadUrl,
+        conversion: {
+          sourceFileId: fileId,
+          from: getMimeType(fileId),
+          to: getTranscodeMimeType(transcodeOptions),
+          width: transcoded.width,
+          height: transcoded.height,
+        },
+        ...signed.details,
+      });
+    } catch (err) {
+      if (isAppError(err)) {
+        res.status(err.statusCode).json(toErrorResponse(err));
+        return;
       }
+      console.error("形式変換エラー:", err);
+      res.status(500).json({
+        success: false,
+        error: "画像の形式変換に失敗しました",
+      });
+    } finally {
+      if (transcodedFileId) {
+        await removeEditedAsset(transcodedFileId);
+      }
+    }
+  } catch (error) {
+    console.error("形式変換エラー:", error);
 
-      // アセットを準備
-      const asset: FileAsset = {
-        path: tempFilePath,
-        mimeType
-      };
-
-      try {
-        // 署名を実行
-        console.log("署名処理開始...");
-        const result = await c2pa.sign({
-          asset,
-          manifest,
-          options: {
-            outputPath,
-          }
-        });
+    res.status(500).json({
+      success: false,
+      error: "画像の形式変換処理中にエラーが発生しました。",
+    });
+  }
+};
 
-        // 一時出力ファイルの存在確認
-        await fs.access(outputPath);
+/**
+ * 写真メタデータ（EXIF/IPTC/XMP）のプレビュー処理
+ * 署名時にマニフェストへ含まれる項目と、許可リスト外のため除外される項目を返す
+ */
+export const previewPhotoMetadata = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { fileId, overrides } = req.body;
 
-        // ダウンロードURLを生成
-        const baseUrl = `${req.protocol}://${req.get('host')}`;
-        const downloadUrl = `${baseUrl}/api/download?file=${outputFileName}`;
+    // fileIdのバリデーション
+    if (!fileId || !isValidFileId(fileId)) {
+      res.status(400).json({
+        success: false,
+        error: "無効なファイルIDです。",
+      });
+      return;
+    }
 
-        res.json({
-          success: true,
-          fileId: outputFileName,
-          downloadUrl,
-        });
-      } catch (signError) {
-        console.error("署名実行エラー:", signError);
-        
-        // エラー内容を詳細に分析
-        let errorMessage = "署名処理に失敗しました";
-        if (signError instanceof Error) {
-          errorMessage += ": " + signError.message;
-          
-          // 原因分析を追加
-          if (signError.message.includes("PEM")) {
-            errorMessage += "。証明書または秘密鍵のフォーマットが正しくない可能性があります。";
-          } else if (signError.message.includes("private key")) {
-            errorMessage += "。秘密鍵が無効または証明書と一致していない可能性があります。";
-          }
-        }
-        
-        res.status(500).json({
-          success: false,
-          error: errorMessage,
-        });
+    // 一時ファイルのパスを取得
+    const tempFilePath = getTempFilePath(fileId);
+
+    // ファイルの存在チェック
+    try {
+      await fs.access(tempFilePath);
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: `指定されたファイルが見つかりません。: ${error}`,
+      });
+      return;
+    }
+
+    // 上書き値のバリデーション
+    let options: ReturnType<typeof normalizePhotoMetadataOptions>;
+    try {
+      options = normalizePhotoMetadataOptions({ overrides }, '$');
+    } catch (err) {
+      if (isAppError(err)) {
+        res.status(err.statusCode).json(toErrorResponse(err));
+        return;
       }
-    } catch (c2paError) {
-      console.error("C2PAモジュール処理エラー:", c2paError);
-      res.status(500).json({
+      throw err;
+    }
+
+    const extracted = await extractPhotoMetadata(tempFilePath);
+    const fields = applyPhotoMetadataOverrides(extracted, options?.overrides);
+    const allowlist = getPhotoMetadataAllowlist();
+
+    res.json({
+      success: true,
+      fileId,
+      allowlist,
+      fields,
+      excluded: Object.keys(extracted).filter(key => !allowlist.includes(key)),
+      assertions: createPhotoMetadataAssertions(fields),
+    });
+  } catch (error) {
+    console.error("写真メタデータのプレビューエラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "写真メタデータの読み取り中にエラーが発生しました。",
+    });
+  }
+};
+
+/**
+ * 証明書チェーンの検査処理
+ * 署名前に証明書の内容とC2PAの証明書プロファイルへの適合を確認する
+ */
+export const inspectCertificates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // 署名リクエストと同じ { content } 形式も受け付ける
+    const { certificate } = req.body;
+    const pem = typeof certificate === 'string' ? certificate : certificate?.content;
+
+    if (typeof pem !== 'string' || !pem.trim()) {
+      res.status(400).json({
         success: false,
-        error: "C2PAモジュールの処理に失敗しました",
+        error: "証明書チェーン（PEM）を指定してください。",
       });
+      return;
     }
+
+    const inspection = inspectCertificateChain(pem);
+
+    res.json({
+      success: true,
+      ...inspection,
+    });
   } catch (error) {
-    console.error("C2PA署名エラー:", error);
-    
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("証明書の検査エラー:", error);
+
     res.status(500).json({
       success: false,
-      error: "C2PA署名処理中にエラーが発生しました。",
+      error: "証明書の検査中にエラーが発生しました。",
+    });
+  }
+};
+
+/**
+ * リモートマニフェストの配信処理
+ * manifestMode: 'remote' で署名したアセットのXMPから参照される
+ */
+export const getRemoteManifest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const manifestPath = getRemoteManifestPath(req.params.manifestId);
+
+    if (!manifestPath) {
+      res.status(400).json({
+        success: false,
+        error: "無効なマニフェストIDです。",
+      });
+      return;
+    }
+
+    let manifest: Buffer;
+    try {
+      manifest = await fs.readFile(manifestPath);
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: "指定されたマニフェストが見つかりません。",
+      });
+      return;
+    }
+
+    // 検証ツールから直接取得されるため、どのオリジンからも参照できるようにする
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Content-Type', config.manifestStoreFormat.mimeType);
+    res.setHeader('Content-Length', manifest.length);
+    res.send(manifest);
+  } catch (error) {
+    console.error("リモートマニフェスト配信エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "マニフェストの取得中にエラーが発生しました。",
     });
   }
 };
@@ -425,8 +791,8 @@ export const signC2pa = async (req: Request, res: Response): Promise<void> => {
  */
 export const verifyC2pa = async (req: Request, res: Response): Promise<void> => {
   try {
-    // リクエストボディからfileIdを取得
-    const { fileId } = req.body;
+    // リクエストボディからfileIdとサイドカーのファイルIDを取得
+    const { fileId, sidecarFileId: requestedSidecarFileId } = req.body;
 
     // fileIdのバリデーション
     if (!fileId || !isValidFileId(fileId)) {
@@ -462,18 +828,22 @@ export const verifyC2pa = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // サイドカー（.c2pa）のバリデーション
+    let sidecarFileId: string | null;
     try {
-      // トラストリストオプションを取得（可能であれば）
-      const trustOptions = await createC2paTrustOptions();
-      
-      // ファイルのC2PA情報を読み取る
-      const fileAsset: FileAsset = { path: tempFilePath, mimeType };
-      
-      // 現在のc2pa-nodeバージョンではread()に設定を渡せないため
-      // 標準の方法で読み取り、その後で証明書の検証を行う
-      // トラストオプションが利用可能な場合、検証結果を手動で拡張
-      // 注: 将来的にc2pa-nodeがAPIで直接サポートするまでの暫定対応
-      const result = await c2paInstance.read(fileAsset);
+      sidecarFileId = await resolveSidecarFileId(requestedSidecarFileId);
+    } catch (err) {
+      if (isAppError(err)) {
+        res.status(err.statusCode).json(toErrorResponse(err));
+        return;
+      }
+      throw err;
+    }
+
+    try {
+      // ファイルのC2PA情報を読み取る（サイドカーが指定された場合はあわせて読み取る）
+      // c2pa-nodeのread()には信頼リストを渡せないため、署名証明書の信頼性は別途評価する
+      const result = await readManifestStore(c2paInstance, fileId, sidecarFileId);
 
       if (!result) {
         res.json({
@@ -488,8 +858,8 @@ export const verifyC2pa = async (req: Request, res: Response): Promise<void> =>
         return;
       }
 
-      // 証明書の信頼性情報を抽出
-      const certificateTrustInfo = extractCertificateTrustInfo(result);
+      // 署名証明書チェーンを信頼リストで評価
+      const certificateTrustInfo = await evaluateSignerTrust(fileId, sidecarFileId, result);
 
       // C2PA情報から検証結果を抽出
       const validationResults = extractValidationResults(result, certificateTrustInfo);
@@ -497,7 +867,8 @@ export const verifyC2pa = async (req: Request, res: Response): Promise<void> =>
       res.json({
         success: true,
         hasC2pa: true,
-        ...validationResults
+        ...validationResults,
+        trainingMining: parseTrainingMining(result.active_manifest)
       });
     } catch (verifyError) {
       // C2PA検証エラーをログに記録
@@ -528,7 +899,7 @@ export const verifyC2pa = async (req: Request, res: Response): Promise<void> =>
  */
 function extractValidationResults(
   manifestStore: ResolvedManifestStore, 
-  certificateTrustInfo?: any
+  certificateTrustInfo: CertificateTrustInfo
 ) {
   // 検証ステータスの抽出
   const validationStatus = manifestStore.validation_status || "unknown";
@@ -545,12 +916,9 @@ function extractValidationResults(
   const activeManifest = manifestStore.active_manifest;
   const manifests = manifestStore.manifests || {};
 
-  // 証明書信頼性情報の処理
-  if (certificateTrustInfo) {
-    // 証明書が信頼できない場合は警告を追加
-    if (!certificateTrustInfo.isTrusted && certificateTrustInfo.errorMessage) {
-      warnings.push(`証明書の信頼性: ${certificateTrustInfo.errorMessage}`);
-    }
+  // 証明書が信頼できない場合は警告を追加
+  if (!certificateTrustInfo.isTrusted && certificateTrustInfo.errorMessage) {
+    warnings.push(`証明書の信頼性: ${certificateTrustInfo.errorMessage}`);
   }
 
   // マニフェストの検証情報を抽出
@@ -668,12 +1036,7 @@ function extractValidationResults(
       ingredientsCount: activeManifest.ingredients?.length || 0,
     } : null,
     // 証明書信頼性情報を追加
-    certificateTrust: certificateTrustInfo || {
-      isTrusted: false,
-      issuer: null,
-      timestamp: null,
-      errorMessage: "証明書信頼性情報が利用できません"
-    }
+    certificateTrust: certificateTrustInfo
   };
 
   return {
@@ -0,0 +1,70 @@
+import { NextFunction, Request, Response } from 'express';
+import { getDevCaCertificates, issueDevCertificates, requireDevCa } from '../services/devCertificateService';
+import { DevCertificateRequest } from '../types';
+import { isAppError, toErrorResponse } from '../utils/errors';
+
+/**
+ * 開発用認証局が無効の場合に、管理者認証やリクエストの処理より前に503を返すミドルウェア
+ */
+export const requireDevCaEnabled = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    requireDevCa();
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    throw error;
+  }
+  next();
+};
+
+/**
+ * 開発用認証局のルートCA・中間CA証明書の取得
+ */
+export const getDevCa = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const certificates = await getDevCaCertificates();
+
+    res.json({
+      success: true,
+      ...certificates
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("開発用認証局の取得エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "開発用認証局の証明書の取得中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * 開発用認証局からのテスト用署名証明書の発行（管理者用）
+ */
+export const issueDevCaCertificates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bundle = await issueDevCertificates(req.body as DevCertificateRequest);
+
+    res.status(201).json({
+      success: true,
+      ...bundle
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("テスト用署名証明書の発行エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "テスト用署名証明書の発行中にエラーが発生しました。"
+    });
+  }
+};
@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import fs from 'fs/promises';
 import path from 'path';
-import { isValidFileId, getTempFilePath, getMimeType, sanitizeFilename } from '../utils/fileUtils';
+import { isValidFileId, getTempFilePath, getMimeType, sanitizeFilename, removeOriginalFileName } from '../utils/fileUtils';
 import { config } from '../config';
 
 /**
@@ -91,11 +91,11 @@ export const downloadFile = async (req: Request, res: Response): Promise<void> =
     const fileBuffer = await fs.readFile(filePath);
 
     // MIMEタイプを取得
-    const contentType = getMimeType(fileName) || "application/octet-stream";
-
-    // 元のファイル名から拡張子を取得
     const extension = path.extname(fileName);
-    
+    const contentType = getMimeType(fileName)
+      || [config.manifestStoreFormat, config.archiveFormat].find(format => format.extension === extension)?.mimeType
+      || "application/octet-stream";
+
     // ダウンロード用のファイル名を生成
     const downloadFileName = sanitizeFilename(`c2pa_signed_${Date.now()}${extension}`);
 
@@ -212,8 +212,9 @@ export const deleteTempFile = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // ファイルを削除
+    // ファイルを削除（アップロード時の元のファイル名も合わせて削除する）
     await fs.unlink(filePath);
+    await removeOriginalFileName(filename);
 
     res.json({
       success: true,
@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import {
+  createManifestTemplate,
+  deleteManifestTemplate,
+  getManifestTemplate,
+  listManifestTemplates,
+  updateManifestTemplate
+} from '../services/manifestTemplateService';
+import { ManifestTemplateInput } from '../types';
+import { isAppError, toErrorResponse } from '../utils/errors';
+
+/**
+ * マニフェストテンプレート一覧の取得
+ */
+export const getManifestTemplates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const templates = await listManifestTemplates();
+
+    res.json({
+      success: true,
+      count: templates.length,
+      templates
+    });
+  } catch (error) {
+    console.error("マニフェストテンプレート一覧取得エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "マニフェストテンプレート一覧の取得中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * マニフェストテンプレートの取得
+ */
+export const getManifestTemplateById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const template = await getManifestTemplate(req.params.templateId);
+
+    res.json({
+      success: true,
+      template
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("マニフェストテンプレート取得エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "マニフェストテンプレートの取得中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * マニフェストテンプレートの登録（管理者用）
+ */
+export const registerManifestTemplate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const template = await createManifestTemplate(req.body as ManifestTemplateInput);
+
+    res.status(201).json({
+      success: true,
+      template
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("マニフェストテンプレート登録エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "マニフェストテンプレートの登録中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * マニフェストテンプレートの更新（管理者用）
+ */
+export const replaceManifestTemplate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const template = await updateManifestTemplate(req.params.templateId, req.body as ManifestTemplateInput);
+
+    res.json({
+      success: true,
+      template
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("マニフェストテンプレート更新エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "マニフェストテンプレートの更新中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * マニフェストテンプレートの削除（管理者用）
+ */
+export const removeManifestTemplate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { templateId } = req.params;
+    await deleteManifestTemplate(templateId);
+
+    res.json({
+      success: true,
+      message: `マニフェストテンプレート "${templateId}" を削除しました。`
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("マニフェストテンプレート削除エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "マニフェストテンプレートの削除中にエラーが発生しました。"
+    });
+  }
+};
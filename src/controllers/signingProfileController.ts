@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+import {
+  createSigningProfile,
+  listSigningProfiles,
+  deleteSigningProfile
+} from '../services/signingProfileService';
+import { SigningProfileInput } from '../types';
+import { isAppError, toErrorResponse } from '../utils/errors';
+
+/**
+ * 署名プロファイル一覧の取得（鍵素材は含まない）
+ */
+export const getSigningProfiles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const profiles = await listSigningProfiles();
+
+    res.json({
+      success: true,
+      count: profiles.length,
+      profiles
+    });
+  } catch (error) {
+    console.error("署名プロファイル一覧取得エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "署名プロファイル一覧の取得中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * 署名プロファイルの登録（管理者用）
+ */
+export const registerSigningProfile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const profile = await createSigningProfile(req.body as SigningProfileInput);
+
+    res.status(201).json({
+      success: true,
+      profile
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("署名プロファイル登録エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "署名プロファイルの登録中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * 署名プロファイルの削除（管理者用）
+ */
+export const removeSigningProfile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { profileId } = req.params;
+    await deleteSigningProfile(profileId);
+
+    res.json({
+      success: true,
+      message: `署名プロファイル "${profileId}" を削除しました。`
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("署名プロファイル削除エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "署名プロファイルの削除中にエラーが発生しました。"
+    });
+  }
+};
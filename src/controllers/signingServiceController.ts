@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { config } from '../config';
+import { getReserveSize, signClaim } from '../services/referenceSigningService';
+import { isSameToken } from '../utils/tokenUtils';
+
+/**
+ * 参照署名サービスが有効か、また認証トークンが正しいかを確認する
+ * 問題がある場合はレスポンスを返してfalseを返す
+ */
+function authorizeSigningServiceRequest(req: Request, res: Response): boolean {
+  const serviceConfig = config.c2pa.signingService;
+
+  if (!serviceConfig.enabled) {
+    res.status(404).json({
+      success: false,
+      error: "参照署名サービスは無効になっています。"
+    });
+    return false;
+  }
+
+  // トークン未設定の場合も拒否する（起動時の設定検証と合わせて二重に確認する）
+  const authorization = req.headers['authorization'];
+  if (
+    !serviceConfig.authToken ||
+    typeof authorization !== 'string' ||
+    !isSameToken(authorization, `Bearer ${serviceConfig.authToken}`)
+  ) {
+    res.status(401).json({
+      success: false,
+      error: "署名サービスの認証に失敗しました。"
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * 署名に必要な予約サイズの取得
+ */
+export const getSigningReserveSize = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!authorizeSigningServiceRequest(req, res)) {
+      return;
+    }
+
+    const reserveSize = await getReserveSize();
+
+    res.json({
+      success: true,
+      reserveSize
+    });
+  } catch (error) {
+    console.error("予約サイズ取得エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "予約サイズの取得中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * クレームへの署名（COSE_Sign1を返す）
+ */
+export const signClaimBytes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!authorizeSigningServiceRequest(req, res)) {
+      return;
+    }
+
+    const { claim, reserveSize } = req.body as { claim?: string; reserveSize?: number };
+
+    if (typeof claim !== 'string' || !claim || typeof reserveSize !== 'number' || reserveSize <= 0) {
+      res.status(400).json({
+        success: false,
+        error: "claim（Base64）とreserveSize（正の整数）が必要です。"
+      });
+      return;
+    }
+
+    const signature = await signClaim(Buffer.from(claim, 'base64'), reserveSize);
+
+    res.json({
+      success: true,
+      signature: signature.toString('base64')
+    });
+  } catch (error) {
+    console.error("クレーム署名エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "クレームの署名中にエラーが発生しました。"
+    });
+  }
+};
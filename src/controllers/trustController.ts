@@ -1,6 +1,15 @@
 import { Request, Response } from 'express';
 import { getTrustListStatus, updateTrustLists as updateLists } from '../services/trustListService';
+import {
+  addPrivateAllowedCertificate,
+  addPrivateTrustAnchor,
+  listPrivateAllowedCertificates,
+  listPrivateTrustAnchors,
+  removePrivateAllowedCertificate,
+  removePrivateTrustAnchor
+} from '../services/privateTrustStoreService';
 import { config } from '../config';
+import { isAppError, toErrorResponse } from '../utils/errors';
 
 /**
  * 証明書トラストリストの状態を取得
@@ -28,16 +37,6 @@ export const getTrustStatus = async (req: Request, res: Response): Promise<void>
  */
 export const updateTrustLists = async (req: Request, res: Response): Promise<void> => {
   try {
-    // 管理者権限チェック
-    const adminToken = req.headers['x-admin-token'];
-    if (adminToken !== process.env.ADMIN_TOKEN) {
-      res.status(403).json({
-        success: false,
-        error: "このアクションには管理者権限が必要です。"
-      });
-      return;
-    }
-    
     if (!config.c2pa.trust.enabled) {
       res.status(400).json({
         success: false,
@@ -71,4 +70,150 @@ export const updateTrustLists = async (req: Request, res: Response): Promise<voi
       error: "トラストリストの更新中にエラーが発生しました。"
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * 組織独自のトラストアンカー一覧の取得（管理者用）
+ */
+export const getPrivateTrustAnchors = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const anchors = await listPrivateTrustAnchors();
+
+    res.json({
+      success: true,
+      count: anchors.length,
+      anchors
+    });
+  } catch (error) {
+    console.error("トラストアンカー一覧取得エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "トラストアンカー一覧の取得中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * 組織独自のトラストアンカーの登録（管理者用）
+ */
+export const registerPrivateTrustAnchor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { certificate, label } = req.body;
+    const anchor = await addPrivateTrustAnchor(certificate, label);
+
+    res.status(201).json({
+      success: true,
+      anchor
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("トラストアンカー登録エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "トラストアンカーの登録中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * 組織独自のトラストアンカーの削除（管理者用）
+ */
+export const deletePrivateTrustAnchor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const anchor = await removePrivateTrustAnchor(req.params.anchorId);
+
+    res.json({
+      success: true,
+      message: `トラストアンカー "${anchor.label}" を削除しました。`
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("トラストアンカー削除エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "トラストアンカーの削除中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * 組織独自に個別に信頼する署名証明書一覧の取得（管理者用）
+ */
+export const getPrivateAllowedCertificates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const certificates = await listPrivateAllowedCertificates();
+
+    res.json({
+      success: true,
+      count: certificates.length,
+      certificates
+    });
+  } catch (error) {
+    console.error("個別に信頼する証明書の一覧取得エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "個別に信頼する証明書の一覧の取得中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * 組織独自に個別に信頼する署名証明書の登録（管理者用）
+ */
+export const registerPrivateAllowedCertificate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { certificate: certificatePem, label } = req.body;
+    const certificate = await addPrivateAllowedCertificate(certificatePem, label);
+
+    res.status(201).json({
+      success: true,
+      certificate
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("個別に信頼する証明書の登録エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "個別に信頼する証明書の登録中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * 組織独自に個別に信頼する署名証明書の削除（管理者用）
+ */
+export const deletePrivateAllowedCertificate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const certificate = await removePrivateAllowedCertificate(req.params.certificateId);
+
+    res.json({
+      success: true,
+      message: `個別に信頼する証明書 "${certificate.label}" を削除しました。`
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      res.status(error.statusCode).json(toErrorResponse(error));
+      return;
+    }
+    console.error("個別に信頼する証明書の削除エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "個別に信頼する証明書の削除中にエラーが発生しました。"
+    });
+  }
+};
@@ -0,0 +1,67 @@
+import { Request, Response } from 'express';
+import { config } from '../config';
+import { createTimestampResponse, getTsaCertificatePem } from '../services/timestampService';
+
+/**
+ * RFC 3161タイムスタンプ要求の処理（内蔵TSA）
+ */
+export const issueTimestamp = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!config.c2pa.localTsa.enabled) {
+      res.status(404).json({
+        success: false,
+        error: "内蔵タイムスタンプ局は無効になっています。"
+      });
+      return;
+    }
+
+    // application/timestamp-query の本文はBufferとして受け取る
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: "Content-Type: application/timestamp-query のタイムスタンプ要求が必要です。"
+      });
+      return;
+    }
+
+    const response = await createTimestampResponse(req.body);
+
+    res.setHeader('Content-Type', 'application/timestamp-reply');
+    res.setHeader('Content-Length', response.length);
+    res.send(response);
+  } catch (error) {
+    console.error("タイムスタンプ発行エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "タイムスタンプの発行中にエラーが発生しました。"
+    });
+  }
+};
+
+/**
+ * 内蔵TSAの証明書を取得（検証側で信頼設定するため）
+ */
+export const getTsaCertificate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!config.c2pa.localTsa.enabled) {
+      res.status(404).json({
+        success: false,
+        error: "内蔵タイムスタンプ局は無効になっています。"
+      });
+      return;
+    }
+
+    const certificatePem = await getTsaCertificatePem();
+
+    res.setHeader('Content-Type', 'application/x-pem-file');
+    res.send(certificatePem);
+  } catch (error) {
+    console.error("TSA証明書取得エラー:", error);
+
+    res.status(500).json({
+      success: false,
+      error: "TSA証明書の取得中にエラーが発生しました。"
+    });
+  }
+};
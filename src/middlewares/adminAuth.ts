@@ -0,0 +1,23 @@
+import { NextFunction, Request, Response } from 'express';
+import { isSameToken } from '../utils/tokenUtils';
+
+/**
+ * 管理者用エンドポイントの認証ミドルウェア
+ * ADMIN_TOKENが未設定の場合は、トークンの有無にかかわらず拒否する
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const expected = process.env.ADMIN_TOKEN;
+  const provided = req.headers['x-admin-token'];
+
+  if (!expected || typeof provided !== 'string' || !isSameToken(provided, expected)) {
+    res.status(403).json({
+      success: false,
+      error: expected
+        ? "このアクションには管理者権限が必要です。"
+        : "管理者トークン（ADMIN_TOKEN）が設定されていないため、このアクションは使用できません。"
+    });
+    return;
+  }
+
+  next();
+};
@@ -29,10 +29,13 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
   // 許可するMIMEタイプを取得
   const allowedMimeTypes = config.supportedImageFormats.map(format => format.mimeType);
   
-  if (allowedMimeTypes.includes(file.mimetype)) {
+  // サイドカー（.c2pa）はブラウザによってMIMEタイプが異なるため拡張子で判定する
+  const isManifestStore = path.extname(file.originalname).toLowerCase() === config.manifestStoreFormat.extension;
+
+  if (allowedMimeTypes.includes(file.mimetype) || isManifestStore) {
     cb(null, true);
   } else {
-    cb(new Error('サポートされていないファイル形式です。JPG、PNG、WEBP、TIFF、AVIF、HEIC、GIFのいずれかを選択してください。'));
+    cb(new Error('サポートされていないファイル形式です。JPG、PNG、WEBP、TIFF、AVIF、HEIC、GIF、またはサイドカー（.c2pa）を選択してください。'));
   }
 };
 
@@ -4,7 +4,14 @@ import {
   uploadFile, 
   readC2pa, 
   signC2pa, 
-  verifyC2pa 
+  previewSignC2pa,
+  signBatchC2pa,
+  verifyC2pa,
+  previewPhotoMetadata,
+  inspectCertificates,
+  editC2pa,
+  convertC2pa,
+  getRemoteManifest
 } from '../controllers/c2paController';
 
 const router = express.Router();
@@ -30,6 +37,55 @@ router.post('/read', readC2pa);
  */
 router.post('/sign', signC2pa);
 
+/**
+ * @route POST /api/c2pa/sign/preview
+ * @desc 署名せずに、署名時と同じ手順で構築したマニフェスト定義と警告を返すエンドポイント
+ * @access Public
+ */
+router.post('/sign/preview', previewSignC2pa);
+
+/**
+ * @route POST /api/c2pa/sign/batch
+ * @desc 複数ファイルを共通の指定で並行して署名し、結果をZIPにまとめるエンドポイント
+ * @access Public
+ */
+router.post('/sign/batch', signBatchC2pa);
+
+/**
+ * @route POST /api/c2pa/edit
+ * @desc 画像編集（切り抜き・リサイズ・回転・反転・形式変換・色調整）と署名のエンドポイント
+ * @access Public
+ */
+router.post('/edit', editC2pa);
+
+/**
+ * @route POST /api/c2pa/convert
+ * @desc 形式変換（HEIC/TIFF/AVIFなどからJPEG/WebPなどへ）と署名のエンドポイント
+ * @access Public
+ */
+router.post('/convert', convertC2pa);
+
+/**
+ * @route POST /api/c2pa/metadata/preview
+ * @desc 署名時に含める写真メタデータ（EXIF/IPTC/XMP）のプレビューエンドポイント
+ * @access Public
+ */
+router.post('/metadata/preview', previewPhotoMetadata);
+
+/**
+ * @route POST /api/c2pa/certificates/inspect
+ * @desc 証明書チェーンの内容とC2PAの証明書プロファイルへの適合を確認するエンドポイント
+ * @access Public
+ */
+router.post('/certificates/inspect', inspectCertificates);
+
+/**
+ * @route GET /api/c2pa/manifests/:manifestId
+ * @desc リモートマニフェスト（manifestMode: 'remote' で署名したマニフェストストア）の配信エンドポイント
+ * @access Public
+ */
+router.get('/manifests/:manifestId', getRemoteManifest);
+
 /**
  * @route POST /api/c2pa/verify
  * @desc C2PA検証エンドポイント
@@ -0,0 +1,21 @@
+import express from 'express';
+import { getDevCa, issueDevCaCertificates, requireDevCaEnabled } from '../controllers/devCaController';
+import { requireAdmin } from '../middlewares/adminAuth';
+
+const router = express.Router();
+
+/**
+ * @route GET /api/dev-ca
+ * @desc 開発用認証局のルートCA・中間CA証明書の取得
+ * @access Public
+ */
+router.get('/', requireDevCaEnabled, getDevCa);
+
+/**
+ * @route POST /api/dev-ca/certificates
+ * @desc 開発用認証局からテスト用の署名証明書を発行（開発・ステージング用）
+ * @access Private - 管理者のみ
+ */
+router.post('/certificates', requireDevCaEnabled, requireAdmin, issueDevCaCertificates);
+
+export const devCaRoutes = router;
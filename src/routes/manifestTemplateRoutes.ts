@@ -0,0 +1,48 @@
+import express from 'express';
+import {
+  getManifestTemplates,
+  getManifestTemplateById,
+  registerManifestTemplate,
+  replaceManifestTemplate,
+  removeManifestTemplate
+} from '../controllers/manifestTemplateController';
+import { requireAdmin } from '../middlewares/adminAuth';
+
+const router = express.Router();
+
+/**
+ * @route GET /api/manifest-templates
+ * @desc マニフェストテンプレート一覧取得エンドポイント
+ * @access Public
+ */
+router.get('/', getManifestTemplates);
+
+/**
+ * @route GET /api/manifest-templates/:templateId
+ * @desc マニフェストテンプレート取得エンドポイント
+ * @access Public
+ */
+router.get('/:templateId', getManifestTemplateById);
+
+/**
+ * @route POST /api/manifest-templates
+ * @desc マニフェストテンプレート登録エンドポイント（管理用）
+ * @access Private - 管理者のみ
+ */
+router.post('/', requireAdmin, registerManifestTemplate);
+
+/**
+ * @route PUT /api/manifest-templates/:templateId
+ * @desc マニフェストテンプレート更新エンドポイント（管理用）
+ * @access Private - 管理者のみ
+ */
+router.put('/:templateId', requireAdmin, replaceManifestTemplate);
+
+/**
+ * @route DELETE /api/manifest-templates/:templateId
+ * @desc マニフェストテンプレート削除エンドポイント（管理用）
+ * @access Private - 管理者のみ
+ */
+router.delete('/:templateId', requireAdmin, removeManifestTemplate);
+
+export const manifestTemplateRoutes = router;
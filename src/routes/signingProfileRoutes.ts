@@ -0,0 +1,32 @@
+import express from 'express';
+import {
+  getSigningProfiles,
+  registerSigningProfile,
+  removeSigningProfile
+} from '../controllers/signingProfileController';
+import { requireAdmin } from '../middlewares/adminAuth';
+
+const router = express.Router();
+
+/**
+ * @route GET /api/signing-profiles
+ * @desc 署名プロファイル一覧取得エンドポイント（鍵素材は含まない）
+ * @access Public
+ */
+router.get('/', getSigningProfiles);
+
+/**
+ * @route POST /api/signing-profiles
+ * @desc 署名プロファイル登録エンドポイント（管理用）
+ * @access Private - 管理者のみ
+ */
+router.post('/', requireAdmin, registerSigningProfile);
+
+/**
+ * @route DELETE /api/signing-profiles/:profileId
+ * @desc 署名プロファイル削除エンドポイント（管理用）
+ * @access Private - 管理者のみ
+ */
+router.delete('/:profileId', requireAdmin, removeSigningProfile);
+
+export const signingProfileRoutes = router;
@@ -0,0 +1,20 @@
+import express from 'express';
+import { getSigningReserveSize, signClaimBytes } from '../controllers/signingServiceController';
+
+const router = express.Router();
+
+/**
+ * @route GET /api/signing-service/reserve-size
+ * @desc 参照署名サービス: 署名に必要な予約サイズの取得
+ * @access Private - 署名サービストークン
+ */
+router.get('/reserve-size', getSigningReserveSize);
+
+/**
+ * @route POST /api/signing-service/sign
+ * @desc 参照署名サービス: クレームのバイト列に署名
+ * @access Private - 署名サービストークン
+ */
+router.post('/sign', signClaimBytes);
+
+export const signingServiceRoutes = router;
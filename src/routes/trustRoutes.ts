@@ -1,5 +1,15 @@
 import express from 'express';
-import { getTrustStatus, updateTrustLists } from '../controllers/trustController';
+import {
+  getTrustStatus,
+  updateTrustLists,
+  getPrivateTrustAnchors,
+  registerPrivateTrustAnchor,
+  deletePrivateTrustAnchor,
+  getPrivateAllowedCertificates,
+  registerPrivateAllowedCertificate,
+  deletePrivateAllowedCertificate
+} from '../controllers/trustController';
+import { requireAdmin } from '../middlewares/adminAuth';
 
 const router = express.Router();
 
@@ -15,6 +25,48 @@ router.get('/status', getTrustStatus);
  * @desc 証明書トラストリストを手動で更新（管理者用）
  * @access Private - 管理者のみ
  */
-router.post('/update', updateTrustLists);
+router.post('/update', requireAdmin, updateTrustLists);
 
-export const trustRoutes = router;
\ No newline at end of file
+/**
+ * @route GET /api/trust/private/anchors
+ * @desc 組織独自のトラストアンカー一覧を取得（管理者用）
+ * @access Private - 管理者のみ
+ */
+router.get('/private/anchors', requireAdmin, getPrivateTrustAnchors);
+
+/**
+ * @route POST /api/trust/private/anchors
+ * @desc 組織独自のトラストアンカーを登録（管理者用）
+ * @access Private - 管理者のみ
+ */
+router.post('/private/anchors', requireAdmin, registerPrivateTrustAnchor);
+
+/**
+ * @route DELETE /api/trust/private/anchors/:anchorId
+ * @desc 組織独自のトラストアンカーを削除（管理者用）
+ * @access Private - 管理者のみ
+ */
+router.delete('/private/anchors/:anchorId', requireAdmin, deletePrivateTrustAnchor);
+
+/**
+ * @route GET /api/trust/private/allowed
+ * @desc 組織独自に個別に信頼する署名証明書の一覧を取得（管理者用）
+ * @access Private - 管理者のみ
+ */
+router.get('/private/allowed', requireAdmin, getPrivateAllowedCertificates);
+
+/**
+ * @route POST /api/trust/private/allowed
+ * @desc 組織独自に個別に信頼する署名証明書を登録（管理者用）
+ * @access Private - 管理者のみ
+ */
+router.post('/private/allowed', requireAdmin, registerPrivateAllowedCertificate);
+
+/**
+ * @route DELETE /api/trust/private/allowed/:certificateId
+ * @desc 組織独自に個別に信頼する署名証明書を削除（管理者用）
+ * @access Private - 管理者のみ
+ */
+router.delete('/private/allowed/:certificateId', requireAdmin, deletePrivateAllowedCertificate);
+
+export const trustRoutes = router;
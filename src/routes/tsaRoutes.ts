@@ -0,0 +1,20 @@
+import express from 'express';
+import { issueTimestamp, getTsaCertificate } from '../controllers/tsaController';
+
+const router = express.Router();
+
+/**
+ * @route POST /api/tsa
+ * @desc RFC 3161タイムスタンプ要求エンドポイント（内蔵TSA）
+ * @access Public
+ */
+router.post('/', express.raw({ type: 'application/timestamp-query', limit: '64kb' }), issueTimestamp);
+
+/**
+ * @route GET /api/tsa/certificate
+ * @desc 内蔵TSA証明書の取得エンドポイント
+ * @access Public
+ */
+router.get('/certificate', getTsaCertificate);
+
+export const tsaRoutes = router;
@@ -4,13 +4,21 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import path from 'path';
 import fs from 'fs';
-import { config } from './config';
+import { config, validateConfig } from './config';
 import { c2paRoutes } from './routes/c2paRoutes';
 import { fileRoutes } from './routes/fileRoutes';
 import { trustRoutes } from './routes/trustRoutes';
+import { signingProfileRoutes } from './routes/signingProfileRoutes';
+import { manifestTemplateRoutes } from './routes/manifestTemplateRoutes';
+import { tsaRoutes } from './routes/tsaRoutes';
+import { signingServiceRoutes } from './routes/signingServiceRoutes';
+import { devCaRoutes } from './routes/devCaRoutes';
 import { setupTempFilesCleanup } from './middlewares/upload';
 import { updateTrustLists } from './services/trustListService';
 
+// 設定の検証（不備がある場合は起動しない）
+validateConfig();
+
 // Expressアプリケーションを初期化
 const app = express();
 
@@ -82,6 +90,11 @@ app.use('/api/temp', fileRoutes);
 app.use('/api/download', fileRoutes);
 app.use('/api/files', fileRoutes);
 app.use('/api/trust', trustRoutes);
+app.use('/api/signing-profiles', signingProfileRoutes);
+app.use('/api/manifest-templates', manifestTemplateRoutes);
+app.use('/api/tsa', tsaRoutes);
+app.use('/api/signing-service', signingServiceRoutes);
+app.use('/api/dev-ca', devCaRoutes);
 
 // ルートへのリクエストに対するレスポンス
 app.get('/', (req, res) => {
@@ -113,6 +126,7 @@ app.listen(config.port, () => {
   console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`Temporary directory: ${config.tempDir}`);
   console.log(`Trust list verification: ${config.c2pa.trust.enabled ? 'enabled' : 'disabled'}`);
+  console.log(`Local TSA: ${config.c2pa.localTsa.enabled ? config.c2pa.localTsa.url : 'disabled'}`);
 });
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,279 @@
+import { C2paAction, C2paActionInput } from '../types';
+import { AppError } from '../utils/errors';
+import { invalidField } from '../utils/schemaUtils';
+import { PreparedIngredient } from './ingredientService';
+
+// C2PA仕様で定義されているアクション
+export const C2PA_ACTIONS = [
+  'c2pa.color_adjustments',
+  'c2pa.converted',
+  'c2pa.created',
+  'c2pa.cropped',
+  'c2pa.deleted',
+  'c2pa.drawing',
+  'c2pa.dubbed',
+  'c2pa.edited',
+  'c2pa.edited.metadata',
+  'c2pa.enhanced',
+  'c2pa.filtered',
+  'c2pa.managed',
+  'c2pa.opened',
+  'c2pa.orientation',
+  'c2pa.placed',
+  'c2pa.produced',
+  'c2pa.published',
+  'c2pa.redacted',
+  'c2pa.removed',
+  'c2pa.repackaged',
+  'c2pa.resized',
+  'c2pa.transcoded',
+  'c2pa.translated',
+  'c2pa.trimmed',
+  'c2pa.unknown',
+  'c2pa.versioned',
+  'c2pa.watermarked'
+] as const;
+
+// IPTCのデジタルソースタイプ（制御語彙）
+export const DIGITAL_SOURCE_TYPE_BASE_URL = 'http://cv.iptc.org/newscodes/digitalsourcetype/';
+export const DIGITAL_SOURCE_TYPES = [
+  'algorithmicallyEnhanced',
+  'algorithmicMedia',
+  'compositeCapture',
+  'compositeSynthetic',
+  'compositeWithTrainedAlgorithmicMedia',
+  'computationalCapture',
+  'dataDrivenMedia',
+  'digitalArt',
+  'digitalCapture',
+  'humanEdits',
+  'negativeFilm',
+  'positiveFilm',
+  'print',
+  'screenCapture',
+  'trainedAlgorithmicMedia',
+  'virtualRecording'
+] as const;
+
+// マニフェストの最初に置く必要があるアクション
+const INITIAL_ACTIONS = ['c2pa.created', 'c2pa.opened'];
+
+// 1回の署名で指定できるアクションの上限
+const MAX_ACTIONS = 50;
+
+// 独自アクションのラベル（逆ドメイン形式）
+const CUSTOM_ACTION_PATTERN = /^[a-z0-9-]+(\.[a-z0-9_-]+)+$/i;
+
+// 検証済みのアクション
+export interface NormalizedAction {
+  // リクエストでの位置（検証エラーのJSONパス）
+  path: string;
+  action: string;
+  when: string;
+  softwareAgent?: string;
+  digitalSourceType?: string;
+  parameters?: Record<string, unknown>;
+  ingredientFileIds?: string[];
+}
+
+/**
+ * アクション検証エラーを作成する
+ * @param path エラーのある項目のJSONパス
+ * @param message 理由
+ */
+function invalidAction(path: string, message: string): AppError {
+  return invalidField('INVALID_ACTIONS', path, message);
+}
+
+/**
+ * アクション名を正規化する（接頭辞のない名前はc2pa.を補う）
+ */
+function normalizeActionName(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw invalidAction(path, 'actionは必須です。');
+  }
+
+  const name = value.trim();
+  const label = name.includes('.') && !C2PA_ACTIONS.includes(`c2pa.${name}` as typeof C2PA_ACTIONS[number])
+    ? name
+    : `c2pa.${name}`;
+
+  if (label.startsWith('c2pa.')) {
+    if (!C2PA_ACTIONS.includes(label as typeof C2PA_ACTIONS[number])) {
+      throw invalidAction(path, `C2PAで定義されていないアクションです: ${name}`);
+    }
+  } else if (!CUSTOM_ACTION_PATTERN.test(label)) {
+    throw invalidAction(path, `独自アクションは逆ドメイン形式（例: com.example.retouched）で指定してください: ${name}`);
+  }
+  return label;
+}
+
+/**
+ * デジタルソースタイプをIPTCのURIに正規化する
+ * @param value 語彙の名前（例: digitalCapture）またはURI
+ * @returns IPTCのURI（無効な場合はnull）
+ */
+export function normalizeDigitalSourceType(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const term = value.startsWith(DIGITAL_SOURCE_TYPE_BASE_URL)
+    ? value.slice(DIGITAL_SOURCE_TYPE_BASE_URL.length)
+    : value;
+
+  return DIGITAL_SOURCE_TYPES.includes(term as typeof DIGITAL_SOURCE_TYPES[number])
+    ? `${DIGITAL_SOURCE_TYPE_BASE_URL}${term}`
+    : null;
+}
+
+/**
+ * ソフトウェアエージェントを文字列に正規化する
+ */
+function normalizeSoftwareAgent(value: unknown, path: string): string {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.trim();
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const { name, version } = value as { name?: unknown; version?: unknown };
+    if (typeof name === 'string' && name.trim() !== '' && (version === undefined || typeof version === 'string')) {
+      return version ? `${name.trim()} ${version.trim()}` : name.trim();
+    }
+  }
+  throw invalidAction(path, 'softwareAgentは文字列または{ name, version }で指定してください。');
+}
+
+/**
+ * リクエストで指定されたアクションを検証・正規化する
+ * @param actions アクションの配列
+ * @param path アクションの配列のJSONパス
+ * @returns 検証済みのアクション
+ */
+export function normalizeActions(actions: unknown, path = '$.actions'): NormalizedAction[] {
+  if (actions === undefined || actions === null) {
+    return [];
+  }
+  if (!Array.isArray(actions)) {
+    throw invalidAction(path, 'actionsは配列で指定してください。');
+  }
+  if (actions.length > MAX_ACTIONS) {
+    throw invalidAction(path, `アクションは最大${MAX_ACTIONS}件まで指定できます。`);
+  }
+
+  const normalized = actions.map((item, index): NormalizedAction => {
+    const actionPath = `${path}[${index}]`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw invalidAction(actionPath, 'アクションはオブジェクトで指定してください。');
+    }
+    const input = item as C2paActionInput;
+    const result: NormalizedAction = {
+      path: actionPath,
+      action: normalizeActionName(input.action, `${actionPath}.action`),
+      when: new Date().toISOString()
+    };
+
+    if (input.when !== undefined) {
+      if (typeof input.when !== 'string' || Number.isNaN(Date.parse(input.when))) {
+        throw invalidAction(`${actionPath}.when`, 'whenはISO 8601形式の日時で指定してください。');
+      }
+      result.when = new Date(input.when).toISOString();
+    }
+
+    if (input.softwareAgent !== undefined) {
+      result.softwareAgent = normalizeSoftwareAgent(input.softwareAgent, `${actionPath}.softwareAgent`);
+    }
+
+    if (input.digitalSourceType !== undefined) {
+      const digitalSourceType = normalizeDigitalSourceType(input.digitalSourceType);
+      if (!digitalSourceType) {
+        throw invalidAction(
+          `${actionPath}.digitalSourceType`,
+          `digitalSourceTypeはIPTCの語彙（${DIGITAL_SOURCE_TYPES.join(', ')}）で指定してください。`
+        );
+      }
+      result.digitalSourceType = digitalSourceType;
+    }
+
+    if (input.parameters !== undefined) {
+      if (!input.parameters || typeof input.parameters !== 'object' || Array.isArray(input.parameters)) {
+        throw invalidAction(`${actionPath}.parameters`, 'parametersはオブジェクトで指定してください。');
+      }
+      result.parameters = input.parameters;
+    }
+
+    if (input.ingredientFileIds !== undefined) {
+      if (!Array.isArray(input.ingredientFileIds) || input.ingredientFileIds.some(id => typeof id !== 'string')) {
+        throw invalidAction(`${actionPath}.ingredientFileIds`, 'ingredientFileIdsはファイルIDの配列で指定してください。');
+      }
+      result.ingredientFileIds = input.ingredientFileIds;
+    }
+
+    return result;
+  });
+
+  // c2pa.created/c2pa.openedはマニフェストに1つだけ、最初のアクションとして置く
+  normalized.forEach((action, index) => {
+    if (INITIAL_ACTIONS.includes(action.action) && index !== 0) {
+      throw invalidAction(`${action.path}.action`, `${action.action}は最初のアクションとして1つだけ指定できます。`);
+    }
+  });
+
+  return normalized;
+}
+
+/**
+ * 検証済みのアクションが最初のアクション（c2pa.created/c2pa.opened）を含むかどうか
+ */
+export function hasInitialAction(actions: NormalizedAction[]): boolean {
+  return actions.length > 0 && INITIAL_ACTIONS.includes(actions[0].action);
+}
+
+/**
+ * 検証済みのアクションからc2pa.actionsに記録するアクションを作成する
+ * 材料の参照はマニフェストに追加される材料のインスタンスIDに解決する
+ * @param actions 検証済みのアクション
+ * @param ingredients マニフェストに追加する材料
+ * @returns c2pa.actionsのアクション
+ */
+export function buildActions(actions: NormalizedAction[], ingredients: PreparedIngredient[]): C2paAction[] {
+  const parent = ingredients.find(ingredient => ingredient.relationship === 'parentOf');
+
+  return actions.map(action => {
+    // c2pa.createdは新規作成を表すため親材料とは両立しない
+    if (action.action === 'c2pa.created' && parent) {
+      throw invalidAction(
+        action.path,
+        'c2pa.createdは親材料（parentOf）を持つマニフェストには使用できません。c2pa.openedを使用してください。'
+      );
+    }
+
+    let ingredientIds: string[] | undefined;
+    if (action.ingredientFileIds) {
+      ingredientIds = action.ingredientFileIds.map((fileId, index) => {
+        const ingredient = ingredients.find(item => item.fileId === fileId);
+        if (!ingredient) {
+          throw invalidAction(`${action.path}.ingredientFileIds[${index}]`, `材料として指定されていないファイルです: ${fileId}`);
+        }
+        return ingredient.storable.ingredient.instance_id;
+      });
+    } else if (action.action === 'c2pa.opened') {
+      // c2pa.openedは親材料を参照する
+      if (!parent) {
+        throw invalidAction(action.path, 'c2pa.openedには親材料（parentOf）が必要です。');
+      }
+      ingredientIds = [parent.storable.ingredient.instance_id];
+    }
+
+    const parameters = ingredientIds
+      ? { ...action.parameters, 'org.cai.ingredientIds': ingredientIds }
+      : action.parameters;
+
+    return {
+      action: action.action,
+      when: action.when,
+      ...(action.softwareAgent ? { softwareAgent: action.softwareAgent } : {}),
+      ...(action.digitalSourceType ? { digitalSourceType: action.digitalSourceType } : {}),
+      ...(parameters ? { parameters } : {})
+    };
+  });
+}
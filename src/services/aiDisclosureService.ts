@@ -0,0 +1,173 @@
+import { ResolvedManifest, ResolvedManifestStore } from 'c2pa-node';
+import { AiDisclosure, AiProvenanceSource } from '../types';
+import { AppError } from '../utils/errors';
+import { invalidField } from '../utils/schemaUtils';
+import { DIGITAL_SOURCE_TYPE_BASE_URL, hasInitialAction, NormalizedAction } from './actionService';
+
+// 生成AIによるコンテンツを示すデジタルソースタイプ
+const AI_DIGITAL_SOURCE_TYPES = [
+  `${DIGITAL_SOURCE_TYPE_BASE_URL}trainedAlgorithmicMedia`,
+  `${DIGITAL_SOURCE_TYPE_BASE_URL}compositeWithTrainedAlgorithmicMedia`
+];
+
+// 開示モードごとに記録するアクションとデジタルソースタイプ
+const DISCLOSURE_ACTIONS = {
+  generated: {
+    action: 'c2pa.created',
+    digitalSourceType: `${DIGITAL_SOURCE_TYPE_BASE_URL}trainedAlgorithmicMedia`
+  },
+  edited: {
+    action: 'c2pa.edited',
+    digitalSourceType: `${DIGITAL_SOURCE_TYPE_BASE_URL}compositeWithTrainedAlgorithmicMedia`
+  }
+} as const;
+
+// プロンプトの最大長
+const MAX_PROMPT_LENGTH = 4000;
+
+// リクエストでの生成AI開示のJSONパス
+const AI_DISCLOSURE_PATH = '$.aiDisclosure';
+
+/**
+ * 生成AI開示の検証エラーを作成する
+ * @param field aiDisclosure内の項目（省略時はaiDisclosure自体）
+ * @param message 理由
+ */
+function invalidDisclosure(field: string | null, message: string): AppError {
+  return invalidField('INVALID_AI_DISCLOSURE', field ? `${AI_DISCLOSURE_PATH}.${field}` : AI_DISCLOSURE_PATH, message);
+}
+
+/**
+ * 生成AI開示の指定を検証し、記録するアクションを作成する
+ * @param input リクエストで指定された生成AI開示
+ * @returns 記録するアクション
+ */
+function createDisclosureAction(input: unknown): NormalizedAction {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw invalidDisclosure(null, 'aiDisclosureはオブジェクトで指定してください。');
+  }
+
+  const { mode, model, prompt, generationParameters } = input as AiDisclosure;
+
+  if (mode !== 'generated' && mode !== 'edited') {
+    throw invalidDisclosure('mode', 'modeはgeneratedまたはeditedで指定してください。');
+  }
+  if (!model || typeof model.name !== 'string' || model.name.trim() === '') {
+    throw invalidDisclosure('model.name', '生成モデルの名前（model.name）は必須です。');
+  }
+  if (model.version !== undefined && typeof model.version !== 'string') {
+    throw invalidDisclosure('model.version', 'model.versionは文字列で指定してください。');
+  }
+  if (prompt !== undefined && (typeof prompt !== 'string' || prompt.length > MAX_PROMPT_LENGTH)) {
+    throw invalidDisclosure('prompt', `promptは${MAX_PROMPT_LENGTH}文字以内の文字列で指定してください。`);
+  }
+  if (
+    generationParameters !== undefined &&
+    (!generationParameters || typeof generationParameters !== 'object' || Array.isArray(generationParameters))
+  ) {
+    throw invalidDisclosure('generationParameters', 'generationParametersはオブジェクトで指定してください。');
+  }
+
+  const softwareAgent = model.version ? `${model.name.trim()} ${model.version.trim()}` : model.name.trim();
+  const parameters: Record<string, unknown> = {};
+  if (prompt) {
+    parameters.prompt = prompt;
+  }
+  if (generationParameters) {
+    parameters.generationParameters = generationParameters;
+  }
+
+  return {
+    path: AI_DISCLOSURE_PATH,
+    ...DISCLOSURE_ACTIONS[mode],
+    when: new Date().toISOString(),
+    softwareAgent,
+    ...(Object.keys(parameters).length > 0 ? { parameters } : {})
+  };
+}
+
+/**
+ * 生成AI開示のアクションを指定済みのアクションに組み込む
+ * generatedはc2pa.createdとして先頭に、editedはc2pa.editedとして末尾に追加する
+ * @param actions 検証済みのアクション
+ * @param aiDisclosure リクエストで指定された生成AI開示
+ * @returns 生成AI開示を含むアクション
+ */
+export function applyAiDisclosure(actions: NormalizedAction[], aiDisclosure: unknown): NormalizedAction[] {
+  if (aiDisclosure === undefined || aiDisclosure === null) {
+    return actions;
+  }
+
+  const disclosureAction = createDisclosureAction(aiDisclosure);
+
+  if (disclosureAction.action === 'c2pa.created') {
+    if (hasInitialAction(actions)) {
+      throw invalidDisclosure(
+        'mode',
+        `mode: generatedはc2pa.createdを記録するため、${actions[0].action}と同時に指定できません。`
+      );
+    }
+    return [disclosureAction, ...actions];
+  }
+  return [...actions, disclosureAction];
+}
+
+/**
+ * アクションの一覧から生成AIによるものを抽出する
+ */
+function findAiActions(manifestLabel: string, manifest: ResolvedManifest): AiProvenanceSource[] {
+  const sources: AiProvenanceSource[] = [];
+
+  for (const assertion of manifest.assertions || []) {
+    if (typeof assertion?.label !== 'string' || !assertion.label.startsWith('c2pa.actions')) {
+      continue;
+    }
+    const actions = Array.isArray(assertion.data?.actions) ? assertion.data.actions : [];
+    for (const action of actions) {
+      if (AI_DIGITAL_SOURCE_TYPES.includes(action?.digitalSourceType)) {
+        const softwareAgent = action.softwareAgent;
+        sources.push({
+          manifest: manifestLabel,
+          action: action.action,
+          digitalSourceType: action.digitalSourceType,
+          softwareAgent: typeof softwareAgent === 'string'
+            ? softwareAgent
+            : softwareAgent?.name
+              ? [softwareAgent.name, softwareAgent.version].filter(Boolean).join(' ')
+              : null
+        });
+      }
+    }
+  }
+  return sources;
+}
+
+/**
+ * アクティブマニフェストから材料をたどり、生成AIの関与を集計する
+ * @param store c2pa-nodeが返すマニフェストストア
+ * @returns 生成AIが関与しているかどうかと、その記録元
+ */
+export function summarizeAiProvenance(store: ResolvedManifestStore): { aiGenerated: boolean; sources: AiProvenanceSource[] } {
+  const sources: AiProvenanceSource[] = [];
+  const visited = new Set<ResolvedManifest>();
+
+  const visit = (label: string, manifest: ResolvedManifest | null | undefined) => {
+    if (!manifest || visited.has(manifest)) {
+      return;
+    }
+    visited.add(manifest);
+    sources.push(...findAiActions(manifest.label || label, manifest));
+
+    for (const ingredient of manifest.ingredients || []) {
+      // c2pa-nodeは材料のマニフェストを解決済みのオブジェクトとして返す
+      const ingredientLabel = typeof ingredient.active_manifest === 'string' ? ingredient.active_manifest : '';
+      visit(ingredientLabel, ingredient.manifest || store.manifests[ingredientLabel]);
+    }
+  };
+
+  if (store.active_manifest) {
+    visit(store.active_manifest.label || '', store.active_manifest);
+  }
+
+  return { aiGenerated: sources.length > 0, sources };
+}
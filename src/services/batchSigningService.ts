@@ -0,0 +1,220 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config';
+import { BatchSignData, BatchSignItem, BatchSignOverrides, SignData } from '../types';
+import { AppError, isAppError, toErrorResponse } from '../utils/errors';
+import { generateUniqueId, getTempFilePath, isValidFileId } from '../utils/fileUtils';
+import { writeZipArchive, ZipEntry } from '../utils/zipUtils';
+import { prepareSigningOptions, signAsset, SignedAsset } from './manifestSigningService';
+import { applyManifestTemplate } from './manifestTemplateService';
+
+// 一括署名の設定
+const batchConfig = config.c2pa.batchSigning;
+
+// ファイルごとの署名結果
+export type BatchSignResult =
+  | ({ fileId: string; success: true; signedFileId: string; downloadUrl: string } & SignedAsset['details'])
+  | ({ fileId: string } & ReturnType<typeof toErrorResponse>);
+
+// 一括署名の結果
+export interface BatchSignOutcome {
+  total: number;
+  succeeded: number;
+  failed: number;
+  // 指定順のファイルごとの結果
+  results: BatchSignResult[];
+  // 署名済みファイル（とサイドカー）をまとめたZIP（成功したファイルがない場合はnull）
+  archive: { fileId: string; downloadUrl: string; size: number } | null;
+}
+
+/**
+ * 一括署名リクエストの不正を表すエラーを作成する
+ */
+function invalidBatchRequest(message: string, details: Record<string, unknown>): AppError {
+  return new AppError(400, 'INVALID_BATCH_REQUEST', message, details);
+}
+
+/**
+ * 一括署名の対象ファイルを正規化・検証する
+ * @param fileIds ファイルIDまたは{ fileId, overrides? }の配列
+ * @returns 正規化された対象ファイル
+ */
+function normalizeBatchItems(fileIds: unknown): BatchSignItem[] {
+  if (!Array.isArray(fileIds) || fileIds.length === 0) {
+    throw invalidBatchRequest('fileIdsには署名するファイルIDを1件以上指定してください。', { field: 'fileIds' });
+  }
+  if (fileIds.length > batchConfig.maxFiles) {
+    throw invalidBatchRequest(`一度に署名できるファイルは${batchConfig.maxFiles}件までです。`, {
+      field: 'fileIds',
+      maxFiles: batchConfig.maxFiles
+    });
+  }
+
+  return fileIds.map((entry, index) => {
+    const item: BatchSignItem = typeof entry === 'string' ? { fileId: entry } : entry;
+
+    if (!item || typeof item !== 'object' || typeof item.fileId !== 'string' || !isValidFileId(item.fileId)) {
+      throw invalidBatchRequest('無効なファイルIDです。', { index, field: 'fileId' });
+    }
+    if (
+      item.overrides !== undefined &&
+      (!item.overrides || typeof item.overrides !== 'object' || Array.isArray(item.overrides))
+    ) {
+      throw invalidBatchRequest('overridesはオブジェクトで指定してください。', { index, field: 'overrides' });
+    }
+    if (
+      item.overrides?.manifestData !== undefined &&
+      (!item.overrides.manifestData || typeof item.overrides.manifestData !== 'object')
+    ) {
+      throw invalidBatchRequest('overrides.manifestDataはオブジェクトで指定してください。', {
+        index,
+        field: 'overrides.manifestData'
+      });
+    }
+    return { fileId: item.fileId, overrides: item.overrides };
+  });
+}
+
+/**
+ * 同時に署名するファイル数を検証する
+ * @param concurrency リクエストで指定された同時実行数（省略時は設定の上限）
+ */
+function normalizeConcurrency(concurrency: unknown): number {
+  if (concurrency === undefined || concurrency === null) {
+    return batchConfig.concurrency;
+  }
+  if (typeof concurrency !== 'number' || !Number.isInteger(concurrency) || concurrency < 1) {
+    throw invalidBatchRequest('concurrencyには1以上の整数を指定してください。', { field: 'concurrency' });
+  }
+  return Math.min(concurrency, batchConfig.concurrency);
+}
+
+/**
+ * 共通の署名リクエストにファイルごとの上書きを適用する
+ * @param shared 全ファイルに共通の署名リクエスト
+ * @param item 対象ファイルと上書きする指定
+ * @returns 対象ファイルの署名リクエスト
+ */
+function createItemSignData(shared: Omit<BatchSignData, 'fileIds' | 'concurrency'>, item: BatchSignItem): SignData {
+  const overrides: BatchSignOverrides = item.overrides || {};
+
+  return {
+    ...shared,
+    ...overrides,
+    fileId: item.fileId,
+    // 署名処理でアサーションを更新しても他のファイルに影響しないよう、ファイルごとに複製する
+    // 上書きがない場合は未指定やオブジェクト以外の値もそのまま渡し、スキーマの検証でエラーにする
+    manifestData: structuredClone(overrides.manifestData === undefined
+      ? shared.manifestData
+      : { ...shared.manifestData, ...overrides.manifestData }),
+  };
+}
+
+/**
+ * 上限の数まで並行して処理を実行する
+ * @param items 処理対象
+ * @param limit 同時に実行する数
+ * @param worker 各要素の処理（例外を投げないこと）
+ * @returns 処理対象と同じ順の結果
+ */
+async function runWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+/**
+ * 1ファイル分を署名する（失敗した場合もエラーを結果として返す）
+ */
+async function signItem(signData: SignData, baseUrl: string): Promise<{ result: BatchSignResult; signed?: SignedAsset }> {
+  try {
+    try {
+      await fs.access(getTempFilePath(signData.fileId));
+    } catch (error) {
+      throw new AppError(404, 'FILE_NOT_FOUND', '指定されたファイルが見つかりません。');
+    }
+
+    // テンプレートのプレースホルダー（{{filename}}など）はファイルごとに置き換える
+    const applied = await applyManifestTemplate(signData);
+    const options = prepareSigningOptions(applied.signData, applied.builderOptions);
+    const signed = await signAsset(signData.fileId, applied.signData, options, baseUrl);
+
+    return {
+      result: {
+        fileId: signData.fileId,
+        success: true,
+        signedFileId: signed.fileId,
+        downloadUrl: `${baseUrl}/api/download?file=${signed.fileId}`,
+        ...signed.details,
+      },
+      signed
+    };
+  } catch (error) {
+    if (!isAppError(error)) {
+      console.error(`一括署名エラー (${signData.fileId}):`, error);
+    }
+    const appError = isAppError(error)
+      ? error
+      : new AppError(500, 'SIGNING_FAILED', '署名処理に失敗しました');
+    return { result: { fileId: signData.fileId, ...toErrorResponse(appError) } };
+  }
+}
+
+/**
+ * 複数のファイルを共通の指定（とファイルごとの上書き）で並行して署名し、結果をZIPにまとめる
+ * 1ファイルの失敗は他のファイルの署名に影響しない
+ * @param batchData 一括署名リクエスト
+ * @param baseUrl リクエストを受けたサーバーのURL
+ * @returns ファイルごとの結果とZIP
+ */
+export async function signBatch(batchData: BatchSignData, baseUrl = ''): Promise<BatchSignOutcome> {
+  const { fileIds, concurrency, ...shared } = batchData;
+  const items = normalizeBatchItems(fileIds);
+  const limit = normalizeConcurrency(concurrency);
+
+  const signedItems = await runWithConcurrency(items, limit, item =>
+    signItem(createItemSignData(shared, item), baseUrl)
+  );
+
+  // 署名済みファイルと、サイドカーとして出力したマニフェストストアをまとめる
+  const entries: ZipEntry[] = [];
+  for (const { signed } of signedItems) {
+    if (!signed) {
+      continue;
+    }
+    entries.push({ name: signed.fileId, path: signed.outputPath });
+    const sidecar = signed.details.manifestOutput.sidecar;
+    if (sidecar) {
+      entries.push({ name: sidecar.fileId, path: getTempFilePath(sidecar.fileId) });
+    }
+  }
+
+  let archive: BatchSignOutcome['archive'] = null;
+  if (entries.length > 0) {
+    const archiveFileId = `batch_${generateUniqueId()}${config.archiveFormat.extension}`;
+    const size = await writeZipArchive(path.join(config.tempDir, archiveFileId), entries);
+    archive = {
+      fileId: archiveFileId,
+      downloadUrl: `${baseUrl}/api/download?file=${archiveFileId}`,
+      size
+    };
+  }
+
+  const results = signedItems.map(({ result }) => result);
+  const succeeded = signedItems.filter(({ signed }) => signed).length;
+  return {
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+    archive
+  };
+}
@@ -0,0 +1,423 @@
+import { X509Certificate } from 'crypto';
+import { CertificateChainInspection, CertificateInspection, CertificateIssue } from '../types';
+import { decodeDer, decodeInteger, decodeOid } from '../utils/asn1Utils';
+import { parseCertificateChain } from '../utils/certificateUtils';
+import { CertificateExtension, KEY_USAGE_BITS, Oids, parseCertificateDer } from '../utils/x509Utils';
+
+// 有効期限が近いと警告する残り日数
+const EXPIRY_WARNING_DAYS = 30;
+
+// RSA鍵の最小長（C2PAの証明書プロファイル）
+const MIN_RSA_MODULUS_LENGTH = 2048;
+
+// C2PAで使用できる楕円曲線
+const ALLOWED_CURVES = ['prime256v1', 'secp384r1', 'secp521r1'];
+
+// C2PAで使用できる証明書の署名アルゴリズム
+const SIGNATURE_ALGORITHM_NAMES: Record<string, string> = {
+  [Oids.ecdsaWithSha256]: 'ecdsa-with-SHA256',
+  [Oids.ecdsaWithSha384]: 'ecdsa-with-SHA384',
+  [Oids.ecdsaWithSha512]: 'ecdsa-with-SHA512',
+  [Oids.sha256WithRsa]: 'sha256WithRSAEncryption',
+  [Oids.sha384WithRsa]: 'sha384WithRSAEncryption',
+  [Oids.sha512WithRsa]: 'sha512WithRSAEncryption',
+  '1.2.840.113549.1.1.10': 'RSASSA-PSS',
+  [Oids.ed25519]: 'Ed25519'
+};
+
+// 拡張キー使用法の表示名
+const EXTENDED_KEY_USAGE_NAMES: Record<string, string> = {
+  [Oids.c2paClaimSigning]: 'c2paClaimSigning',
+  [Oids.documentSigning]: 'documentSigning',
+  [Oids.emailProtection]: 'emailProtection',
+  [Oids.timeStamping]: 'timeStamping',
+  [Oids.ocspSigning]: 'ocspSigning',
+  [Oids.anyExtendedKeyUsage]: 'anyExtendedKeyUsage',
+  '1.3.6.1.5.5.7.3.1': 'serverAuth',
+  '1.3.6.1.5.5.7.3.2': 'clientAuth',
+  '1.3.6.1.5.5.7.3.3': 'codeSigning'
+};
+
+// クレームの署名証明書に必要な拡張キー使用法（いずれか1つ）
+const CLAIM_SIGNING_PURPOSES: string[] = [Oids.c2paClaimSigning, Oids.documentSigning, Oids.emailProtection];
+
+// 他の用途と併用できない拡張キー使用法
+const EXCLUSIVE_PURPOSES: string[] = [Oids.timeStamping, Oids.ocspSigning];
+
+/**
+ * 証明書拡張を取得する
+ */
+function findExtension(extensions: CertificateExtension[], oid: string): CertificateExtension | undefined {
+  return extensions.find(extension => extension.oid === oid);
+}
+
+/**
+ * keyUsage拡張を解析する
+ */
+function parseKeyUsage(extension: CertificateExtension | undefined): CertificateInspection['keyUsage'] {
+  if (!extension) {
+    return null;
+  }
+  // BIT STRINGの先頭は未使用ビット数
+  const bits = decodeDer(extension.value).content.subarray(1);
+  const usages = KEY_USAGE_BITS.filter((_, bit) => (bits[bit >> 3] || 0) & (0x80 >> (bit & 7)));
+  return { critical: extension.critical, usages: [...usages] };
+}
+
+/**
+ * extKeyUsage拡張を解析する
+ */
+function parseExtendedKeyUsage(extension: CertificateExtension | undefined): CertificateInspection['extendedKeyUsage'] {
+  if (!extension) {
+    return null;
+  }
+  const purposes = decodeDer(extension.value).children.map(node => {
+    const oid = decodeOid(node);
+    return { oid, name: EXTENDED_KEY_USAGE_NAMES[oid] || null };
+  });
+  return { critical: extension.critical, purposes };
+}
+
+/**
+ * basicConstraints拡張を解析する
+ */
+function parseBasicConstraints(extension: CertificateExtension | undefined): CertificateInspection['basicConstraints'] {
+  if (!extension) {
+    return null;
+  }
+  // BasicConstraints ::= SEQUENCE { cA BOOLEAN DEFAULT FALSE, pathLenConstraint INTEGER OPTIONAL }
+  const items = decodeDer(extension.value).children;
+  const caNode = items.find(node => node.tag === 0x01);
+  const pathLengthNode = items.find(node => node.tag === 0x02);
+  return {
+    critical: extension.critical,
+    ca: caNode ? caNode.content[0] !== 0 : false,
+    pathLength: pathLengthNode ? Number(decodeInteger(pathLengthNode)) : null
+  };
+}
+
+/**
+ * 証明書が指定した証明書によって発行（署名）されているかどうかを判定する
+ */
+function isIssuedBy(certificate: X509Certificate, issuer: X509Certificate): boolean {
+  try {
+    return certificate.checkIssued(issuer) && certificate.verify(issuer.publicKey);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 自己署名の証明書かどうかを判定する
+ * checkIssuedは発行者のkeyUsageにkeyCertSignがない場合に失敗するため、名前と署名で判定する
+ */
+function isSelfSigned(certificate: X509Certificate): boolean {
+  try {
+    return certificate.subject === certificate.issuer && certificate.verify(certificate.publicKey);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 証明書チェーンの正しい順序（リーフからルートへ）を求める
+ * @returns 元の位置の配列（1本のチェーンに並べられない場合はnull）
+ */
+function findChainOrder(certificates: X509Certificate[]): number[] | null {
+  const indexes = certificates.map((_, index) => index);
+  const issuesOther = (issuer: number) =>
+    indexes.some(index => index !== issuer && isIssuedBy(certificates[index], certificates[issuer]));
+
+  // 他の証明書を発行していない証明書がリーフ
+  const leaves = indexes.filter(index => !issuesOther(index));
+  if (leaves.length !== 1) {
+    return null;
+  }
+
+  const order = [leaves[0]];
+  for (;;) {
+    const current = order[order.length - 1];
+    const next = indexes.find(index => !order.includes(index) && isIssuedBy(certificates[current], certificates[index]));
+    if (next === undefined) {
+      break;
+    }
+    order.push(next);
+  }
+  return order.length === certificates.length ? order : null;
+}
+
+/**
+ * 1つの証明書を検査する
+ */
+function inspectCertificate(certificate: X509Certificate, index: number, now: Date): CertificateInspection {
+  const parsed = parseCertificateDer(certificate.raw);
+  const versionNode = parsed.tbs.children[0].tag === 0xa0 ? parsed.tbs.children[0].children[0] : null;
+  const signatureOid = decodeOid(decodeDer(certificate.raw).children[1].children[0]);
+  const selfSigned = isSelfSigned(certificate);
+  const validFrom = new Date(certificate.validFrom);
+  const validTo = new Date(certificate.validTo);
+  const keyDetails = certificate.publicKey.asymmetricKeyDetails || {};
+
+  return {
+    index,
+    role: index === 0 ? 'leaf' : selfSigned ? 'root' : 'intermediate',
+    subject: certificate.subject,
+    issuer: certificate.issuer,
+    serialNumber: certificate.serialNumber,
+    fingerprint256: certificate.fingerprint256,
+    // versionフィールドが省略された証明書はv1
+    version: versionNode ? Number(decodeInteger(versionNode)) + 1 : 1,
+    signatureAlgorithm: SIGNATURE_ALGORITHM_NAMES[signatureOid] || signatureOid,
+    validFrom: validFrom.toISOString(),
+    validTo: validTo.toISOString(),
+    expired: validTo < now,
+    notYetValid: validFrom > now,
+    selfSigned,
+    key: {
+      type: certificate.publicKey.asymmetricKeyType || null,
+      ...(keyDetails.namedCurve ? { namedCurve: keyDetails.namedCurve } : {}),
+      ...(keyDetails.modulusLength ? { modulusLength: keyDetails.modulusLength } : {})
+    },
+    keyUsage: parseKeyUsage(findExtension(parsed.extensions, Oids.keyUsage)),
+    extendedKeyUsage: parseExtendedKeyUsage(findExtension(parsed.extensions, Oids.extKeyUsage)),
+    basicConstraints: parseBasicConstraints(findExtension(parsed.extensions, Oids.basicConstraints))
+  };
+}
+
+/**
+ * すべての証明書に共通する項目（バージョン・署名アルゴリズム・鍵・有効期間）を確認する
+ */
+function lintCommon(inspection: CertificateInspection, now: Date): CertificateIssue[] {
+  const { index } = inspection;
+  const issues: CertificateIssue[] = [];
+
+  if (inspection.version !== 3) {
+    issues.push({
+      code: 'CERTIFICATE_VERSION_UNSUPPORTED',
+      severity: 'error',
+      index,
+      message: `X.509 v3の証明書である必要があります（v${inspection.version}）。`
+    });
+  }
+  if (!Object.values(SIGNATURE_ALGORITHM_NAMES).includes(inspection.signatureAlgorithm)) {
+    issues.push({
+      code: 'SIGNATURE_ALGORITHM_UNSUPPORTED',
+      severity: 'error',
+      index,
+      message: `C2PAで使用できない署名アルゴリズムです: ${inspection.signatureAlgorithm}`
+    });
+  }
+
+  const { type, namedCurve, modulusLength } = inspection.key;
+  if ((type === 'rsa' || type === 'rsa-pss') && (modulusLength || 0) < MIN_RSA_MODULUS_LENGTH) {
+    issues.push({
+      code: 'KEY_TOO_SMALL',
+      severity: 'error',
+      index,
+      message: `RSA鍵は${MIN_RSA_MODULUS_LENGTH}ビット以上である必要があります（${modulusLength}ビット）。`
+    });
+  } else if (type === 'ec' && !ALLOWED_CURVES.includes(namedCurve || '')) {
+    issues.push({
+      code: 'KEY_TYPE_UNSUPPORTED',
+      severity: 'error',
+      index,
+      message: `C2PAで使用できない楕円曲線です: ${namedCurve || '不明'}。P-256、P-384、P-521のいずれかを使用してください。`
+    });
+  } else if (!['rsa', 'rsa-pss', 'ec', 'ed25519'].includes(type || '')) {
+    issues.push({
+      code: 'KEY_TYPE_UNSUPPORTED',
+      severity: 'error',
+      index,
+      message: `C2PAで使用できない鍵の種類です: ${type || '不明'}`
+    });
+  }
+
+  if (inspection.expired) {
+    issues.push({
+      code: 'CERTIFICATE_EXPIRED',
+      severity: 'error',
+      index,
+      message: `証明書の有効期限が切れています（${inspection.validTo}）。`
+    });
+  } else if (inspection.notYetValid) {
+    issues.push({
+      code: 'CERTIFICATE_NOT_YET_VALID',
+      severity: 'error',
+      index,
+      message: `証明書の有効期間が始まっていません（${inspection.validFrom}）。`
+    });
+  } else if (new Date(inspection.validTo).getTime() - now.getTime() < EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000) {
+    issues.push({
+      code: 'CERTIFICATE_EXPIRING_SOON',
+      severity: 'warning',
+      index,
+      message: `証明書の有効期限が${EXPIRY_WARNING_DAYS}日以内です（${inspection.validTo}）。`
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * 署名用（リーフ）証明書をC2PAの証明書プロファイルで確認する
+ */
+function lintLeaf(leaf: CertificateInspection): CertificateIssue[] {
+  const issues: CertificateIssue[] = [];
+  const index = 0;
+
+  if (leaf.basicConstraints?.ca || leaf.keyUsage?.usages.includes('keyCertSign')) {
+    issues.push({
+      code: 'LEAF_IS_CA',
+      severity: 'error',
+      index,
+      message: 'CA証明書は署名用（リーフ）証明書として使用できません。チェーンの先頭に署名用証明書を配置してください。'
+    });
+  }
+  if (leaf.selfSigned) {
+    issues.push({
+      code: 'SELF_SIGNED_LEAF',
+      severity: 'error',
+      index,
+      message: '自己署名の証明書は署名用証明書として使用できません。CAから発行された証明書を使用してください。'
+    });
+  }
+
+  if (!leaf.keyUsage) {
+    issues.push({ code: 'KEY_USAGE_MISSING', severity: 'error', index, message: 'keyUsage拡張がありません。' });
+  } else {
+    if (!leaf.keyUsage.usages.includes('digitalSignature')) {
+      issues.push({
+        code: 'KEY_USAGE_DIGITAL_SIGNATURE_MISSING',
+        severity: 'error',
+        index,
+        message: 'keyUsageにdigitalSignatureが含まれていません。',
+        details: { usages: leaf.keyUsage.usages }
+      });
+    }
+    if (!leaf.keyUsage.critical) {
+      issues.push({
+        code: 'KEY_USAGE_NOT_CRITICAL',
+        severity: 'warning',
+        index,
+        message: 'keyUsage拡張はクリティカルにすることが推奨されます。'
+      });
+    }
+  }
+
+  const purposes = leaf.extendedKeyUsage?.purposes.map(purpose => purpose.oid) || [];
+  if (!leaf.extendedKeyUsage) {
+    issues.push({
+      code: 'EKU_MISSING',
+      severity: 'error',
+      index,
+      message: 'extKeyUsage拡張がありません。c2pa-kp-claimSigning（1.3.6.1.4.1.62558.2.1）などを含めてください。'
+    });
+  } else if (purposes.includes(Oids.anyExtendedKeyUsage)) {
+    issues.push({
+      code: 'EKU_ANY_NOT_ALLOWED',
+      severity: 'error',
+      index,
+      message: 'extKeyUsageにanyExtendedKeyUsageを含めることはできません。'
+    });
+  } else if (purposes.some(oid => EXCLUSIVE_PURPOSES.includes(oid)) && purposes.length > 1) {
+    issues.push({
+      code: 'EKU_EXCLUSIVE_PURPOSE',
+      severity: 'error',
+      index,
+      message: 'timeStampingまたはOCSPSigningは他の拡張キー使用法と併用できません。',
+      details: { purposes: leaf.extendedKeyUsage.purposes }
+    });
+  } else if (!purposes.some(oid => CLAIM_SIGNING_PURPOSES.includes(oid))) {
+    issues.push({
+      code: 'EKU_NOT_ALLOWED',
+      severity: 'error',
+      index,
+      message: 'extKeyUsageにクレームの署名に使用できる用途（c2pa-kp-claimSigning、documentSigning、emailProtection）が含まれていません。',
+      details: { purposes: leaf.extendedKeyUsage.purposes }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * 発行者（中間CA・ルートCA）の証明書を確認する
+ */
+function lintIssuer(inspection: CertificateInspection): CertificateIssue[] {
+  if (inspection.basicConstraints?.ca && (!inspection.keyUsage || inspection.keyUsage.usages.includes('keyCertSign'))) {
+    return [];
+  }
+  return [{
+    code: 'ISSUER_NOT_CA',
+    severity: 'error',
+    index: inspection.index,
+    message: 'チェーン内の発行者の証明書はCA証明書（basicConstraints CA:TRUE、keyUsage keyCertSign）である必要があります。'
+  }];
+}
+
+/**
+ * 証明書チェーンの順序を確認する
+ */
+function lintChainOrder(
+  certificates: X509Certificate[]
+): CertificateChainInspection['chain'] & { issues: CertificateIssue[] } {
+  const brokenAt = certificates.findIndex(
+    (certificate, index) => index < certificates.length - 1 && !isIssuedBy(certificate, certificates[index + 1])
+  );
+  if (brokenAt === -1) {
+    return { ordered: true, suggestedOrder: null, issues: [] };
+  }
+
+  const suggestedOrder = findChainOrder(certificates);
+  const issue: CertificateIssue = suggestedOrder
+    ? {
+        code: 'CHAIN_ORDER_INVALID',
+        severity: 'error',
+        index: brokenAt,
+        message: '証明書チェーンの順序が正しくありません。署名用証明書から順に、各証明書の次にその発行者の証明書を配置してください。',
+        details: { suggestedOrder }
+      }
+    : {
+        code: 'CHAIN_BROKEN',
+        severity: 'error',
+        index: brokenAt,
+        message: `${brokenAt + 1}番目の証明書は${brokenAt + 2}番目の証明書によって発行されていません。関係のない証明書が含まれていないか確認してください。`,
+        details: { subject: certificates[brokenAt].subject, issuer: certificates[brokenAt].issuer }
+      };
+  return { ordered: false, suggestedOrder, issues: [issue] };
+}
+
+/**
+ * 証明書チェーンを解析し、C2PAの証明書プロファイルへの適合を確認する
+ * 先頭の証明書を署名用（リーフ）証明書として扱う
+ * @param certificatePem 証明書チェーン（PEM）
+ * @returns 証明書ごとの内容と、検出した問題
+ */
+export function inspectCertificateChain(certificatePem: string): CertificateChainInspection {
+  const certificates = parseCertificateChain(certificatePem);
+  const now = new Date();
+  const inspections = certificates.map((certificate, index) => inspectCertificate(certificate, index, now));
+  const chain = lintChainOrder(certificates);
+
+  const issues: CertificateIssue[] = [
+    ...inspections.flatMap(inspection => lintCommon(inspection, now)),
+    ...lintLeaf(inspections[0]),
+    ...inspections.slice(1).flatMap(lintIssuer),
+    ...chain.issues
+  ];
+  if (inspections.length > 1 && inspections[inspections.length - 1].selfSigned) {
+    issues.push({
+      code: 'ROOT_INCLUDED',
+      severity: 'warning',
+      index: inspections.length - 1,
+      message: 'ルート証明書はトラストアンカーとして検証側で保持されるため、チェーンに含める必要はありません。'
+    });
+  }
+
+  return {
+    conformant: !issues.some(issue => issue.severity === 'error'),
+    certificates: inspections,
+    chain: { ordered: chain.ordered, suggestedOrder: chain.suggestedOrder },
+    issues
+  };
+}
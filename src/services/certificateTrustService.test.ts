@@ -0,0 +1,55 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ResolvedManifestStore } from 'c2pa-node';
+
+type TrustService = typeof import('./certificateTrustService');
+
+// 信頼リストの読み込みが組織独自の信頼リストを経由してc2pa-nodeを読み込むため、
+// ネイティブモジュールを読み込めない環境では省略する
+const c2paAvailable = (() => {
+  try {
+    require('c2pa-node');
+    return true;
+  } catch (error) {
+    return false;
+  }
+})();
+
+// 署名のタイムスタンプ
+const SIGNED_AT = new Date('2030-01-01T00:00:00Z');
+
+describe('evaluateSignerTrust', { skip: !c2paAvailable && 'c2pa-nodeを読み込めません' }, () => {
+  let service: TrustService;
+
+  before(async () => {
+    service = await import('./certificateTrustService');
+  });
+
+  /**
+   * 検証結果のコードを持つマニフェストストアを作成する
+   */
+  const manifestStore = (codes: string[]) => ({
+    active_manifest: {
+      label: 'urn:uuid:00000000-0000-0000-0000-000000000000',
+      signature_info: { time: SIGNED_AT.toISOString() },
+      validation_status: codes.map(code => ({ code, url: 'self#jumbf=/c2pa', explanation: `${code}のテスト` }))
+    },
+    manifests: {}
+  } as unknown as ResolvedManifestStore);
+
+  test('クレーム署名の検証に失敗している場合は信頼リストによらず信頼しない', async () => {
+    const info = await service.evaluateSignerTrust('missing.jpg', null, manifestStore(['claimSignature.mismatch']));
+    assert.equal(info.status, 'untrusted');
+    assert.equal(info.isTrusted, false);
+    assert.equal(info.failure?.code, 'SIGNATURE_VALIDATION_FAILED');
+    assert.deepEqual(info.failure?.details?.validationStatus, [
+      { code: 'claimSignature.mismatch', explanation: 'claimSignature.mismatchのテスト' }
+    ]);
+  });
+
+  test('signingCredential.untrustedは失敗として扱わず証明書チェーンを評価する', async () => {
+    const info = await service.evaluateSignerTrust('missing.jpg', null, manifestStore(['signingCredential.untrusted']));
+    assert.equal(info.status, 'unknown');
+    assert.equal(info.failure?.code, 'CERTIFICATE_CHAIN_UNAVAILABLE');
+  });
+});
@@ -0,0 +1,188 @@
+import crypto, { X509Certificate } from 'crypto';
+import { ResolvedManifestStore, ValidationStatus } from 'c2pa-node';
+import { CertificateTrustFailure, CertificateTrustInfo, PrivateTrustAnchor } from '../types';
+import { evaluateCertificateChain } from '../utils/certificatePathUtils';
+import {
+  parseAllowedHashes,
+  parseTrustConfig,
+  parseTrustListCertificates,
+  TrustListCertificate,
+  TrustLists
+} from '../utils/trustListUtils';
+import { readSignerCertificateChain } from './manifestStoreService';
+import { listPrivateAllowedCertificates, listPrivateTrustAnchors } from './privateTrustStoreService';
+import { getTrustListContents } from './trustListService';
+
+// クレーム署名・署名証明書の検証結果のうち、失敗を表さないコード
+// signingCredential.untrusted はc2pa-node側の信頼リストによる判定のため、このサービスの評価を優先する
+const SIGNATURE_NON_FAILURE_CODES = new Set([
+  'claimSignature.validated',
+  'claimSignature.insideValidity',
+  'signingCredential.trusted',
+  'signingCredential.untrusted',
+  'signingCredential.ocsp.notRevoked'
+]);
+
+// 解析済みの信頼リストのキャッシュ（内容が変わった場合のみ解析し直す）
+let trustListCache: { key: string; lists: TrustLists } | null = null;
+
+/**
+ * 公開の信頼リストのPEMを解析する
+ */
+function toPublicCertificates(pem: string): TrustListCertificate[] {
+  return parseTrustListCertificates(pem).map(certificate => ({ certificate, store: 'public' }));
+}
+
+/**
+ * 組織独自の信頼リストのエントリを解析する
+ */
+function toPrivateCertificates(entries: PrivateTrustAnchor[]): TrustListCertificate[] {
+  return entries.flatMap(entry =>
+    parseTrustListCertificates(entry.certificate).map(certificate => ({
+      certificate,
+      store: 'private' as const,
+      id: entry.id,
+      label: entry.label
+    }))
+  );
+}
+
+/**
+ * 公開の信頼リストと組織独自の信頼リストを読み込んで解析する
+ * 公開の信頼リストを取得できない場合も、組織独自の信頼リストがあればそれだけで評価する
+ * @returns 信頼リスト（どちらも利用できない場合はnull）
+ */
+export async function loadTrustLists(): Promise<TrustLists | null> {
+  const [contents, privateAnchors, privateAllowed] = await Promise.all([
+    getTrustListContents(),
+    listPrivateTrustAnchors(),
+    listPrivateAllowedCertificates()
+  ]);
+  if (!contents && privateAnchors.length === 0 && privateAllowed.length === 0) {
+    return null;
+  }
+
+  const key = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([contents, privateAnchors, privateAllowed]))
+    .digest('hex');
+  if (trustListCache?.key !== key) {
+    trustListCache = {
+      key,
+      lists: {
+        publicListAvailable: !!contents,
+        anchors: [...toPublicCertificates(contents?.trustAnchors || ''), ...toPrivateCertificates(privateAnchors)],
+        allowedCertificates: [...toPublicCertificates(contents?.allowedList || ''), ...toPrivateCertificates(privateAllowed)],
+        allowedHashes: parseAllowedHashes(contents?.allowedHashes || ''),
+        allowedPurposes: parseTrustConfig(contents?.trustConfig || '')
+      }
+    };
+  }
+  return trustListCache.lists;
+}
+
+/**
+ * アクティブマニフェストのクレーム署名・署名証明書の検証に失敗したコードを取り出す
+ * （claimSignature.* と signingCredential.* のうち、失敗を表すもの）
+ */
+function getSignatureFailureCodes(manifestStore: ResolvedManifestStore): ValidationStatus[] {
+  const statuses = [
+    ...(manifestStore.active_manifest?.validation_status || []),
+    ...(Array.isArray(manifestStore.validation_status) ? manifestStore.validation_status : [])
+  ];
+  const failures = statuses.filter(status =>
+    typeof status?.code === 'string' &&
+    /^(claimSignature|signingCredential)\./.test(status.code) &&
+    !SIGNATURE_NON_FAILURE_CODES.has(status.code)
+  );
+  // ストアとマニフェストの両方に同じコードがある場合は1つにまとめる
+  return failures.filter((status, index) => failures.findIndex(other => other.code === status.code) === index);
+}
+
+/**
+ * アセットの署名証明書の信頼性を評価する
+ * 証明書チェーンはマニフェストのクレーム署名（x5chain）から取り出し、
+ * 有効期間はタイムスタンプがあればその日時、なければ現在日時で判定する
+ * クレーム署名や署名証明書の検証に失敗している場合は、信頼リストによらず信頼しない
+ * @param fileId アセットのファイルID
+ * @param sidecarFileId サイドカー（.c2pa）のファイルID
+ * @param manifestStore c2pa-nodeで読み取ったマニフェストストア
+ */
+export async function evaluateSignerTrust(
+  fileId: string,
+  sidecarFileId: string | null,
+  manifestStore: ResolvedManifestStore
+): Promise<CertificateTrustInfo> {
+  const activeManifest = manifestStore.active_manifest;
+  const signatureInfo = activeManifest?.signature_info;
+  const timestamp = signatureInfo?.time || null;
+  const timestampDate = timestamp ? new Date(timestamp) : null;
+  const useTimestamp = !!timestampDate && !isNaN(timestampDate.getTime());
+  const validationTime = useTimestamp ? (timestampDate as Date) : new Date();
+
+  const info: CertificateTrustInfo = {
+    status: 'unknown',
+    isTrusted: false,
+    issuer: signatureInfo?.issuer || null,
+    timestamp,
+    validationTime: validationTime.toISOString(),
+    timeSource: useTimestamp ? 'timestamp' : 'current',
+    chain: [],
+    trustedBy: null,
+    failure: null,
+    errorMessage: null
+  };
+  const fail = (status: CertificateTrustInfo['status'], failure: CertificateTrustFailure): CertificateTrustInfo => ({
+    ...info,
+    status,
+    failure,
+    errorMessage: failure.message
+  });
+
+  const signatureFailures = getSignatureFailureCodes(manifestStore);
+  if (signatureFailures.length > 0) {
+    return fail('untrusted', {
+      code: 'SIGNATURE_VALIDATION_FAILED',
+      message: 'クレーム署名または署名証明書の検証に失敗しています。',
+      details: {
+        validationStatus: signatureFailures.map(({ code, explanation }) => ({ code, explanation: explanation || null }))
+      }
+    });
+  }
+
+  let chain: X509Certificate[];
+  try {
+    chain = (await readSignerCertificateChain(fileId, sidecarFileId, activeManifest?.label)).map(der => new X509Certificate(der));
+  } catch (error) {
+    return fail('unknown', {
+      code: 'CERTIFICATE_CHAIN_UNAVAILABLE',
+      message: '署名証明書チェーンを取得できません。',
+      details: { reason: error instanceof Error ? error.message : String(error) }
+    });
+  }
+  info.chain = chain.map(certificate => ({
+    subject: certificate.subject,
+    issuer: certificate.issuer,
+    serialNumber: certificate.serialNumber,
+    fingerprint256: certificate.fingerprint256,
+    validFrom: new Date(certificate.validFrom).toISOString(),
+    validTo: new Date(certificate.validTo).toISOString()
+  }));
+
+  const lists = await loadTrustLists();
+  if (!lists) {
+    return fail('unknown', {
+      code: 'TRUST_LIST_UNAVAILABLE',
+      message: '公開の信頼リストが無効化されているか取得できず、組織独自の信頼リストも登録されていません。'
+    });
+  }
+
+  const result = evaluateCertificateChain(chain, lists, validationTime);
+  if (result.failure) {
+    // 公開の信頼リストなしで評価した場合は、失敗理由にその旨を含める
+    return fail('untrusted', lists.publicListAvailable
+      ? result.failure
+      : { ...result.failure, details: { ...result.failure.details, publicListAvailable: false } });
+  }
+  return { ...info, status: 'trusted', isTrusted: true, trustedBy: result.trustedBy };
+}
@@ -0,0 +1,166 @@
+import { C2paAssertion, CreativeWorkEntity, CreativeWorkInput, SignData } from '../types';
+import { AppError } from '../utils/errors';
+import { invalidField } from '../utils/schemaUtils';
+
+// schema.orgのCreativeWorkアサーションラベル
+const CREATIVE_WORK_LABEL = 'stds.schema-org.CreativeWork';
+
+const ENTITY_TYPES: CreativeWorkEntity['type'][] = ['Person', 'Organization'];
+
+// 著作者・キーワードの上限
+const MAX_AUTHORS = 20;
+const MAX_KEYWORDS = 50;
+
+/**
+ * CreativeWorkの検証エラーを作成する
+ * @param field manifestData内の項目（例: creativeWork.authors[0].name）
+ * @param message 理由
+ */
+function invalidCreativeWork(field: string, message: string): AppError {
+  return invalidField('INVALID_CREATIVE_WORK', `$.manifestData.${field}`, message);
+}
+
+/**
+ * 文字列がhttp(s)のURLかどうか
+ */
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 著作者・著作権者（PersonまたはOrganization）をschema.orgの形式に変換する
+ */
+function toSchemaOrgEntity(value: unknown, field: string): Record<string, unknown> {
+  const entity = typeof value === 'string' ? { name: value } : value as Partial<CreativeWorkEntity> | null;
+
+  if (!entity || typeof entity !== 'object' || typeof entity.name !== 'string' || entity.name.trim() === '') {
+    throw invalidCreativeWork(`${field}.name`, '名前（name）は必須です。');
+  }
+  const type = entity.type ?? 'Person';
+  if (!ENTITY_TYPES.includes(type)) {
+    throw invalidCreativeWork(`${field}.type`, `typeは ${ENTITY_TYPES.join(', ')} のいずれかで指定してください。`);
+  }
+  if (entity.url !== undefined && !isHttpUrl(entity.url)) {
+    throw invalidCreativeWork(`${field}.url`, 'urlはhttp(s)のURLで指定してください。');
+  }
+  if (entity.identifier !== undefined && (typeof entity.identifier !== 'string' || entity.identifier.trim() === '')) {
+    throw invalidCreativeWork(`${field}.identifier`, 'identifierは文字列で指定してください。');
+  }
+
+  return {
+    '@type': type,
+    name: entity.name.trim(),
+    ...(entity.url ? { url: entity.url } : {}),
+    ...(entity.identifier ? { identifier: entity.identifier.trim() } : {})
+  };
+}
+
+/**
+ * 任意の文字列項目を検証する
+ */
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw invalidCreativeWork(field, `${field}は文字列で指定してください。`);
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * マニフェストデータからstds.schema-org.CreativeWorkアサーションを作成する
+ * 従来のcreator・copyright・descriptionはcreativeWorkで指定されていない項目に対応付ける
+ * @param manifestData 署名リクエストのマニフェストデータ
+ * @returns CreativeWorkアサーション（記録する項目がない場合はnull）
+ */
+export function createCreativeWorkAssertion(manifestData: SignData['manifestData']): C2paAssertion | null {
+  const input = manifestData.creativeWork;
+
+  if (input !== undefined && input !== null && (typeof input !== 'object' || Array.isArray(input))) {
+    throw invalidCreativeWork('creativeWork', 'creativeWorkはオブジェクトで指定してください。');
+  }
+  if ((manifestData.assertions || []).some(assertion => assertion.label === CREATIVE_WORK_LABEL)) {
+    throw invalidCreativeWork(
+      'creativeWork',
+      `${CREATIVE_WORK_LABEL}アサーションはassertionsではなくcreativeWork（またはcreator・copyright・description）で指定してください。`
+    );
+  }
+
+  const creativeWork: CreativeWorkInput = input || {};
+  const data: Record<string, unknown> = {};
+
+  // 著作者（未指定の場合は従来のcreatorを個人として扱う）
+  const authors = creativeWork.authors ?? (manifestData.creator ? [manifestData.creator] : undefined);
+  if (authors !== undefined) {
+    if (!Array.isArray(authors) || authors.length > MAX_AUTHORS) {
+      throw invalidCreativeWork('creativeWork.authors', `authorsは${MAX_AUTHORS}件以内の配列で指定してください。`);
+    }
+    if (authors.length > 0) {
+      data.author = authors.map((author, index) => toSchemaOrgEntity(author, `creativeWork.authors[${index}]`));
+    }
+  }
+
+  if (creativeWork.copyrightHolder !== undefined) {
+    data.copyrightHolder = toSchemaOrgEntity(creativeWork.copyrightHolder, 'creativeWork.copyrightHolder');
+  }
+
+  const copyrightNotice = optionalString(creativeWork.copyrightNotice ?? manifestData.copyright, 'creativeWork.copyrightNotice');
+  if (copyrightNotice) {
+    data.copyrightNotice = copyrightNotice;
+  }
+
+  if (creativeWork.license !== undefined) {
+    if (!isHttpUrl(creativeWork.license)) {
+      throw invalidCreativeWork('creativeWork.license', 'licenseはライセンスのURLで指定してください。');
+    }
+    data.license = creativeWork.license;
+  }
+
+  if (creativeWork.dateCreated !== undefined) {
+    if (typeof creativeWork.dateCreated !== 'string' || Number.isNaN(Date.parse(creativeWork.dateCreated))) {
+      throw invalidCreativeWork('creativeWork.dateCreated', 'dateCreatedはISO 8601形式の日付で指定してください。');
+    }
+    data.dateCreated = creativeWork.dateCreated;
+  }
+
+  if (creativeWork.keywords !== undefined) {
+    const { keywords } = creativeWork;
+    if (
+      !Array.isArray(keywords) ||
+      keywords.length > MAX_KEYWORDS ||
+      keywords.some(keyword => typeof keyword !== 'string' || keyword.trim() === '')
+    ) {
+      throw invalidCreativeWork('creativeWork.keywords', `keywordsは${MAX_KEYWORDS}件以内の文字列の配列で指定してください。`);
+    }
+    if (keywords.length > 0) {
+      data.keywords = keywords.map(keyword => keyword.trim());
+    }
+  }
+
+  const description = optionalString(creativeWork.description ?? manifestData.description, 'creativeWork.description');
+  if (description) {
+    data.description = description;
+  }
+
+  if (Object.keys(data).length === 0) {
+    return null;
+  }
+
+  return {
+    label: CREATIVE_WORK_LABEL,
+    data: {
+      '@context': 'https://schema.org',
+      '@type': 'CreativeWork',
+      ...data
+    }
+  };
+}
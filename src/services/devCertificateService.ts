@@ -0,0 +1,418 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto, { KeyObject, X509Certificate } from 'crypto';
+import { SigningAlgorithm } from 'c2pa-node';
+import { config } from '../config';
+import { DevCertificateRequest, DevSigningCertificate, PrivateTrustAnchor } from '../types';
+import { AppError } from '../utils/errors';
+import {
+  authorityKeyIdentifierExtension,
+  basicConstraintsExtension,
+  createCertificate,
+  DistinguishedName,
+  extendedKeyUsageExtension,
+  keyUsageExtension,
+  Oids,
+  parseCertificateDer,
+  subjectKeyIdentifierExtension,
+  toPem
+} from '../utils/x509Utils';
+import { addPrivateTrustAnchor } from './privateTrustStoreService';
+
+// 開発用認証局の設定
+const devCaConfig = config.c2pa.devCa;
+const ROOT_KEY_PATH = path.join(devCaConfig.storageDir, 'root-key.pem');
+const ROOT_CERT_PATH = path.join(devCaConfig.storageDir, 'root-cert.pem');
+const INTERMEDIATE_KEY_PATH = path.join(devCaConfig.storageDir, 'intermediate-key.pem');
+const INTERMEDIATE_CERT_PATH = path.join(devCaConfig.storageDir, 'intermediate-cert.pem');
+
+// 認証局の証明書の有効期間（年）
+const ROOT_VALIDITY_YEARS = 10;
+const INTERMEDIATE_VALIDITY_YEARS = 5;
+
+// 検証する環境との時刻のずれを考慮して、有効期間の開始を5分早める
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// 識別名の属性の最大長（RFC 5280のub-common-name・ub-organization-name）
+const MAX_NAME_LENGTH = 64;
+
+// 署名証明書の拡張キー使用法
+// c2pa-kp-claimSigningに加え、古い検証実装が受け付けるdocumentSigningとemailProtectionも含める
+const SIGNING_EXTENDED_KEY_USAGES = [Oids.c2paClaimSigning, Oids.documentSigning, Oids.emailProtection];
+
+// 鍵の生成方法
+type KeySpec =
+  | { type: 'ec'; namedCurve: string }
+  | { type: 'rsa'; modulusLength: number }
+  | { type: 'ed25519' };
+
+// 署名アルゴリズムごとの署名証明書の鍵（RSA鍵はPSSで署名するため、ハッシュ長に応じた鍵長とする）
+const SIGNING_KEY_SPECS: Record<SigningAlgorithm, KeySpec> = {
+  [SigningAlgorithm.ES256]: { type: 'ec', namedCurve: 'prime256v1' },
+  [SigningAlgorithm.ES384]: { type: 'ec', namedCurve: 'secp384r1' },
+  [SigningAlgorithm.ES512]: { type: 'ec', namedCurve: 'secp521r1' },
+  [SigningAlgorithm.PS256]: { type: 'rsa', modulusLength: 2048 },
+  [SigningAlgorithm.PS384]: { type: 'rsa', modulusLength: 3072 },
+  [SigningAlgorithm.PS512]: { type: 'rsa', modulusLength: 4096 },
+  [SigningAlgorithm.Ed25519]: { type: 'ed25519' }
+};
+
+// 認証局（ルートCAと中間CA）の鍵は P-384 とする
+const CA_KEY_SPEC: KeySpec = { type: 'ec', namedCurve: 'secp384r1' };
+
+// 認証局の鍵と証明書
+interface CaCredentials {
+  privateKey: KeyObject;
+  certificate: X509Certificate;
+  // 発行する証明書の発行者名（DER）
+  name: Buffer;
+}
+
+// 開発用認証局
+interface DevCa {
+  root: CaCredentials;
+  intermediate: CaCredentials;
+}
+
+// 検証済みの証明書発行リクエスト
+interface ValidatedRequest {
+  algorithms: SigningAlgorithm[];
+  commonName?: string;
+  organization?: string;
+  validityDays: number;
+  registerTrustAnchor: boolean;
+}
+
+// 署名証明書の発行結果
+export interface DevCertificateBundle {
+  rootCertificate: string;
+  intermediateCertificate: string;
+  certificates: DevSigningCertificate[];
+  // ルートCAを登録したトラストアンカー（登録しなかった場合はnull）
+  trustAnchor: PrivateTrustAnchor | null;
+}
+
+let devCaPromise: Promise<DevCa> | null = null;
+
+/**
+ * 開発用認証局が有効か確認し、無効の場合はエラーを投げる
+ */
+export function requireDevCa(): void {
+  if (!devCaConfig.enabled) {
+    throw new AppError(
+      503,
+      'DEV_CA_DISABLED',
+      '開発用認証局が有効になっていません。DEV_CA_ENABLED=trueを設定してください。'
+    );
+  }
+}
+
+/**
+ * 鍵ペアを生成する
+ */
+function generateKeyPair(spec: KeySpec): Promise<{ publicKey: KeyObject; privateKey: KeyObject }> {
+  return new Promise((resolve, reject) => {
+    const callback = (error: Error | null, publicKey: KeyObject, privateKey: KeyObject) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve({ publicKey, privateKey });
+      }
+    };
+
+    switch (spec.type) {
+      case 'ec':
+        crypto.generateKeyPair('ec', { namedCurve: spec.namedCurve }, callback);
+        break;
+      case 'rsa':
+        crypto.generateKeyPair('rsa', { modulusLength: spec.modulusLength }, callback);
+        break;
+      case 'ed25519':
+        crypto.generateKeyPair('ed25519', {}, callback);
+        break;
+    }
+  });
+}
+
+/**
+ * 現在時刻から有効期間の開始日時を作成する
+ */
+function validityStart(): Date {
+  return new Date(Date.now() - CLOCK_SKEW_MS);
+}
+
+/**
+ * 保存した鍵と証明書から認証局を読み込む
+ */
+function toCaCredentials(keyPem: string, certificatePem: string): CaCredentials {
+  const certificate = new X509Certificate(certificatePem);
+  const privateKey = crypto.createPrivateKey(keyPem);
+  if (!certificate.checkPrivateKey(privateKey)) {
+    throw new Error('開発用認証局の秘密鍵が証明書と一致しません。');
+  }
+  return { privateKey, certificate, name: parseCertificateDer(certificate.raw).subject.raw };
+}
+
+/**
+ * ルートCAと中間CAの鍵と証明書を生成して保存する
+ */
+async function generateDevCa(): Promise<DevCa> {
+  console.log('Generating development root and intermediate CA...');
+  const [rootKeys, intermediateKeys] = await Promise.all([generateKeyPair(CA_KEY_SPEC), generateKeyPair(CA_KEY_SPEC)]);
+  const notBefore = validityStart();
+  const organization = config.appInfo.name;
+
+  const rootNotAfter = new Date(notBefore);
+  rootNotAfter.setFullYear(rootNotAfter.getFullYear() + ROOT_VALIDITY_YEARS);
+  const rootDer = createCertificate({
+    subject: { commonName: `${organization} Development Root CA`, organization },
+    publicKey: rootKeys.publicKey,
+    signingKey: rootKeys.privateKey,
+    notBefore,
+    notAfter: rootNotAfter,
+    extensions: [
+      basicConstraintsExtension(true, 1),
+      keyUsageExtension(['keyCertSign', 'cRLSign']),
+      subjectKeyIdentifierExtension(rootKeys.publicKey)
+    ]
+  });
+
+  const intermediateNotAfter = new Date(notBefore);
+  intermediateNotAfter.setFullYear(intermediateNotAfter.getFullYear() + INTERMEDIATE_VALIDITY_YEARS);
+  const intermediateDer = createCertificate({
+    subject: { commonName: `${organization} Development Intermediate CA`, organization },
+    issuerName: parseCertificateDer(rootDer).subject.raw,
+    publicKey: intermediateKeys.publicKey,
+    signingKey: rootKeys.privateKey,
+    notBefore,
+    notAfter: intermediateNotAfter,
+    extensions: [
+      basicConstraintsExtension(true, 0),
+      keyUsageExtension(['keyCertSign', 'cRLSign']),
+      subjectKeyIdentifierExtension(intermediateKeys.publicKey),
+      authorityKeyIdentifierExtension(rootKeys.publicKey)
+    ]
+  });
+
+  const rootKeyPem = rootKeys.privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+  const intermediateKeyPem = intermediateKeys.privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+
+  await fs.mkdir(devCaConfig.storageDir, { recursive: true, mode: 0o700 });
+  await Promise.all([
+    fs.writeFile(ROOT_KEY_PATH, rootKeyPem, { encoding: 'utf8', mode: 0o600 }),
+    fs.writeFile(ROOT_CERT_PATH, toPem(rootDer), 'utf8'),
+    fs.writeFile(INTERMEDIATE_KEY_PATH, intermediateKeyPem, { encoding: 'utf8', mode: 0o600 }),
+    fs.writeFile(INTERMEDIATE_CERT_PATH, toPem(intermediateDer), 'utf8')
+  ]);
+  console.log(`Development CA saved to ${devCaConfig.storageDir}`);
+
+  return {
+    root: toCaCredentials(rootKeyPem, toPem(rootDer)),
+    intermediate: toCaCredentials(intermediateKeyPem, toPem(intermediateDer))
+  };
+}
+
+/**
+ * 開発用認証局を取得する
+ * 保存済みの鍵と証明書、新規生成の順に解決する
+ */
+async function loadDevCa(): Promise<DevCa> {
+  let pems: string[];
+  try {
+    pems = await Promise.all(
+      [ROOT_KEY_PATH, ROOT_CERT_PATH, INTERMEDIATE_KEY_PATH, INTERMEDIATE_CERT_PATH].map(file => fs.readFile(file, 'utf8'))
+    );
+  } catch (error) {
+    return generateDevCa();
+  }
+
+  const [rootKeyPem, rootCertPem, intermediateKeyPem, intermediateCertPem] = pems;
+  return {
+    root: toCaCredentials(rootKeyPem, rootCertPem),
+    intermediate: toCaCredentials(intermediateKeyPem, intermediateCertPem)
+  };
+}
+
+/**
+ * 開発用認証局を取得する（同時に呼ばれた場合も生成は1回のみ）
+ */
+function getDevCa(): Promise<DevCa> {
+  if (!devCaPromise) {
+    devCaPromise = loadDevCa().catch(error => {
+      devCaPromise = null;
+      throw error;
+    });
+  }
+  return devCaPromise;
+}
+
+/**
+ * 証明書発行リクエストの不正を表すエラーを作成する
+ */
+function invalidRequest(field: string, message: string): AppError {
+  return new AppError(400, 'INVALID_DEV_CERTIFICATE_REQUEST', message, { field });
+}
+
+/**
+ * 識別名の属性を検証する
+ */
+function validateNameAttribute(value: unknown, field: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !value.trim() || value.trim().length > MAX_NAME_LENGTH) {
+    throw invalidRequest(field, `${field}は${MAX_NAME_LENGTH}文字以内の文字列で指定してください。`);
+  }
+  return value.trim();
+}
+
+/**
+ * 発行する署名証明書のアルゴリズムを検証する
+ * @param algorithms アルゴリズム名の配列（大文字・小文字は区別しない。省略時は対応するすべてのアルゴリズム）
+ */
+function normalizeAlgorithms(algorithms: unknown): SigningAlgorithm[] {
+  const supported = Object.values(SigningAlgorithm) as string[];
+  if (algorithms === undefined) {
+    return supported as SigningAlgorithm[];
+  }
+  if (!Array.isArray(algorithms) || algorithms.length === 0) {
+    throw invalidRequest('algorithms', 'algorithmsには署名アルゴリズムを1件以上指定してください。');
+  }
+
+  const normalized = algorithms.map((algorithm, index) => {
+    const name = typeof algorithm === 'string' ? algorithm.toLowerCase() : '';
+    if (!supported.includes(name)) {
+      throw new AppError(
+        400,
+        'INVALID_DEV_CERTIFICATE_REQUEST',
+        `サポートされていない署名アルゴリズムです: ${String(algorithm)}。${supported.join(', ')} のいずれかを指定してください。`,
+        { field: 'algorithms', index }
+      );
+    }
+    return name as SigningAlgorithm;
+  });
+  return [...new Set(normalized)];
+}
+
+/**
+ * 証明書発行リクエストを検証する
+ */
+function validateRequest(input: DevCertificateRequest): ValidatedRequest {
+  const request = input || {};
+  const { validityDays = devCaConfig.defaultValidityDays, registerTrustAnchor = false } = request;
+
+  if (
+    typeof validityDays !== 'number' ||
+    !Number.isInteger(validityDays) ||
+    validityDays < 1 ||
+    validityDays > devCaConfig.maxValidityDays
+  ) {
+    throw invalidRequest('validityDays', `validityDaysには1〜${devCaConfig.maxValidityDays}の整数を指定してください。`);
+  }
+  if (typeof registerTrustAnchor !== 'boolean') {
+    throw invalidRequest('registerTrustAnchor', 'registerTrustAnchorは真偽値で指定してください。');
+  }
+
+  return {
+    algorithms: normalizeAlgorithms(request.algorithms),
+    commonName: validateNameAttribute(request.commonName, 'commonName'),
+    organization: validateNameAttribute(request.organization, 'organization'),
+    validityDays,
+    registerTrustAnchor
+  };
+}
+
+/**
+ * 中間CAからC2PAの証明書プロファイルに沿った署名証明書を発行する
+ * - keyUsage: digitalSignature（クリティカル）
+ * - extKeyUsage: c2pa-kp-claimSigning・documentSigning・emailProtection
+ * - basicConstraints: CA:FALSE、subjectKeyIdentifier・authorityKeyIdentifierを含める
+ */
+async function issueSigningCertificate(
+  ca: DevCa,
+  algorithm: SigningAlgorithm,
+  subject: DistinguishedName,
+  validityDays: number
+): Promise<DevSigningCertificate> {
+  const { publicKey, privateKey } = await generateKeyPair(SIGNING_KEY_SPECS[algorithm]);
+  const notBefore = validityStart();
+  const notAfter = new Date(notBefore.getTime() + validityDays * 24 * 60 * 60 * 1000);
+  // 中間CAの有効期間を超えないようにする
+  const intermediateNotAfter = new Date(ca.intermediate.certificate.validTo);
+
+  const der = createCertificate({
+    subject,
+    issuerName: ca.intermediate.name,
+    publicKey,
+    signingKey: ca.intermediate.privateKey,
+    notBefore,
+    notAfter: notAfter > intermediateNotAfter ? intermediateNotAfter : notAfter,
+    extensions: [
+      basicConstraintsExtension(false),
+      keyUsageExtension(['digitalSignature']),
+      extendedKeyUsageExtension(SIGNING_EXTENDED_KEY_USAGES),
+      subjectKeyIdentifierExtension(publicKey),
+      authorityKeyIdentifierExtension(ca.intermediate.certificate.publicKey)
+    ]
+  });
+  const leaf = new X509Certificate(der);
+
+  return {
+    algorithm,
+    certificate: toPem(der) + ca.intermediate.certificate.toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+    subject: leaf.subject,
+    serialNumber: leaf.serialNumber,
+    fingerprint256: leaf.fingerprint256,
+    validFrom: new Date(leaf.validFrom).toISOString(),
+    validTo: new Date(leaf.validTo).toISOString()
+  };
+}
+
+/**
+ * 開発用認証局のルートCAと中間CAの証明書を取得する
+ * @returns PEM形式の証明書
+ */
+export async function getDevCaCertificates(): Promise<{ rootCertificate: string; intermediateCertificate: string }> {
+  requireDevCa();
+  const ca = await getDevCa();
+  return {
+    rootCertificate: ca.root.certificate.toString(),
+    intermediateCertificate: ca.intermediate.certificate.toString()
+  };
+}
+
+/**
+ * 開発用認証局から署名アルゴリズムごとの署名証明書を発行する
+ * 発行した証明書チェーン（リーフ・中間CA）と秘密鍵はそのまま署名リクエストや署名プロファイルに指定できる
+ * @param input 発行リクエスト
+ * @returns ルートCA・中間CAの証明書と、発行した署名証明書
+ */
+export async function issueDevCertificates(input: DevCertificateRequest): Promise<DevCertificateBundle> {
+  requireDevCa();
+  const request = validateRequest(input);
+  const ca = await getDevCa();
+
+  const organization = request.organization || config.appInfo.name;
+  const certificates: DevSigningCertificate[] = [];
+  // RSA鍵の生成は負荷が高いため、アルゴリズムごとに順に発行する
+  for (const algorithm of request.algorithms) {
+    const subject: DistinguishedName = {
+      commonName: request.commonName || `${organization} Test Signer (${algorithm.toUpperCase()})`,
+      organization,
+      organizationalUnit: 'Development'
+    };
+    certificates.push(await issueSigningCertificate(ca, algorithm, subject, request.validityDays));
+  }
+
+  const trustAnchor = request.registerTrustAnchor
+    ? await addPrivateTrustAnchor(ca.root.certificate.toString(), `${config.appInfo.name} Development Root CA`)
+    : null;
+
+  return {
+    rootCertificate: ca.root.certificate.toString(),
+    intermediateCertificate: ca.intermediate.certificate.toString(),
+    certificates,
+    trustAnchor
+  };
+}
@@ -0,0 +1,395 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { config } from '../config';
+import { C2paActionInput, EditOperation, EditOutputFormat } from '../types';
+import { AppError } from '../utils/errors';
+import { generateUniqueId, getMimeType, getTempFilePath } from '../utils/fileUtils';
+
+// 出力形式と拡張子の対応
+const OUTPUT_FORMATS: Record<EditOutputFormat, string> = {
+  jpeg: '.jpg',
+  png: '.png',
+  webp: '.webp',
+  avif: '.avif',
+  tiff: '.tif',
+  gif: '.gif'
+};
+
+// 拡張子から出力形式を決定するための対応
+const EXTENSION_FORMATS: Record<string, EditOutputFormat> = {
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.png': 'png',
+  '.webp': 'webp',
+  '.avif': 'avif',
+  '.tif': 'tiff',
+  '.tiff': 'tiff',
+  '.gif': 'gif'
+};
+
+// アニメーションを保持できる出力形式
+const ANIMATED_FORMATS: EditOutputFormat[] = ['gif', 'webp'];
+
+// sharpのエンコーダー名（AVIFはHEIFエンコーダーで出力する）
+const SHARP_ENCODERS: Record<EditOutputFormat, keyof sharp.FormatEnum> = {
+  jpeg: 'jpeg',
+  png: 'png',
+  webp: 'webp',
+  avif: 'heif',
+  tiff: 'tiff',
+  gif: 'gif'
+};
+
+const RESIZE_FITS = ['cover', 'contain', 'fill', 'inside', 'outside'] as const;
+
+// 1回の編集で指定できる操作の上限と、出力画像の最大辺
+const MAX_OPERATIONS = 20;
+const MAX_DIMENSION = 10000;
+
+// 形式変換の指定
+export interface TranscodeOptions {
+  format: EditOutputFormat;
+  quality?: number;
+}
+
+// 編集結果
+export interface EditedAsset {
+  // 編集後の画像の一時ファイルID
+  fileId: string;
+  format: EditOutputFormat;
+  width: number;
+  height: number;
+}
+
+/**
+ * 編集操作の検証エラーを作成する
+ */
+function invalidOperation(index: number, field: string, message: string): AppError {
+  return new AppError(400, 'INVALID_EDIT_OPERATIONS', `操作${index + 1}: ${message}`, { index, field });
+}
+
+/**
+ * 正の整数かどうか
+ */
+function isDimension(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_DIMENSION;
+}
+
+/**
+ * 0以上の整数かどうか
+ */
+function isOffset(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_DIMENSION;
+}
+
+/**
+ * 1つの編集操作を検証・正規化する
+ */
+function normalizeOperation(item: unknown, index: number): EditOperation {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    throw invalidOperation(index, 'type', '操作はオブジェクトで指定してください。');
+  }
+  const operation = item as Record<string, unknown>;
+
+  switch (operation.type) {
+    case 'crop': {
+      const { left, top, width, height } = operation;
+      if (!isOffset(left) || !isOffset(top) || !isDimension(width) || !isDimension(height)) {
+        throw invalidOperation(index, 'crop', 'cropにはleft・top（0以上の整数）とwidth・height（正の整数）を指定してください。');
+      }
+      return { type: 'crop', left, top, width, height };
+    }
+    case 'resize': {
+      const { width, height, fit = 'inside' } = operation;
+      if ((width === undefined && height === undefined) ||
+        (width !== undefined && !isDimension(width)) ||
+        (height !== undefined && !isDimension(height))) {
+        throw invalidOperation(index, 'resize', `resizeにはwidthまたはheightを${MAX_DIMENSION}以下の正の整数で指定してください。`);
+      }
+      if (!RESIZE_FITS.includes(fit as typeof RESIZE_FITS[number])) {
+        throw invalidOperation(index, 'fit', `fitは ${RESIZE_FITS.join(', ')} のいずれかで指定してください。`);
+      }
+      return {
+        type: 'resize',
+        ...(width !== undefined ? { width } : {}),
+        ...(height !== undefined ? { height } : {}),
+        fit: fit as typeof RESIZE_FITS[number]
+      };
+    }
+    case 'rotate': {
+      const { angle } = operation;
+      if (typeof angle !== 'number' || !Number.isFinite(angle) || Math.abs(angle) > 360) {
+        throw invalidOperation(index, 'angle', 'angleは-360から360の数値（度）で指定してください。');
+      }
+      return { type: 'rotate', angle };
+    }
+    case 'flip': {
+      const { direction } = operation;
+      if (direction !== 'horizontal' && direction !== 'vertical') {
+        throw invalidOperation(index, 'direction', 'directionはhorizontalまたはverticalで指定してください。');
+      }
+      return { type: 'flip', direction };
+    }
+    case 'format': {
+      const { format, quality } = operation;
+      if (typeof format !== 'string' || !(format in OUTPUT_FORMATS)) {
+        throw invalidOperation(index, 'format', `formatは ${Object.keys(OUTPUT_FORMATS).join(', ')} のいずれかで指定してください。`);
+      }
+      if (quality !== undefined && (!Number.isInteger(quality) || (quality as number) < 1 || (quality as number) > 100)) {
+        throw invalidOperation(index, 'quality', 'qualityは1から100の整数で指定してください。');
+      }
+      return {
+        type: 'format',
+        format: format as EditOutputFormat,
+        ...(quality !== undefined ? { quality: quality as number } : {})
+      };
+    }
+    case 'color': {
+      const { brightness, saturation, hue, grayscale } = operation;
+      const isPositive = (value: unknown) => value === undefined || (typeof value === 'number' && value > 0 && value <= 10);
+      if (!isPositive(brightness) || (saturation !== undefined && !(typeof saturation === 'number' && saturation >= 0 && saturation <= 10))) {
+        throw invalidOperation(index, 'color', 'brightnessは0より大きく10以下、saturationは0以上10以下の倍率で指定してください。');
+      }
+      if (hue !== undefined && (typeof hue !== 'number' || !Number.isFinite(hue))) {
+        throw invalidOperation(index, 'hue', 'hueは数値（度）で指定してください。');
+      }
+      if (grayscale !== undefined && typeof grayscale !== 'boolean') {
+        throw invalidOperation(index, 'grayscale', 'grayscaleは真偽値で指定してください。');
+      }
+      if (brightness === undefined && saturation === undefined && hue === undefined && !grayscale) {
+        throw invalidOperation(index, 'color', 'colorにはbrightness・saturation・hue・grayscaleのいずれかを指定してください。');
+      }
+      return {
+        type: 'color',
+        ...(brightness !== undefined ? { brightness: brightness as number } : {}),
+        ...(saturation !== undefined ? { saturation: saturation as number } : {}),
+        ...(hue !== undefined ? { hue } : {}),
+        ...(grayscale !== undefined ? { grayscale } : {})
+      };
+    }
+    default:
+      throw invalidOperation(index, 'type', 'typeは crop, resize, rotate, flip, format, color のいずれかで指定してください。');
+  }
+}
+
+/**
+ * リクエストで指定された編集操作を検証・正規化する
+ * @param operations 編集操作の配列
+ * @returns 検証済みの編集操作
+ */
+export function normalizeEditOperations(operations: unknown): EditOperation[] {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new AppError(400, 'INVALID_EDIT_OPERATIONS', 'operationsには1つ以上の編集操作を配列で指定してください。');
+  }
+  if (operations.length > MAX_OPERATIONS) {
+    throw new AppError(400, 'INVALID_EDIT_OPERATIONS', `編集操作は最大${MAX_OPERATIONS}件まで指定できます。`);
+  }
+
+  const normalized = operations.map(normalizeOperation);
+  if (normalized.filter(operation => operation.type === 'format').length > 1) {
+    throw new AppError(400, 'INVALID_EDIT_OPERATIONS', 'formatは1回だけ指定できます。');
+  }
+  return normalized;
+}
+
+/**
+ * 1つの編集操作をsharpのパイプラインに適用する
+ */
+function applyOperation(image: sharp.Sharp, operation: EditOperation): sharp.Sharp {
+  switch (operation.type) {
+    case 'crop':
+      return image.extract({ left: operation.left, top: operation.top, width: operation.width, height: operation.height });
+    case 'resize':
+      return image.resize({ width: operation.width, height: operation.height, fit: operation.fit });
+    case 'rotate':
+      return image.rotate(operation.angle, { background: { r: 0, g: 0, b: 0, alpha: 0 } });
+    case 'flip':
+      return operation.direction === 'vertical' ? image.flip() : image.flop();
+    case 'color': {
+      const { type, grayscale, ...modulation } = operation;
+      const adjusted = Object.keys(modulation).length > 0 ? image.modulate(modulation) : image;
+      return grayscale ? adjusted.grayscale() : adjusted;
+    }
+    case 'format':
+      return image;
+  }
+}
+
+/**
+ * アップロード済みの画像に編集操作を順に適用し、新しい一時ファイルとして保存する
+ * sharpは1つのパイプライン内で操作の順序を入れ替えるため、操作ごとに非圧縮の画素データを受け渡す
+ * @param sourceFileId 編集元のファイルID
+ * @param operations 検証済みの編集操作
+ * @returns 編集後の画像
+ */
+export async function applyEditOperations(sourceFileId: string, operations: EditOperation[]): Promise<EditedAsset> {
+  const sourceFormat = EXTENSION_FORMATS[path.extname(sourceFileId).toLowerCase()];
+  const formatOperation = operations.find(operation => operation.type === 'format');
+  const format = formatOperation?.type === 'format' ? formatOperation.format : sourceFormat;
+
+  if (!format) {
+    throw new AppError(
+      400,
+      'UNSUPPORTED_EDIT_FORMAT',
+      `この形式の画像は編集結果として出力できません。formatで ${Object.keys(OUTPUT_FORMATS).join(', ')} のいずれかを指定してください。`
+    );
+  }
+
+  let raw: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    raw = await sharp(getTempFilePath(sourceFileId)).raw().toBuffer({ resolveWithObject: true });
+  } catch (error) {
+    throw new AppError(400, 'UNREADABLE_IMAGE', '画像を読み込めませんでした。', {
+      reason: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  for (const [index, operation] of operations.entries()) {
+    const { width, height, channels } = raw.info;
+    if (operation.type === 'crop' && (operation.left + operation.width > width || operation.top + operation.height > height)) {
+      throw invalidOperation(index, 'crop', `切り抜き範囲が画像（${width}x${height}）の外にあります。`);
+    }
+
+    try {
+      const image = sharp(raw.data, { raw: { width, height, channels } });
+      raw = await applyOperation(image, operation).raw().toBuffer({ resolveWithObject: true });
+    } catch (error) {
+      throw invalidOperation(index, operation.type, `画像の編集に失敗しました: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const fileId = `edited_${generateUniqueId()}${OUTPUT_FORMATS[format]}`;
+  const quality = formatOperation?.type === 'format' ? formatOperation.quality : undefined;
+  const { width, height, channels } = raw.info;
+
+  await sharp(raw.data, { raw: { width, height, channels } })
+    .toFormat(format, quality !== undefined ? { quality } : {})
+    .toFile(path.join(config.tempDir, fileId));
+
+  return { fileId, format, width, height };
+}
+
+/**
+ * 編集操作をc2pa.actionsのアクションに変換する（操作ごとに1つ）
+ * @param operations 検証済みの編集操作
+ * @returns 記録するアクション
+ */
+export function createEditActions(operations: EditOperation[]): C2paActionInput[] {
+  const softwareAgent = { name: config.appInfo.name, version: config.appInfo.version };
+  const actionNames: Record<EditOperation['type'], string> = {
+    crop: 'c2pa.cropped',
+    resize: 'c2pa.resized',
+    rotate: 'c2pa.orientation',
+    flip: 'c2pa.orientation',
+    format: 'c2pa.converted',
+    color: 'c2pa.color_adjustments'
+  };
+
+  return operations.map(({ type, ...parameters }) => ({
+    action: actionNames[type],
+    softwareAgent,
+    parameters: { operation: type, ...parameters }
+  }));
+}
+
+/**
+ * 形式変換の指定を検証する
+ * @param format 変換先の形式
+ * @param quality 画質（1〜100、省略可）
+ * @returns 検証済みの形式変換の指定
+ */
+export function normalizeTranscodeOptions(format: unknown, quality: unknown): TranscodeOptions {
+  if (typeof format !== 'string' || !(format in OUTPUT_FORMATS)) {
+    throw new AppError(
+      400,
+      'INVALID_TRANSCODE_OPTIONS',
+      `targetFormatは ${Object.keys(OUTPUT_FORMATS).join(', ')} のいずれかで指定してください。`,
+      { field: 'targetFormat' }
+    );
+  }
+  if (quality !== undefined && (!Number.isInteger(quality) || (quality as number) < 1 || (quality as number) > 100)) {
+    throw new AppError(400, 'INVALID_TRANSCODE_OPTIONS', 'qualityは1から100の整数で指定してください。', { field: 'quality' });
+  }
+
+  const encoder = SHARP_ENCODERS[format as EditOutputFormat];
+  if (!sharp.format[encoder]?.output.file) {
+    throw new AppError(
+      400,
+      'UNSUPPORTED_TRANSCODE_TARGET',
+      `このサーバーでは ${format} 形式に変換できません。`,
+      { field: 'targetFormat' }
+    );
+  }
+
+  return {
+    format: format as EditOutputFormat,
+    ...(quality !== undefined ? { quality: quality as number } : {})
+  };
+}
+
+/**
+ * アップロード済みの画像を別の形式に変換し、新しい一時ファイルとして保存する
+ * 向き（EXIFのOrientation）は画素に反映し、その他のメタデータとカラープロファイルは保持する
+ * @param sourceFileId 変換元のファイルID
+ * @param options 検証済みの形式変換の指定
+ * @returns 変換後の画像
+ */
+export async function transcodeImage(sourceFileId: string, options: TranscodeOptions): Promise<EditedAsset> {
+  const animated = ANIMATED_FORMATS.includes(options.format);
+  const fileId = `transcoded_${generateUniqueId()}${OUTPUT_FORMATS[options.format]}`;
+
+  try {
+    const info = await sharp(getTempFilePath(sourceFileId), { pages: animated ? -1 : 1 })
+      .rotate()
+      .keepMetadata()
+      .toFormat(options.format, options.quality !== undefined ? { quality: options.quality } : {})
+      .toFile(path.join(config.tempDir, fileId));
+
+    return { fileId, format: options.format, width: info.width, height: info.height };
+  } catch (error) {
+    await removeEditedAsset(fileId);
+    throw new AppError(400, 'UNREADABLE_IMAGE', 'このサーバーでは画像を読み込めないか、指定の形式に変換できませんでした。', {
+      reason: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * 変換後のMIMEタイプを取得する
+ */
+export function getTranscodeMimeType(options: TranscodeOptions): string {
+  const extension = OUTPUT_FORMATS[options.format];
+  return config.supportedImageFormats.find(format => format.extension === extension)?.mimeType || 'application/octet-stream';
+}
+
+/**
+ * 形式変換を表すc2pa.transcodedアクションを作成する
+ * @param sourceFileId 変換元のファイルID
+ * @param options 検証済みの形式変換の指定
+ * @returns 記録するアクション
+ */
+export function createTranscodeAction(sourceFileId: string, options: TranscodeOptions): C2paActionInput {
+  return {
+    action: 'c2pa.transcoded',
+    softwareAgent: { name: config.appInfo.name, version: config.appInfo.version },
+    parameters: {
+      from: getMimeType(sourceFileId),
+      to: getTranscodeMimeType(options),
+      ...(options.quality !== undefined ? { quality: options.quality } : {})
+    }
+  };
+}
+
+/**
+ * 編集・変換途中の一時ファイルを削除する
+ */
+export async function removeEditedAsset(fileId: string): Promise<void> {
+  try {
+    await fs.unlink(getTempFilePath(fileId));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`編集途中のファイルを削除できませんでした: ${fileId}`, error);
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import fs from 'fs/promises';
+import { C2pa, ResolvedManifestStore, StorableIngredient, ValidationStatus } from 'c2pa-node';
+import { IngredientReference, IngredientRelationship, NormalizedIngredientReference } from '../types';
+import { AppError } from '../utils/errors';
+import { getMimeType, getOriginalFileName, getTempFilePath, isValidFileId } from '../utils/fileUtils';
+import { invalidField } from '../utils/schemaUtils';
+import { createThumbnail } from '../utils/thumbnailUtils';
+
+// C2PAで定義されている材料の関係
+const INGREDIENT_RELATIONSHIPS: IngredientRelationship[] = ['parentOf', 'componentOf', 'inputTo'];
+
+// 1回の署名で指定できる材料の上限
+const MAX_INGREDIENTS = 20;
+
+// リクエストでの材料の指定のJSONパス
+const INGREDIENTS_PATH = '$.ingredientFileIds';
+
+// マニフェストに追加する準備ができた材料
+export interface PreparedIngredient {
+  fileId: string;
+  title: string;
+  relationship: IngredientRelationship;
+  hasManifest: boolean;
+  hasThumbnail: boolean;
+  validationStatus: ValidationStatus[];
+  storable: StorableIngredient;
+}
+
+// 署名対象ファイルの既存来歴の検出結果
+export interface ProvenanceResult {
+  found: boolean;
+  chained: boolean;
+  activeManifest: string | null;
+  reason?: 'read_failed' | 'explicit_parent' | 'other_parent_specified' | 'disabled';
+}
+
+/**
+ * リクエストで指定された材料の参照を正規化・検証する
+ * @param ingredientFileIds ファイルIDまたは{ fileId, relationship, title }の配列
+ * @param defaultRelationship 関係が省略された場合に使用する関係
+ * @returns 正規化された材料の参照
+ */
+export function normalizeIngredientReferences(
+  ingredientFileIds: unknown,
+  defaultRelationship: unknown = 'parentOf'
+): NormalizedIngredientReference[] {
+  if (ingredientFileIds === undefined || ingredientFileIds === null) {
+    return [];
+  }
+  if (!Array.isArray(ingredientFileIds)) {
+    throw invalidField('INVALID_INGREDIENTS', INGREDIENTS_PATH, 'ingredientFileIdsは配列で指定してください。');
+  }
+  if (ingredientFileIds.length > MAX_INGREDIENTS) {
+    throw invalidField('INVALID_INGREDIENTS', INGREDIENTS_PATH, `材料は最大${MAX_INGREDIENTS}件まで指定できます。`);
+  }
+  if (!INGREDIENT_RELATIONSHIPS.includes(defaultRelationship as IngredientRelationship)) {
+    throw invalidField(
+      'INVALID_INGREDIENT_RELATIONSHIP',
+      '$.ingredientRelationship',
+      `材料の関係は ${INGREDIENT_RELATIONSHIPS.join(', ')} のいずれかで指定してください。`
+    );
+  }
+
+  const references = ingredientFileIds.map((item, index) => {
+    const itemPath = `${INGREDIENTS_PATH}[${index}]`;
+    const reference = typeof item === 'string' ? { fileId: item } : item as IngredientReference;
+    const relationship = reference?.relationship ?? defaultRelationship;
+
+    if (!reference || typeof reference.fileId !== 'string' || !isValidFileId(reference.fileId)) {
+      throw invalidField(
+        'INVALID_INGREDIENTS',
+        typeof item === 'string' ? itemPath : `${itemPath}.fileId`,
+        `材料${index + 1}のファイルIDが無効です。`
+      );
+    }
+    if (!INGREDIENT_RELATIONSHIPS.includes(relationship as IngredientRelationship)) {
+      throw invalidField(
+        'INVALID_INGREDIENT_RELATIONSHIP',
+        `${itemPath}.relationship`,
+        `材料の関係は ${INGREDIENT_RELATIONSHIPS.join(', ')} のいずれかで指定してください。`
+      );
+    }
+
+    if (reference.title !== undefined && (typeof reference.title !== 'string' || !reference.title.trim())) {
+      throw invalidField('INVALID_INGREDIENTS', `${itemPath}.title`, `材料${index + 1}のタイトルは空でない文字列で指定してください。`);
+    }
+
+    return { fileId: reference.fileId, relationship: relationship as IngredientRelationship, title: reference.title };
+  });
+
+  // C2PAでは親となる材料は1つまで
+  if (references.filter(reference => reference.relationship === 'parentOf').length > 1) {
+    throw invalidField('MULTIPLE_PARENT_INGREDIENTS', INGREDIENTS_PATH, 'parentOfの関係を持つ材料は1つまでです。');
+  }
+
+  return references;
+}
+
+/**
+ * アップロード済みファイル1件から材料を作成する
+ * 材料が既存のマニフェストにサムネイルを持たない場合は生成したサムネイルを使用する
+ * タイトルは指定がなければアップロード時の元のファイル名（不明な場合はファイルID）とする
+ */
+async function createIngredientFromFile(
+  c2pa: C2pa,
+  fileId: string,
+  relationship: IngredientRelationship,
+  includeThumbnail: boolean,
+  title?: string
+): Promise<PreparedIngredient> {
+  const filePath = getTempFilePath(fileId);
+  const mimeType = getMimeType(fileId);
+
+  if (!mimeType) {
+    throw new AppError(400, 'UNSUPPORTED_INGREDIENT_FORMAT', `材料のファイル形式がサポートされていません: ${fileId}`);
+  }
+
+  try {
+    await fs.access(filePath);
+  } catch (error) {
+    throw new AppError(404, 'INGREDIENT_NOT_FOUND', `材料のファイルが見つかりません: ${fileId}`);
+  }
+
+  const thumbnail = includeThumbnail ? await createThumbnail(filePath) : null;
+  const storable = await c2pa.createIngredient({
+    asset: { path: filePath, mimeType },
+    title: title || (await getOriginalFileName(fileId)) || fileId,
+    thumbnail: thumbnail || false
+  });
+  storable.ingredient.relationship = relationship;
+
+  return {
+    fileId,
+    title: storable.ingredient.title,
+    relationship,
+    hasManifest: Boolean(storable.ingredient.active_manifest || storable.ingredient.manifest_data),
+    hasThumbnail: Boolean(storable.ingredient.thumbnail),
+    validationStatus: storable.ingredient.validation_status || [],
+    storable
+  };
+}
+
+/**
+ * アップロード済みファイルから材料を作成する
+ * 既存のマニフェストと検証結果は材料に引き継がれる
+ * @param c2pa C2PAインスタンス
+ * @param references 正規化された材料の参照
+ * @param includeThumbnail 材料のサムネイルを含めるかどうか
+ */
+export async function createIngredients(
+  c2pa: C2pa,
+  references: NormalizedIngredientReference[],
+  includeThumbnail = true
+): Promise<PreparedIngredient[]> {
+  const ingredients: PreparedIngredient[] = [];
+
+  for (const { fileId, relationship, title } of references) {
+    ingredients.push(await createIngredientFromFile(c2pa, fileId, relationship, includeThumbnail, title));
+  }
+
+  return ingredients;
+}
+
+/**
+ * 署名対象ファイルに既存のC2PAマニフェストがあれば、元のファイルを親材料として引き継ぐ
+ * 再署名で来歴が失われないようにするための処理
+ * @param c2pa C2PAインスタンス
+ * @param fileId 署名対象のファイルID
+ * @param references リクエストで明示された材料
+ * @param includeThumbnail 材料のサムネイルを含めるかどうか
+ * @returns 来歴の検出結果と、引き継ぐ場合は親材料
+ */
+export async function chainExistingProvenance(
+  c2pa: C2pa,
+  fileId: string,
+  references: NormalizedIngredientReference[],
+  includeThumbnail = true
+): Promise<{ provenance: ProvenanceResult; ingredient?: PreparedIngredient }> {
+  const mimeType = getMimeType(fileId);
+  let store: ResolvedManifestStore | null = null;
+
+  try {
+    store = mimeType ? await c2pa.read({ path: getTempFilePath(fileId), mimeType }) : null;
+  } catch (error) {
+    console.warn(`既存マニフェストの読み取りに失敗しました: ${fileId}`, error);
+    return {
+      provenance: { found: false, chained: false, activeManifest: null, reason: 'read_failed' }
+    };
+  }
+
+  if (!store || !store.active_manifest) {
+    return { provenance: { found: false, chained: false, activeManifest: null } };
+  }
+
+  const activeManifest = store.active_manifest.label || null;
+  const explicitParent = references.find(reference => reference.relationship === 'parentOf');
+
+  if (explicitParent) {
+    // 別のファイルが親として指定されている場合は自動で引き継がない
+    return {
+      provenance: {
+        found: true,
+        chained: explicitParent.fileId === fileId,
+        activeManifest,
+        reason: explicitParent.fileId === fileId ? 'explicit_parent' : 'other_parent_specified'
+      }
+    };
+  }
+
+  const ingredient = await createIngredientFromFile(c2pa, fileId, 'parentOf', includeThumbnail);
+  return {
+    provenance: { found: true, chained: true, activeManifest },
+    ingredient
+  };
+}
+
+/**
+ * レスポンス用に材料の概要を作成する
+ */
+export function summarizeIngredients(ingredients: PreparedIngredient[]) {
+  return ingredients.map(({ fileId, title, relationship, hasManifest, hasThumbnail, validationStatus }) => ({
+    fileId,
+    title,
+    relationship,
+    hasManifest,
+    hasThumbnail,
+    validationStatus
+  }));
+}
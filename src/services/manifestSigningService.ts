@@ -0,0 +1,553 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BufferAsset, C2pa, createC2pa, FileAsset, ManifestBuilder } from 'c2pa-node';
+import { config } from '../config';
+import {
+  C2paAction,
+  C2paActionInput,
+  C2paAssertion,
+  ManifestBuilderOptions,
+  ManifestMode,
+  ManifestPreviewWarning,
+  NormalizedIngredientReference,
+  PrivacyFinding,
+  PrivacyPolicy,
+  SignData
+} from '../types';
+import { addActions, createCreatedAction, createOpenedAction } from '../utils/c2paUtils';
+import { resolveKeyMaterial } from '../utils/certificateUtils';
+import { AppError, isAppError } from '../utils/errors';
+import { generateUniqueId, getMimeType, getTempFilePath } from '../utils/fileUtils';
+import { createThumbnail } from '../utils/thumbnailUtils';
+import { buildActions, hasInitialAction, normalizeActions, NormalizedAction } from './actionService';
+import { applyAiDisclosure } from './aiDisclosureService';
+import { inspectCertificateChain } from './certificateInspectionService';
+import { createCreativeWorkAssertion } from './creativeWorkService';
+import {
+  chainExistingProvenance,
+  createIngredients,
+  normalizeIngredientReferences,
+  PreparedIngredient,
+  ProvenanceResult,
+  summarizeIngredients
+} from './ingredientService';
+import {
+  assertRemoteManifestSupported,
+  createReferencedAsset,
+  getRemoteManifestUrl,
+  getSidecarFileId,
+  normalizeManifestMode,
+  storeRemoteManifest
+} from './manifestStoreService';
+import {
+  getPhotoMetadataFieldPath,
+  normalizePhotoMetadataOptions,
+  preparePhotoMetadata
+} from './photoMetadataService';
+import { applyPrivacyGuard, inspectPrivacy, normalizePrivacyPolicy } from './privacyGuardService';
+import { assertValidSignData } from './signDataValidationService';
+import { createSigner, ResolvedSigner } from './signerService';
+import { getSigningProfile } from './signingProfileService';
+import { createTrainingMiningAssertion } from './trainingMiningService';
+
+// 検証済みの署名オプション
+export interface SigningOptions {
+  ingredientReferences: NormalizedIngredientReference[];
+  actions: NormalizedAction[];
+  trainingMiningAssertion: C2paAssertion | null;
+  creativeWorkAssertion: C2paAssertion | null;
+  photoMetadata: ReturnType<typeof normalizePhotoMetadataOptions>;
+  privacyPolicy: PrivacyPolicy;
+  manifestMode: ManifestMode;
+  // マニフェストテンプレートで指定されたオプション
+  builderOptions: ManifestBuilderOptions;
+}
+
+// 署名結果
+export interface SignedAsset {
+  // 署名済みファイルのID（一時ディレクトリ内のファイル名）
+  fileId: string;
+  outputPath: string;
+  // レスポンスに含める署名の詳細
+  details: {
+    timestamp: { tsaUrl: string | null };
+    ingredients: ReturnType<typeof summarizeIngredients>;
+    provenance: ProvenanceResult;
+    thumbnail: { included: boolean; format: string | null };
+    photoMetadata: { fields: string[] };
+    privacy: { policy: PrivacyPolicy; findings: PrivacyFinding[] };
+    manifestOutput: {
+      mode: ManifestMode;
+      // サイドカーとして出力したマニフェストストア（.c2pa）
+      sidecar: { fileId: string; downloadUrl: string } | null;
+      // リモートマニフェストの参照URL
+      remoteUrl: string | null;
+    };
+  };
+}
+
+// 署名前に構築したマニフェスト
+interface BuiltManifest {
+  manifest: ManifestBuilder;
+  ingredients: PreparedIngredient[];
+  provenance: ProvenanceResult;
+  claimThumbnail: BufferAsset | null;
+  photoMetadataFields: string[];
+  privacyFindings: PrivacyFinding[];
+}
+
+// 署名せずに構築したマニフェストの確認結果
+export interface ManifestPreview {
+  // 署名時にc2pa-nodeへ渡すマニフェスト定義
+  manifest: ManifestBuilder['definition'];
+  details: Omit<SignedAsset['details'], 'timestamp' | 'manifestOutput'> & {
+    manifestOutput: { mode: ManifestMode };
+  };
+  // 署名の失敗や来歴の欠落につながる指定
+  warnings: ManifestPreviewWarning[];
+}
+
+/**
+ * マニフェストを埋め込める形式かどうかを判定する
+ * @param mimeType アセットのMIMEタイプ
+ */
+export function isManifestEmbeddable(mimeType: string): boolean {
+  return config.c2pa.embeddableMimeTypes.includes(mimeType);
+}
+
+/**
+ * 指定の出力方法でマニフェストを出力できるかを検証する
+ * 埋め込めない形式の場合は、サイドカーでの出力を促すエラーを返す
+ * @param mimeType アセットのMIMEタイプ
+ * @param mode マニフェストの出力方法
+ */
+export function assertManifestOutput(mimeType: string, mode: ManifestMode): void {
+  assertRemoteManifestSupported(mimeType, mode);
+  if (mode === 'embedded' && !isManifestEmbeddable(mimeType)) {
+    throw new AppError(
+      400,
+      'MANIFEST_EMBEDDING_UNSUPPORTED',
+      `${mimeType} にはマニフェストを埋め込めません。manifestModeにsidecarを指定して、サイドカー（.c2pa）として出力してください。`,
+      { mimeType, sidecarAvailable: true }
+    );
+  }
+}
+
+/**
+ * 既存ファイルから派生したアセット（編集・形式変換の結果）の署名リクエストを作成する
+ * 元のファイルをparentOf材料とし、c2pa.openedに続けて派生時の処理とリクエストで指定されたアクションを記録する
+ * @param request 署名リクエスト（fileIdは元のファイル）
+ * @param actions 派生時の処理を表すアクション
+ * @returns 派生したアセットの署名リクエスト
+ */
+export function createDerivedSignData(request: SignData, actions: C2paActionInput[]): SignData {
+  const { ingredientFileIds } = request;
+
+  return {
+    ...request,
+    ingredientFileIds: ingredientFileIds === undefined || Array.isArray(ingredientFileIds)
+      ? [{ fileId: request.fileId, relationship: 'parentOf' }, ...(ingredientFileIds || [])]
+      : ingredientFileIds,
+    actions: [{ action: 'c2pa.opened' }, ...actions, ...(request.actions || [])],
+    // 元のファイルは材料として明示的に追加するため、既存マニフェストの自動引き継ぎは行わない
+    preserveProvenance: false,
+  };
+}
+
+/**
+ * 署名リクエストのオプション（材料・アクション・生成AI開示・学習許諾・作品情報・写真メタデータ・個人情報保護）を検証する
+ * ファイルの読み込みや署名者の作成より前に、リクエストの誤りを検出するために使用する
+ * リクエストの構造はスキーマで先に検証し、誤りがあれば422エラーとする
+ * @param signData 署名リクエスト（テンプレートを使用する場合はapplyManifestTemplateの適用後）
+ * @param builderOptions マニフェストテンプレートで指定されたオプション
+ * @returns 検証済みの署名オプション
+ */
+export function prepareSigningOptions(signData: SignData, builderOptions: ManifestBuilderOptions = {}): SigningOptions {
+  assertValidSignData(signData);
+  const { manifestData } = signData;
+
+  return {
+    ingredientReferences: normalizeIngredientReferences(signData.ingredientFileIds, signData.ingredientRelationship),
+    actions: applyAiDisclosure(normalizeActions(signData.actions), signData.aiDisclosure),
+    trainingMiningAssertion: createTrainingMiningAssertion(manifestData.trainingMining, manifestData.assertions),
+    creativeWorkAssertion: createCreativeWorkAssertion(manifestData),
+    photoMetadata: normalizePhotoMetadataOptions(signData.photoMetadata),
+    privacyPolicy: normalizePrivacyPolicy(signData.privacyPolicy),
+    manifestMode: normalizeManifestMode(signData.manifestMode),
+    builderOptions
+  };
+}
+
+/**
+ * 署名リクエストからマニフェスト（アサーション・材料・アクション・サムネイル）を構築する
+ * @param c2pa 材料の作成に使用するC2PAインスタンス
+ * @param fileId 署名対象のファイルID
+ * @param signData 署名リクエスト
+ * @param options prepareSigningOptionsで検証済みの署名オプション
+ * @param profileClaimGenerator 署名プロファイルのクレーム生成者（リクエストで省略された場合に使用）
+ * @param inspectOnly trueの場合、privacyPolicyがwarnでも検出時に中止しない（署名前の確認用）
+ * @returns 構築したマニフェストと、レスポンスに含める処理結果
+ */
+async function buildManifest(
+  c2pa: C2pa,
+  fileId: string,
+  signData: SignData,
+  options: SigningOptions,
+  profileClaimGenerator?: string,
+  inspectOnly = false
+): Promise<BuiltManifest> {
+  const { manifestData } = signData;
+  const tempFilePath = getTempFilePath(fileId);
+  const thumbnailsEnabled = signData.includeThumbnail !== false;
+
+  // マニフェストビルダーを作成
+  const manifest = new ManifestBuilder({
+    claim_generator: manifestData.claimGenerator || profileClaimGenerator || "c2pa-web-app/1.0.0",
+    format: manifestData.format || getMimeType(fileId) as string,
+    title: manifestData.title,
+  }, { vendor: options.builderOptions.vendor });
+
+  // 指定されたアサーション、作品情報（stds.schema-org.CreativeWork）、AI学習・データマイニングの許諾を追加
+  let assertions: C2paAssertion[] = [...(manifestData.assertions || [])];
+  if (options.creativeWorkAssertion) {
+    assertions.push(options.creativeWorkAssertion);
+  }
+  if (options.trainingMiningAssertion) {
+    assertions.push(options.trainingMiningAssertion);
+  }
+
+  // 写真メタデータ（EXIF/IPTC/XMP）の追加
+  let photoMetadataFields: string[] = [];
+  if (options.photoMetadata) {
+    const prepared = await preparePhotoMetadata(tempFilePath, options.photoMetadata);
+    photoMetadataFields = Object.keys(prepared.fields);
+    assertions.push(...prepared.assertions);
+  }
+
+  // 材料をアップロード済みファイルから作成
+  const ingredients: PreparedIngredient[] = await createIngredients(c2pa, options.ingredientReferences, thumbnailsEnabled);
+  let provenance: ProvenanceResult = { found: false, chained: false, activeManifest: null, reason: 'disabled' };
+
+  // 署名対象に既存のマニフェストがあれば、元のファイルを親材料として引き継ぐ
+  if (signData.preserveProvenance !== false) {
+    const chained = await chainExistingProvenance(c2pa, fileId, options.ingredientReferences, thumbnailsEnabled);
+    provenance = chained.provenance;
+    if (chained.ingredient) {
+      ingredients.unshift(chained.ingredient);
+      // c2pa.openedが明示されていない場合のみ自動で記録する
+      if (!hasInitialAction(options.actions)) {
+        assertions = addActions(
+          assertions,
+          [createOpenedAction(chained.ingredient.storable.ingredient.instance_id)],
+          true
+        );
+      }
+    }
+  }
+
+  // テンプレートで指定された場合、親材料がない（新規作成の）アセットにはc2pa.createdを記録する
+  if (
+    options.builderOptions.includeCreatedAction &&
+    !hasInitialAction(options.actions) &&
+    !ingredients.some(ingredient => ingredient.relationship === 'parentOf')
+  ) {
+    assertions = addActions(assertions, createCreatedAction().data.actions as C2paAction[], true);
+  }
+
+  // 指定されたアクションをc2pa.actionsに追加
+  if (options.actions.length > 0) {
+    assertions = addActions(
+      assertions,
+      buildActions(options.actions, ingredients),
+      hasInitialAction(options.actions)
+    );
+  }
+
+  // 位置情報・シリアル番号・所有者名をポリシーに従って処理（マニフェストに残ると削除できないため）
+  const guarded = inspectOnly
+    ? inspectPrivacy(assertions, options.privacyPolicy)
+    : applyPrivacyGuard(assertions, options.privacyPolicy);
+  manifest.definition.assertions = guarded.assertions;
+  photoMetadataFields = photoMetadataFields.filter(key => !guarded.findings.some(
+    finding => finding.action === 'removed' && finding.path === getPhotoMetadataFieldPath(key)
+  ));
+
+  for (const ingredient of ingredients) {
+    manifest.addIngredient(ingredient.storable);
+  }
+
+  // クレームのサムネイルを追加
+  const claimThumbnail = thumbnailsEnabled ? await createThumbnail(tempFilePath) : null;
+  if (claimThumbnail) {
+    await manifest.addThumbnail(claimThumbnail);
+  }
+
+  return {
+    manifest,
+    ingredients,
+    provenance,
+    claimThumbnail,
+    photoMetadataFields,
+    privacyFindings: guarded.findings
+  };
+}
+
+/**
+ * アップロード済みファイルにC2PAマニフェストを埋め込んで署名する
+ * @param fileId 署名対象のファイルID
+ * @param signData 署名リクエスト
+ * @param options prepareSigningOptionsで検証済みの署名オプション
+ * @param baseUrl リクエストを受けたサーバーのURL（サイドカーのダウンロードURLとリモートマニフェストの参照URLに使用）
+ * @returns 署名済みファイルと署名の詳細
+ */
+export async function signAsset(
+  fileId: string,
+  signData: SignData,
+  options: SigningOptions,
+  baseUrl = ''
+): Promise<SignedAsset> {
+  const mimeType = getMimeType(fileId);
+
+  if (!mimeType) {
+    throw new AppError(400, 'UNSUPPORTED_FORMAT', 'サポートされていないファイル形式です。');
+  }
+  const { manifestMode } = options;
+  assertManifestOutput(mimeType, manifestMode);
+
+  // 出力ファイル名を生成（サイドカーは拡張子を.c2paに置き換えた名前で出力される）
+  const outputFileName = `signed_${generateUniqueId()}${path.extname(fileId)}`;
+  const outputPath = path.join(config.tempDir, outputFileName);
+  const sidecarFileId = manifestMode === 'embedded' ? null : getSidecarFileId(outputFileName);
+  const sidecarUrl = sidecarFileId ? `${baseUrl}/api/download?file=${sidecarFileId}` : null;
+
+  // 署名者の作成（リモート、プロファイル、ローカル証明書、テスト署名者のいずれか）
+  let resolvedSigner: ResolvedSigner;
+  try {
+    resolvedSigner = await createSigner({
+      profileId: signData.profileId,
+      certificate: signData.certificate,
+      privateKey: signData.privateKey,
+      pkcs12: signData.pkcs12,
+      useLocalSigner: signData.useLocalSigner,
+      useRemoteSigner: signData.useRemoteSigner,
+      algorithm: signData.algorithm,
+      tsaUrl: signData.tsaUrl
+    });
+  } catch (err) {
+    if (isAppError(err)) {
+      throw err;
+    }
+    console.error("証明書または秘密鍵の処理エラー:", err);
+    throw new AppError(
+      400,
+      'SIGNER_ERROR',
+      "証明書または秘密鍵の処理に失敗しました: " + (err instanceof Error ? err.message : String(err))
+    );
+  }
+  const { signer, profile } = resolvedSigner;
+
+  // C2PAインスタンスを署名者付きで作成
+  // サムネイルは設定（config.c2pa.thumbnailOptions）に従ってこちらで生成する
+  const c2pa = createC2pa({ signer, thumbnail: false });
+  const { manifest, ingredients, provenance, claimThumbnail, photoMetadataFields, privacyFindings } = await buildManifest(
+    c2pa,
+    fileId,
+    signData,
+    options,
+    profile?.claimGenerator
+  );
+
+  // リモートマニフェストの場合は、参照URLをXMPに書き込んだアセットに署名する
+  const remoteManifestId = manifestMode === 'remote' ? generateUniqueId() : null;
+  const remoteUrl = remoteManifestId ? getRemoteManifestUrl(remoteManifestId, baseUrl) : null;
+  const assetFileId = remoteUrl ? await createReferencedAsset(fileId, remoteUrl) : fileId;
+
+  // アセットを準備
+  const asset: FileAsset = {
+    path: getTempFilePath(assetFileId),
+    mimeType
+  };
+
+  try {
+    // 署名を実行
+    console.log("署名処理開始...");
+    await c2pa.sign({
+      asset,
+      manifest,
+      // c2pa-nodeは埋め込まない場合に参照URLを必須とし、アセットのXMPに書き込む
+      // サイドカーでは期限のある一時ファイルのダウンロードURLではなく、アセットと並べるサイドカーのファイル名を参照にする
+      options: sidecarFileId
+        ? {
+            outputPath,
+            embed: false,
+            remoteManifestUrl: remoteUrl || sidecarFileId,
+          }
+        : {
+            outputPath,
+          }
+    });
+
+    // 一時出力ファイルの存在確認
+    await fs.access(outputPath);
+    if (sidecarFileId) {
+      await fs.access(getTempFilePath(sidecarFileId));
+    }
+    if (remoteManifestId && sidecarFileId) {
+      await storeRemoteManifest(remoteManifestId, getTempFilePath(sidecarFileId));
+    }
+  } catch (signError) {
+    console.error("署名実行エラー:", signError);
+
+    // 証明書と秘密鍵の組み合わせは署名前に検証済みのため、ここではエラー内容をそのまま返す
+    let errorMessage = "署名処理に失敗しました";
+    if (signError instanceof Error) {
+      errorMessage += ": " + signError.message;
+    }
+    throw new AppError(500, 'SIGNING_FAILED', errorMessage);
+  } finally {
+    if (assetFileId !== fileId) {
+      await fs.rm(getTempFilePath(assetFileId), { force: true });
+    }
+  }
+
+  return {
+    fileId: outputFileName,
+    outputPath,
+    details: {
+      timestamp: {
+        tsaUrl: resolvedSigner.tsaUrl || null,
+      },
+      ingredients: summarizeIngredients(ingredients),
+      provenance,
+      thumbnail: {
+        included: Boolean(claimThumbnail),
+        format: claimThumbnail?.mimeType || null,
+      },
+      photoMetadata: {
+        fields: photoMetadataFields,
+      },
+      privacy: {
+        policy: options.privacyPolicy,
+        findings: privacyFindings,
+      },
+      manifestOutput: {
+        mode: manifestMode,
+        sidecar: manifestMode === 'sidecar' && sidecarFileId && sidecarUrl
+          ? { fileId: sidecarFileId, downloadUrl: sidecarUrl }
+          : null,
+        remoteUrl,
+      },
+    },
+  };
+}
+
+/**
+ * ローカル署名に使用する証明書チェーンを取得する（PKCS#12の場合は取り出す）
+ */
+function resolveLocalCertificate(certificate: string | undefined, pkcs12: SignData['pkcs12']): string | undefined {
+  return pkcs12 ? resolveKeyMaterial({ pkcs12 }).certificate : certificate;
+}
+
+/**
+ * 署名リクエストからマニフェストを構築し、署名せずに内容と警告を返す
+ * 署名者の作成とファイルの書き込みは行わない
+ * @param fileId 署名対象のファイルID
+ * @param signData 署名リクエスト
+ * @param options prepareSigningOptionsで検証済みの署名オプション
+ * @returns マニフェスト定義、署名時にレスポンスへ含まれる詳細と警告
+ */
+export async function previewManifest(
+  fileId: string,
+  signData: SignData,
+  options: SigningOptions
+): Promise<ManifestPreview> {
+  const mimeType = getMimeType(fileId);
+
+  if (!mimeType) {
+    throw new AppError(400, 'UNSUPPORTED_FORMAT', 'サポートされていないファイル形式です。');
+  }
+  assertManifestOutput(mimeType, options.manifestMode);
+
+  // 署名者の解決順（createSigner）に合わせて、リモート署名以外でプロファイルが指定されていればクレーム生成者を引き継ぐ
+  const { profileId, useRemoteSigner, useLocalSigner, certificate, privateKey, pkcs12 } = signData;
+  const profile = profileId && !useRemoteSigner ? await getSigningProfile(profileId) : undefined;
+
+  // 材料の作成とマニフェストの読み取りのみ行うため、署名者は指定しない
+  const c2pa = createC2pa({ thumbnail: false });
+  const built = await buildManifest(c2pa, fileId, signData, options, profile?.claimGenerator, true);
+
+  const warnings: ManifestPreviewWarning[] = [];
+  if (options.privacyPolicy === 'warn' && built.privacyFindings.length > 0) {
+    warnings.push({
+      code: 'PRIVACY_SENSITIVE_METADATA',
+      message: '位置情報・機器のシリアル番号・所有者名が含まれているため、このままでは署名できません。privacyPolicyにstripまたはcoarsenを指定してください。',
+      details: { findings: built.privacyFindings }
+    });
+  }
+  for (const ingredient of built.ingredients) {
+    if (ingredient.validationStatus.length > 0) {
+      warnings.push({
+        code: 'INGREDIENT_VALIDATION_FAILED',
+        message: `材料 ${ingredient.fileId} のマニフェストに検証エラーがあります。`,
+        details: { fileId: ingredient.fileId, validationStatus: ingredient.validationStatus }
+      });
+    }
+  }
+  if (built.provenance.reason === 'read_failed') {
+    warnings.push({
+      code: 'PROVENANCE_READ_FAILED',
+      message: '署名対象の既存マニフェストを読み取れなかったため、来歴は引き継がれません。'
+    });
+  }
+  if (signData.includeThumbnail !== false && !built.claimThumbnail) {
+    warnings.push({ code: 'THUMBNAIL_UNAVAILABLE', message: 'クレームのサムネイルを生成できませんでした。' });
+  }
+  // 署名証明書がC2PAの証明書プロファイルに適合しない場合は、検証で信頼されないため知らせる
+  // PKCS#12は証明書の取り出しにパスワードが必要なため、復号できない場合はエラーとする
+  const signerCertificate = useRemoteSigner
+    ? undefined
+    : profile?.certificate || (useLocalSigner ? resolveLocalCertificate(certificate?.content, pkcs12) : undefined);
+  if (signerCertificate) {
+    const violations = inspectCertificateChain(signerCertificate).issues.filter(issue => issue.severity === 'error');
+    if (violations.length > 0) {
+      warnings.push({
+        code: 'CERTIFICATE_PROFILE_VIOLATION',
+        message: '署名証明書がC2PAの証明書プロファイルに適合していません。詳細は /api/c2pa/certificates/inspect で確認できます。',
+        details: { issues: violations }
+      });
+    }
+  }
+  if (!useRemoteSigner && !profile) {
+    if (useLocalSigner && (!certificate || !privateKey) && !pkcs12) {
+      warnings.push({ code: 'SIGNER_CREDENTIALS_MISSING', message: 'ローカル署名には証明書と秘密鍵、またはPKCS#12が必要です。' });
+    } else if (!useLocalSigner) {
+      warnings.push({
+        code: 'TEST_SIGNER',
+        message: 'テスト署名者で署名されるため、検証時に信頼された署名者として扱われません。'
+      });
+    }
+  }
+
+  return {
+    manifest: built.manifest.definition,
+    details: {
+      ingredients: summarizeIngredients(built.ingredients),
+      provenance: built.provenance,
+      thumbnail: {
+        included: Boolean(built.claimThumbnail),
+        format: built.claimThumbnail?.mimeType || null,
+      },
+      photoMetadata: {
+        fields: built.photoMetadataFields,
+      },
+      privacy: {
+        policy: options.privacyPolicy,
+        findings: built.privacyFindings,
+      },
+      manifestOutput: {
+        mode: options.manifestMode,
+      },
+    },
+    warnings
+  };
+}
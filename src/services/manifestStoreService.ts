@@ -0,0 +1,244 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FileAsset, ResolvedManifestStore } from 'c2pa-node';
+import { config } from '../config';
+import { ManifestMode } from '../types';
+import { AppError } from '../utils/errors';
+import { generateUniqueId, getMimeType, getTempFilePath, isValidFileId } from '../utils/fileUtils';
+import { extractManifestStore, readSignerCertificates } from '../utils/jumbfUtils';
+import { invalidField } from '../utils/schemaUtils';
+import { readXmpProvenance, writeXmpProvenance, XMP_WRITABLE_MIME_TYPES } from '../utils/xmpUtils';
+
+const MANIFEST_MODES: ManifestMode[] = ['embedded', 'sidecar', 'remote'];
+
+// リモートマニフェスト関連の設定
+const remoteConfig = config.c2pa.remoteManifests;
+const MANIFEST_EXTENSION = config.manifestStoreFormat.extension;
+
+// マニフェストストアを読み取れるC2PAインスタンス
+interface ManifestReader {
+  read(asset: FileAsset): Promise<ResolvedManifestStore | null>;
+}
+
+/**
+ * マニフェストの出力方法を検証する
+ * @param mode リクエストで指定された出力方法（省略時は埋め込み）
+ */
+export function normalizeManifestMode(mode: unknown): ManifestMode {
+  if (mode === undefined || mode === null) {
+    return 'embedded';
+  }
+  if (!MANIFEST_MODES.includes(mode as ManifestMode)) {
+    throw invalidField(
+      'INVALID_MANIFEST_MODE',
+      '$.manifestMode',
+      `manifestModeは ${MANIFEST_MODES.join(', ')} のいずれかで指定してください。`
+    );
+  }
+  return mode as ManifestMode;
+}
+
+/**
+ * 参照URLをXMPに書き込めない形式でremoteを指定していないかを検証する
+ * @param mimeType アセットのMIMEタイプ
+ * @param mode マニフェストの出力方法
+ */
+export function assertRemoteManifestSupported(mimeType: string, mode: ManifestMode): void {
+  if (mode === 'remote' && !XMP_WRITABLE_MIME_TYPES.includes(mimeType)) {
+    throw new AppError(
+      400,
+      'REMOTE_MANIFEST_UNSUPPORTED',
+      `${mimeType} にはリモートマニフェストの参照を書き込めません。${XMP_WRITABLE_MIME_TYPES.join('、')}を使用するか、manifestModeにsidecarを指定してください。`,
+      { mimeType, supportedMimeTypes: XMP_WRITABLE_MIME_TYPES }
+    );
+  }
+}
+
+/**
+ * サイドカーのファイル名（アセットの拡張子を.c2paに置き換えた名前）を取得する
+ * @param fileId アセットのファイルID
+ */
+export function getSidecarFileId(fileId: string): string {
+  return `${path.basename(fileId, path.extname(fileId))}${MANIFEST_EXTENSION}`;
+}
+
+/**
+ * リモートマニフェストのIDが有効かどうかをチェックする
+ */
+function isValidManifestId(manifestId: string): boolean {
+  return /^[a-f0-9]{32}$/.test(manifestId);
+}
+
+/**
+ * リモートマニフェストの保存パスを取得する
+ * @param manifestId リモートマニフェストのID
+ * @returns 保存パス（IDが無効な場合はnull）
+ */
+export function getRemoteManifestPath(manifestId: string): string | null {
+  return isValidManifestId(manifestId) ? path.join(remoteConfig.storageDir, `${manifestId}${MANIFEST_EXTENSION}`) : null;
+}
+
+/**
+ * リモートマニフェストの参照URLを作成する
+ * @param manifestId リモートマニフェストのID
+ * @param baseUrl リクエストを受けたサーバーのURL（REMOTE_MANIFEST_BASE_URLが未設定の場合に使用）
+ */
+export function getRemoteManifestUrl(manifestId: string, baseUrl = ''): string {
+  return `${remoteConfig.publicBaseUrl || baseUrl}/api/c2pa/manifests/${manifestId}`;
+}
+
+/**
+ * リモートマニフェストの参照URLをXMPに書き込んだアセットの一時ファイルを作成する
+ * 参照は署名前に書き込むため、アセットのハッシュに含まれる
+ * @param fileId アセットのファイルID
+ * @param url リモートマニフェストの参照URL
+ * @returns 作成した一時ファイルのID
+ */
+export async function createReferencedAsset(fileId: string, url: string): Promise<string> {
+  const mimeType = getMimeType(fileId) as string;
+  const referencedFileId = `remote_${generateUniqueId()}${path.extname(fileId)}`;
+
+  let referenced: Buffer;
+  try {
+    referenced = writeXmpProvenance(await fs.readFile(getTempFilePath(fileId)), mimeType, url);
+  } catch (error) {
+    throw new AppError(400, 'REMOTE_MANIFEST_UNSUPPORTED', 'アセットにリモートマニフェストの参照を書き込めませんでした。', {
+      reason: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  await fs.writeFile(getTempFilePath(referencedFileId), referenced);
+  return referencedFileId;
+}
+
+/**
+ * 署名時に出力されたサイドカーをリモートマニフェストとして保存する
+ * @param manifestId リモートマニフェストのID
+ * @param sidecarPath 署名時に出力されたサイドカーのパス
+ */
+export async function storeRemoteManifest(manifestId: string, sidecarPath: string): Promise<void> {
+  await fs.mkdir(remoteConfig.storageDir, { recursive: true });
+  const destination = path.join(remoteConfig.storageDir, `${manifestId}${MANIFEST_EXTENSION}`);
+
+  try {
+    await fs.rename(sidecarPath, destination);
+  } catch (error) {
+    // 一時ディレクトリと保存先が別のファイルシステムの場合はコピーする
+    await fs.copyFile(sidecarPath, destination);
+    await fs.unlink(sidecarPath);
+  }
+}
+
+/**
+ * 読み取り・検証リクエストで指定されたサイドカーのファイルIDを検証する
+ * @param sidecarFileId サイドカー（.c2pa）のファイルID（省略可）
+ * @returns 検証済みのファイルID（省略時はnull）
+ */
+export async function resolveSidecarFileId(sidecarFileId: unknown): Promise<string | null> {
+  if (sidecarFileId === undefined || sidecarFileId === null) {
+    return null;
+  }
+  if (
+    typeof sidecarFileId !== 'string' ||
+    !isValidFileId(sidecarFileId) ||
+    path.extname(sidecarFileId).toLowerCase() !== MANIFEST_EXTENSION
+  ) {
+    throw new AppError(400, 'INVALID_SIDECAR', `sidecarFileIdには${MANIFEST_EXTENSION}ファイルのIDを指定してください。`, {
+      field: 'sidecarFileId'
+    });
+  }
+
+  try {
+    await fs.access(getTempFilePath(sidecarFileId));
+  } catch (error) {
+    throw new AppError(404, 'SIDECAR_NOT_FOUND', '指定されたサイドカーが見つかりません。', { field: 'sidecarFileId' });
+  }
+  return sidecarFileId;
+}
+
+/**
+ * アセットのマニフェストストアを読み取る
+ * サイドカーが指定された場合は、同じ名前（拡張子のみ異なる）で並べた一時ファイルから読み取る
+ * アセットにマニフェストが埋め込まれている場合はそちらが優先される
+ * @param c2pa C2PAインスタンス
+ * @param fileId アセットのファイルID
+ * @param sidecarFileId サイドカー（.c2pa）のファイルID
+ * @returns マニフェストストア（存在しない場合はnull）
+ */
+export async function readManifestStore(
+  c2pa: ManifestReader,
+  fileId: string,
+  sidecarFileId: string | null = null
+): Promise<ResolvedManifestStore | null> {
+  const mimeType = getMimeType(fileId) as string;
+
+  if (!sidecarFileId) {
+    return c2pa.read({ path: getTempFilePath(fileId), mimeType });
+  }
+
+  const pairedFileId = `sidecar_${generateUniqueId()}${path.extname(fileId)}`;
+  const pairedSidecarId = getSidecarFileId(pairedFileId);
+  try {
+    await fs.copyFile(getTempFilePath(fileId), getTempFilePath(pairedFileId));
+    await fs.copyFile(getTempFilePath(sidecarFileId), getTempFilePath(pairedSidecarId));
+    return await c2pa.read({ path: getTempFilePath(pairedFileId), mimeType });
+  } finally {
+    await Promise.all([pairedFileId, pairedSidecarId].map(id => fs.rm(getTempFilePath(id), { force: true })));
+  }
+}
+
+/**
+ * XMPの参照URLが指すこのサーバーのリモートマニフェストを読み込む
+ * 他のサーバーのURLは取得しない
+ */
+async function readReferencedManifest(asset: Buffer): Promise<Buffer | null> {
+  const url = readXmpProvenance(asset);
+  const manifestId = url?.match(/\/api\/c2pa\/manifests\/([^/?#]+)$/)?.[1];
+  const manifestPath = manifestId ? getRemoteManifestPath(manifestId) : null;
+  if (!manifestPath) {
+    return null;
+  }
+  try {
+    return await fs.readFile(manifestPath);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * アセットの署名証明書チェーンを読み取る
+ * マニフェストストアはreadManifestStoreと同じく、埋め込み、サイドカー、XMPの参照URLの順に探す
+ * @param fileId アセットのファイルID
+ * @param sidecarFileId サイドカー（.c2pa）のファイルID
+ * @param manifestLabel マニフェストのラベル（省略時はアクティブマニフェスト）
+ * @returns リーフ証明書を先頭にした証明書チェーン（DER）
+ */
+export async function readSignerCertificateChain(
+  fileId: string,
+  sidecarFileId: string | null,
+  manifestLabel?: string | null
+): Promise<Buffer[]> {
+  const asset = await fs.readFile(getTempFilePath(fileId));
+  const mimeType = getMimeType(fileId) as string;
+
+  let manifestStore: Buffer | null = null;
+  try {
+    manifestStore = extractManifestStore(asset, mimeType);
+  } catch (error) {
+    // 埋め込みを読み取れない形式でも、サイドカーやリモートマニフェストは読み取れる
+    if (!sidecarFileId && !XMP_WRITABLE_MIME_TYPES.includes(mimeType)) {
+      throw error;
+    }
+  }
+  if (!manifestStore && sidecarFileId) {
+    manifestStore = await fs.readFile(getTempFilePath(sidecarFileId));
+  }
+  if (!manifestStore) {
+    manifestStore = await readReferencedManifest(asset);
+  }
+  if (!manifestStore) {
+    throw new Error('アセットからマニフェストストアを取得できません。');
+  }
+
+  return readSignerCertificates(manifestStore, manifestLabel);
+}
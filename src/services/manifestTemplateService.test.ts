@@ -0,0 +1,62 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { SignData } from '../types';
+import { validateSignData } from './signDataValidationService';
+
+// テンプレートの保存先は設定の読み込み時に決まるため、一時ディレクトリを指定してから読み込む
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-template-test-'));
+process.env.MANIFEST_TEMPLATE_DIR = workDir;
+process.env.TEMP_DIR = workDir;
+
+type TemplateService = typeof import('./manifestTemplateService');
+
+describe('applyManifestTemplate', () => {
+  let service: TemplateService;
+  let templateId: string;
+
+  before(async () => {
+    service = await import('./manifestTemplateService');
+    const template = await service.createManifestTemplate({
+      name: 'test',
+      manifestData: {
+        title: '{{filename}}',
+        assertions: [{ label: 'com.example.template', data: { value: 1 } }],
+        creativeWork: { license: 'https://example.com/license' }
+      }
+    });
+    templateId = template.id;
+  });
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const apply = (manifestData: Record<string, unknown>) =>
+    service.applyManifestTemplate({ fileId: 'file.jpg', templateId, manifestData } as unknown as SignData);
+
+  test('テンプレートとリクエストのassertionsを連結する', async () => {
+    const { signData } = await apply({ assertions: [{ label: 'com.example.request', data: {} }] });
+    assert.deepEqual(
+      signData.manifestData.assertions?.map(assertion => assertion.label),
+      ['com.example.template', 'com.example.request']
+    );
+    assert.deepEqual(validateSignData(signData), []);
+  });
+
+  for (const assertions of [{}, 'abc']) {
+    test(`配列でないassertions（${JSON.stringify(assertions)}）はそのまま渡しスキーマの検証で報告する`, async () => {
+      const { signData } = await apply({ assertions });
+      assert.deepEqual(signData.manifestData.assertions, assertions);
+      assert.deepEqual(validateSignData(signData).map(error => error.path), ['$.manifestData.assertions']);
+    });
+  }
+
+  test('オブジェクトでないcreativeWorkはそのまま渡しスキーマの検証で報告する', async () => {
+    const { signData } = await apply({ creativeWork: 'abc' });
+    assert.equal(signData.manifestData.creativeWork, 'abc');
+    assert.deepEqual(validateSignData(signData).map(error => error.path), ['$.manifestData.creativeWork']);
+  });
+});
@@ -0,0 +1,325 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config';
+import { ManifestBuilderOptions, ManifestTemplate, ManifestTemplateInput, SignData } from '../types';
+import { AppError } from '../utils/errors';
+import { generateUniqueId, getOriginalFileName } from '../utils/fileUtils';
+import { invalidField } from '../utils/schemaUtils';
+import { normalizeActions } from './actionService';
+
+// マニフェストテンプレートの保存先
+const TEMPLATE_DIR = config.c2pa.manifestTemplates.storageDir;
+
+// テンプレート名の最大長
+const MAX_NAME_LENGTH = 100;
+
+// プレースホルダー（例: {{filename}}、{{ user }}）
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+// マニフェストのラベルの接頭辞として使用できるベンダー名
+const VENDOR_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * テンプレートIDが有効かどうかをチェックする
+ */
+function isValidTemplateId(templateId: string): boolean {
+  return /^[a-f0-9]{32}$/.test(templateId);
+}
+
+/**
+ * テンプレートの保存パスを取得する
+ */
+function getTemplatePath(templateId: string): string {
+  return path.join(TEMPLATE_DIR, `${templateId}.json`);
+}
+
+/**
+ * オブジェクト（配列以外）かどうかを判定する
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * テンプレートの不正を表すエラーを作成する
+ */
+function invalidTemplate(field: string, message: string): AppError {
+  return new AppError(400, 'INVALID_MANIFEST_TEMPLATE', message, { field });
+}
+
+/**
+ * テンプレートのマニフェストビルダーオプションを検証する
+ */
+function validateBuilderOptions(options: unknown): ManifestBuilderOptions | undefined {
+  if (options === undefined) {
+    return undefined;
+  }
+  if (!isPlainObject(options)) {
+    throw invalidTemplate('options', 'optionsはオブジェクトで指定してください。');
+  }
+
+  const { vendor, includeCreatedAction, includeThumbnail } = options;
+  if (vendor !== undefined && (typeof vendor !== 'string' || !VENDOR_PATTERN.test(vendor))) {
+    throw invalidTemplate('options.vendor', 'options.vendorには英数字・ドット・ハイフン・アンダースコアのみを使用してください。');
+  }
+  if (includeCreatedAction !== undefined && typeof includeCreatedAction !== 'boolean') {
+    throw invalidTemplate('options.includeCreatedAction', 'options.includeCreatedActionは真偽値で指定してください。');
+  }
+  if (includeThumbnail !== undefined && typeof includeThumbnail !== 'boolean') {
+    throw invalidTemplate('options.includeThumbnail', 'options.includeThumbnailは真偽値で指定してください。');
+  }
+
+  return {
+    ...(vendor !== undefined ? { vendor: vendor as string } : {}),
+    ...(includeCreatedAction !== undefined ? { includeCreatedAction: includeCreatedAction as boolean } : {}),
+    ...(includeThumbnail !== undefined ? { includeThumbnail: includeThumbnail as boolean } : {})
+  };
+}
+
+/**
+ * テンプレート作成・更新リクエストを検証する
+ * アクションは署名時と同じ規則で検証する（プレースホルダーを含む値はそのまま保存する）
+ */
+function validateTemplateInput(input: ManifestTemplateInput): ManifestTemplateInput {
+  if (!isPlainObject(input) || typeof input.name !== 'string' || !input.name.trim()) {
+    throw invalidTemplate('name', 'テンプレート名は必須です。');
+  }
+  if (input.name.trim().length > MAX_NAME_LENGTH) {
+    throw invalidTemplate('name', `テンプレート名は${MAX_NAME_LENGTH}文字以内で指定してください。`);
+  }
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    throw invalidTemplate('description', 'descriptionは文字列で指定してください。');
+  }
+  if (!isPlainObject(input.manifestData)) {
+    throw invalidTemplate('manifestData', 'manifestDataはオブジェクトで指定してください。');
+  }
+  if (input.manifestData.assertions !== undefined && !Array.isArray(input.manifestData.assertions)) {
+    throw invalidTemplate('manifestData.assertions', 'manifestData.assertionsは配列で指定してください。');
+  }
+  normalizeActions(input.actions);
+
+  return {
+    name: input.name.trim(),
+    ...(input.description !== undefined ? { description: input.description } : {}),
+    manifestData: input.manifestData,
+    ...(input.actions !== undefined ? { actions: input.actions } : {}),
+    ...(input.options !== undefined ? { options: validateBuilderOptions(input.options) } : {})
+  };
+}
+
+/**
+ * テンプレートを保存する
+ */
+async function writeTemplate(template: ManifestTemplate): Promise<void> {
+  await fs.mkdir(TEMPLATE_DIR, { recursive: true });
+  await fs.writeFile(getTemplatePath(template.id), JSON.stringify(template, null, 2));
+}
+
+/**
+ * マニフェストテンプレートを取得する
+ * @param templateId テンプレートID
+ */
+export async function getManifestTemplate(templateId: string): Promise<ManifestTemplate> {
+  if (typeof templateId !== 'string' || !isValidTemplateId(templateId)) {
+    throw new AppError(400, 'INVALID_TEMPLATE_ID', '無効なマニフェストテンプレートIDです。');
+  }
+
+  try {
+    const content = await fs.readFile(getTemplatePath(templateId), 'utf8');
+    return JSON.parse(content);
+  } catch (error) {
+    throw new AppError(404, 'MANIFEST_TEMPLATE_NOT_FOUND', '指定されたマニフェストテンプレートが見つかりません。');
+  }
+}
+
+/**
+ * マニフェストテンプレートの一覧を取得する
+ * @returns 作成日時順のテンプレート
+ */
+export async function listManifestTemplates(): Promise<ManifestTemplate[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(TEMPLATE_DIR);
+  } catch (error) {
+    return [];
+  }
+
+  const templates: ManifestTemplate[] = [];
+  for (const file of files) {
+    if (path.extname(file) !== '.json' || !isValidTemplateId(path.basename(file, '.json'))) {
+      continue;
+    }
+    try {
+      templates.push(JSON.parse(await fs.readFile(path.join(TEMPLATE_DIR, file), 'utf8')));
+    } catch (error) {
+      console.error(`マニフェストテンプレートの読み込みに失敗しました: ${file}`, error);
+    }
+  }
+
+  return templates.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * マニフェストテンプレートを登録する
+ * @param input テンプレートの内容
+ * @returns 登録したテンプレート
+ */
+export async function createManifestTemplate(input: ManifestTemplateInput): Promise<ManifestTemplate> {
+  const validated = validateTemplateInput(input);
+  const now = new Date().toISOString();
+  const template: ManifestTemplate = {
+    id: generateUniqueId(),
+    ...validated,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await writeTemplate(template);
+  return template;
+}
+
+/**
+ * マニフェストテンプレートを置き換える
+ * @param templateId テンプレートID
+ * @param input テンプレートの内容
+ * @returns 更新したテンプレート
+ */
+export async function updateManifestTemplate(templateId: string, input: ManifestTemplateInput): Promise<ManifestTemplate> {
+  const existing = await getManifestTemplate(templateId);
+  const validated = validateTemplateInput(input);
+  const template: ManifestTemplate = {
+    id: existing.id,
+    ...validated,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString()
+  };
+
+  await writeTemplate(template);
+  return template;
+}
+
+/**
+ * マニフェストテンプレートを削除する
+ * @param templateId テンプレートID
+ */
+export async function deleteManifestTemplate(templateId: string): Promise<void> {
+  await getManifestTemplate(templateId);
+  await fs.unlink(getTemplatePath(templateId));
+}
+
+/**
+ * 値に含まれる文字列のプレースホルダーを置き換える
+ * @param value 置き換える値（オブジェクトと配列は再帰的に処理する）
+ * @param variables プレースホルダーの値
+ * @param missing 値がなかったプレースホルダーの名前を追加する
+ */
+function fillPlaceholders<T>(value: T, variables: Record<string, string>, missing: Set<string>): T {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+      if (variables[name] === undefined) {
+        missing.add(name);
+        return placeholder;
+      }
+      return variables[name];
+    }) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillPlaceholders(item, variables, missing)) as unknown as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fillPlaceholders(item, variables, missing)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * テンプレートのプレースホルダーに埋め込む値を作成する
+ * filenameはアップロード時の元のファイル名（不明な場合はファイルID）、dateは署名日（YYYY-MM-DD）で、templateVariablesで上書きできる
+ * userなどそれ以外の値はサーバーで決められないため、templateVariablesでの指定が必要
+ */
+async function createTemplateVariables(signData: SignData): Promise<Record<string, string>> {
+  const { templateVariables } = signData;
+
+  if (
+    templateVariables !== undefined &&
+    (!isPlainObject(templateVariables) || Object.values(templateVariables).some(value => typeof value !== 'string'))
+  ) {
+    throw invalidField('INVALID_TEMPLATE_VARIABLES', '$.templateVariables', 'templateVariablesは文字列の値を持つオブジェクトで指定してください。');
+  }
+
+  return {
+    filename: (await getOriginalFileName(signData.fileId)) || signData.fileId,
+    date: new Date().toISOString().slice(0, 10),
+    ...templateVariables
+  };
+}
+
+/**
+ * 署名リクエストにマニフェストテンプレートを適用する
+ * - manifestData: リクエストの項目でテンプレートの項目を上書きする（assertionsは連結、creativeWorkは項目単位で上書き）
+ * - actions: テンプレートのアクションの後にリクエストのアクションを記録する
+ * - includeThumbnail: リクエストで省略された場合はテンプレートのoptions.includeThumbnailを使用する
+ * @param signData 署名リクエスト（templateIdがない場合はそのまま返す）
+ * @returns テンプレートを適用した署名リクエストと、マニフェストビルダーのオプション
+ */
+export async function applyManifestTemplate(
+  signData: SignData
+): Promise<{ signData: SignData; builderOptions: ManifestBuilderOptions; template: ManifestTemplate | null }> {
+  if (signData.templateId === undefined || signData.templateId === null) {
+    return { signData, builderOptions: {}, template: null };
+  }
+
+  const template = await getManifestTemplate(signData.templateId);
+  const request = signData.manifestData;
+  // オブジェクトでないmanifestDataはそのまま渡し、署名リクエストのスキーマの検証でエラーにする
+  if (request !== undefined && !isPlainObject(request)) {
+    return { signData, builderOptions: {}, template };
+  }
+
+  // テンプレート由来の値のみプレースホルダーを置き換える（リクエストの値はそのまま使用する）
+  const missing = new Set<string>();
+  const variables = await createTemplateVariables(signData);
+  const templateData = fillPlaceholders(template.manifestData, variables, missing);
+  const templateActions = fillPlaceholders(template.actions || [], variables, missing);
+  if (missing.size > 0) {
+    throw new AppError(
+      400,
+      'TEMPLATE_VARIABLE_MISSING',
+      `テンプレートのプレースホルダーに値が指定されていません: ${[...missing].join(', ')}。templateVariablesで指定してください。`,
+      { variables: [...missing] }
+    );
+  }
+
+  // 配列でないassertions・オブジェクトでないcreativeWorkはそのまま渡し、署名リクエストのスキーマの検証でエラーにする
+  const assertions = request?.assertions === undefined || Array.isArray(request.assertions)
+    ? [...(templateData.assertions || []), ...(request?.assertions || [])]
+    : request.assertions;
+  const creativeWork = request?.creativeWork === undefined || isPlainObject(request.creativeWork)
+    ? templateData.creativeWork || request?.creativeWork
+      ? { ...templateData.creativeWork, ...request?.creativeWork }
+      : undefined
+    : request.creativeWork;
+  // 配列でないactionsはそのまま渡し、署名オプションの検証でエラーにする
+  const actions = signData.actions === undefined || Array.isArray(signData.actions)
+    ? [...templateActions, ...(signData.actions || [])]
+    : signData.actions;
+  const includeThumbnail = signData.includeThumbnail ?? template.options?.includeThumbnail;
+
+  return {
+    signData: {
+      ...signData,
+      manifestData: {
+        ...templateData,
+        ...request,
+        assertions,
+        ...(creativeWork ? { creativeWork } : {})
+      } as SignData['manifestData'],
+      ...(templateActions.length > 0 ? { actions } : {}),
+      ...(includeThumbnail !== undefined ? { includeThumbnail } : {})
+    },
+    builderOptions: template.options || {},
+    template
+  };
+}
@@ -0,0 +1,479 @@
+import sharp from 'sharp';
+import { config } from '../config';
+import { C2paAssertion, PhotoMetadataOptions, PhotoMetadataValue } from '../types';
+import { AppError } from '../utils/errors';
+import {
+  ExifRational,
+  ExifTags,
+  ExifValue,
+  IptcDatasets,
+  parseExif,
+  parseIptc,
+  rationalToNumber,
+  readXmpProperty
+} from '../utils/imageMetadataUtils';
+import { invalidField, propertyPath } from '../utils/schemaUtils';
+
+// 写真メタデータのアサーションラベル
+export const EXIF_ASSERTION_LABEL = 'stds.exif';
+export const IPTC_ASSERTION_LABEL = 'stds.iptc.photo-metadata';
+
+// アサーションごとのJSON-LDコンテキスト
+const ASSERTION_CONTEXTS: Record<string, Record<string, string>> = {
+  [EXIF_ASSERTION_LABEL]: {
+    exif: 'http://ns.adobe.com/exif/1.0/',
+    exifEX: 'http://cipa.jp/exif/2.32/',
+    tiff: 'http://ns.adobe.com/tiff/1.0/'
+  },
+  [IPTC_ASSERTION_LABEL]: {
+    dc: 'http://purl.org/dc/elements/1.1/',
+    photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+    Iptc4xmpCore: 'http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/'
+  }
+};
+
+// 抽出元ごとの読み取り結果
+interface MetadataSources {
+  exif: ExifTags | null;
+  iptc: IptcDatasets;
+  xmp: string | null;
+}
+
+// 抽出できる項目の定義
+interface PhotoMetadataField {
+  assertion: typeof EXIF_ASSERTION_LABEL | typeof IPTC_ASSERTION_LABEL;
+  type: 'string' | 'number' | 'list';
+  exif?: (tags: ExifTags) => PhotoMetadataValue | undefined;
+  // IPTC-IIMのデータセット（レコード番号:データセット番号）
+  iptc?: string;
+  // XMPのプロパティ名（先に見つかったものを使用）
+  xmp?: string[];
+}
+
+/**
+ * EXIFの文字列タグを取得する
+ */
+function exifString(value: ExifValue | undefined): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * EXIFの数値タグを取得する
+ */
+function exifNumber(value: ExifValue | undefined): number | undefined {
+  const number = rationalToNumber(Array.isArray(value) ? value[0] : value);
+  return number === undefined ? undefined : Math.round(number * 10000) / 10000;
+}
+
+/**
+ * EXIFの日時（YYYY:MM:DD HH:MM:SS）をISO 8601形式に変換する
+ */
+function exifDateTime(value: ExifValue | undefined, offset?: ExifValue): string | undefined {
+  const match = typeof value === 'string' ? value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/) : null;
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  const timezone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${timezone}`;
+}
+
+/**
+ * EXIFのGPS座標をXMPの形式（例: 35,39.5123N）に変換する
+ */
+function exifCoordinate(value: ExifValue | undefined, reference: ExifValue | undefined): string | undefined {
+  if (!Array.isArray(value) || value.length !== 3 || typeof reference !== 'string') {
+    return undefined;
+  }
+  const [degrees, minutes, seconds] = (value as ExifRational[]).map(part => rationalToNumber(part) ?? 0);
+  const totalMinutes = minutes + seconds / 60;
+  return `${Math.trunc(degrees)},${totalMinutes.toFixed(4)}${reference}`;
+}
+
+/**
+ * EXIFのGPS日時をISO 8601形式に変換する
+ */
+function exifGpsTimestamp(tags: ExifTags): string | undefined {
+  const date = tags.gps[0x1d];
+  const time = tags.gps[0x07];
+  if (typeof date !== 'string' || !Array.isArray(time) || time.length !== 3) {
+    return undefined;
+  }
+  const [hour, minute, second] = (time as ExifRational[]).map(part => Math.trunc(rationalToNumber(part) ?? 0));
+  const pad = (number: number) => String(number).padStart(2, '0');
+  return `${date.replace(/:/g, '-')}T${pad(hour)}:${pad(minute)}:${pad(second)}Z`;
+}
+
+/**
+ * EXIFの露出時間を分数表記に変換する
+ */
+function exifExposureTime(value: ExifValue | undefined): string | undefined {
+  if (value && typeof value === 'object' && 'numerator' in value && value.denominator !== 0) {
+    const { numerator, denominator } = value;
+    return numerator === 1 || numerator >= denominator
+      ? `${numerator}/${denominator}`
+      : `1/${Math.round(denominator / numerator)}`;
+  }
+  return undefined;
+}
+
+// 抽出できる項目（キーはXMPの名前空間接頭辞付きプロパティ名）
+export const PHOTO_METADATA_FIELDS: Record<string, PhotoMetadataField> = {
+  'tiff:Make': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifString(tags.image[0x010f]), xmp: ['tiff:Make']
+  },
+  'tiff:Model': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifString(tags.image[0x0110]), xmp: ['tiff:Model']
+  },
+  'exifEX:LensMake': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifString(tags.exif[0xa433]), xmp: ['exifEX:LensMake']
+  },
+  'exifEX:LensModel': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifString(tags.exif[0xa434]), xmp: ['exifEX:LensModel', 'aux:Lens']
+  },
+  'exif:ExposureTime': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifExposureTime(tags.exif[0x829a]), xmp: ['exif:ExposureTime']
+  },
+  'exif:FNumber': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'number',
+    exif: tags => exifNumber(tags.exif[0x829d]), xmp: ['exif:FNumber']
+  },
+  'exif:PhotographicSensitivity': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'number',
+    exif: tags => exifNumber(tags.exif[0x8827]), xmp: ['exifEX:PhotographicSensitivity', 'exif:ISOSpeedRatings']
+  },
+  'exif:FocalLength': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'number',
+    exif: tags => exifNumber(tags.exif[0x920a]), xmp: ['exif:FocalLength']
+  },
+  'exif:ExposureBiasValue': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'number',
+    exif: tags => exifNumber(tags.exif[0x9204]), xmp: ['exif:ExposureBiasValue']
+  },
+  'exif:DateTimeOriginal': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifDateTime(tags.exif[0x9003], tags.exif[0x9011]), xmp: ['exif:DateTimeOriginal']
+  },
+  'exif:GPSLatitude': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifCoordinate(tags.gps[0x02], tags.gps[0x01]), xmp: ['exif:GPSLatitude']
+  },
+  'exif:GPSLongitude': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifCoordinate(tags.gps[0x04], tags.gps[0x03]), xmp: ['exif:GPSLongitude']
+  },
+  'exif:GPSAltitude': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'number',
+    exif: tags => {
+      const altitude = exifNumber(tags.gps[0x06]);
+      return altitude !== undefined && tags.gps[0x05] instanceof Buffer && tags.gps[0x05][0] === 1 ? -altitude : altitude;
+    },
+    xmp: ['exif:GPSAltitude']
+  },
+  'exif:GPSTimeStamp': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: exifGpsTimestamp, xmp: ['exif:GPSTimeStamp']
+  },
+  'exifEX:BodySerialNumber': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifString(tags.exif[0xa431]), xmp: ['exifEX:BodySerialNumber', 'aux:SerialNumber']
+  },
+  'exifEX:LensSerialNumber': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifString(tags.exif[0xa435]), xmp: ['exifEX:LensSerialNumber', 'aux:LensSerialNumber']
+  },
+  'exifEX:CameraOwnerName': {
+    assertion: EXIF_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifString(tags.exif[0xa430]), xmp: ['exifEX:CameraOwnerName', 'aux:OwnerName']
+  },
+  'dc:creator': {
+    assertion: IPTC_ASSERTION_LABEL, type: 'list',
+    exif: tags => {
+      const artist = exifString(tags.image[0x013b]);
+      return artist ? [artist] : undefined;
+    },
+    iptc: '2:80', xmp: ['dc:creator']
+  },
+  'dc:rights': {
+    assertion: IPTC_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifString(tags.image[0x8298]), iptc: '2:116', xmp: ['dc:rights']
+  },
+  'dc:title': {
+    assertion: IPTC_ASSERTION_LABEL, type: 'string',
+    iptc: '2:5', xmp: ['dc:title']
+  },
+  'dc:description': {
+    assertion: IPTC_ASSERTION_LABEL, type: 'string',
+    exif: tags => exifString(tags.image[0x010e]), iptc: '2:120', xmp: ['dc:description']
+  },
+  'dc:subject': {
+    assertion: IPTC_ASSERTION_LABEL, type: 'list',
+    iptc: '2:25', xmp: ['dc:subject']
+  },
+  'photoshop:DateCreated': {
+    assertion: IPTC_ASSERTION_LABEL, type: 'string',
+    iptc: '2:55', xmp: ['photoshop:DateCreated']
+  },
+  'photoshop:Credit': {
+    assertion: IPTC_ASSERTION_LABEL, type: 'string',
+    iptc: '2:110', xmp: ['photoshop:Credit']
+  },
+  'photoshop:Source': {
+    assertion: IPTC_ASSERTION_LABEL, type: 'string',
+    iptc: '2:115', xmp: ['photoshop:Source']
+  },
+  'photoshop:City': {
+    assertion: IPTC_ASSERTION_LABEL, type: 'string',
+    iptc: '2:90', xmp: ['photoshop:City']
+  },
+  'photoshop:State': {
+    assertion: IPTC_ASSERTION_LABEL, type: 'string',
+    iptc: '2:95', xmp: ['photoshop:State']
+  },
+  'photoshop:Country': {
+    assertion: IPTC_ASSERTION_LABEL, type: 'string',
+    iptc: '2:101', xmp: ['photoshop:Country']
+  }
+};
+
+// 上書き値の最大長
+const MAX_VALUE_LENGTH = 2000;
+
+/**
+ * 写真メタデータの検証エラーを作成する
+ * @param path エラーのある項目のJSONパス
+ * @param message 理由
+ */
+function invalidPhotoMetadata(path: string, message: string): AppError {
+  return invalidField('INVALID_PHOTO_METADATA', path, message);
+}
+
+/**
+ * マニフェストに含めることが許可されている項目
+ */
+export function getPhotoMetadataAllowlist(): string[] {
+  return config.c2pa.photoMetadata.allowlist.filter(key => key in PHOTO_METADATA_FIELDS);
+}
+
+/**
+ * IPTCの日付（CCYYMMDD）をISO 8601形式に変換する
+ */
+function iptcDate(date: string, time?: string): string | undefined {
+  const dateMatch = date.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!dateMatch) {
+    return undefined;
+  }
+  const isoDate = `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`;
+  const timeMatch = time?.match(/^(\d{2})(\d{2})(\d{2})([+-]\d{2})(\d{2})$/);
+  return timeMatch
+    ? `${isoDate}T${timeMatch[1]}:${timeMatch[2]}:${timeMatch[3]}${timeMatch[4]}:${timeMatch[5]}`
+    : isoDate;
+}
+
+/**
+ * 値を項目の型に合わせて変換する
+ */
+function coerceValue(field: PhotoMetadataField, value: string | string[]): PhotoMetadataValue | undefined {
+  const values = (Array.isArray(value) ? value : [value]).filter(item => item !== '');
+  if (values.length === 0) {
+    return undefined;
+  }
+  if (field.type === 'list') {
+    return values;
+  }
+  if (field.type === 'number') {
+    // XMPでは有理数が「分子/分母」で表される
+    const [numerator, denominator] = values[0].split('/').map(Number);
+    const number = denominator ? numerator / denominator : numerator;
+    return Number.isFinite(number) ? Math.round(number * 10000) / 10000 : undefined;
+  }
+  return values[0];
+}
+
+/**
+ * 1つの項目を各抽出元から読み取る（EXIF、XMP、IPTCの順に優先）
+ */
+function readField(key: string, field: PhotoMetadataField, sources: MetadataSources): PhotoMetadataValue | undefined {
+  const fromExif = sources.exif && field.exif ? field.exif(sources.exif) : undefined;
+  if (fromExif !== undefined) {
+    return fromExif;
+  }
+
+  if (sources.xmp) {
+    for (const property of field.xmp || []) {
+      const value = readXmpProperty(sources.xmp, property);
+      const coerced = value !== undefined ? coerceValue(field, value) : undefined;
+      if (coerced !== undefined) {
+        return coerced;
+      }
+    }
+  }
+
+  const iptcValues = field.iptc ? sources.iptc[field.iptc] : undefined;
+  if (iptcValues && iptcValues.length > 0) {
+    if (key === 'photoshop:DateCreated') {
+      return iptcDate(iptcValues[0], sources.iptc['2:60']?.[0]);
+    }
+    return coerceValue(field, iptcValues);
+  }
+  return undefined;
+}
+
+/**
+ * 画像ファイルからEXIF・IPTC・XMPメタデータを抽出する
+ * @param filePath 画像ファイルのパス
+ * @returns 抽出できたすべての項目
+ */
+export async function extractPhotoMetadata(filePath: string): Promise<Record<string, PhotoMetadataValue>> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(filePath).metadata();
+  } catch (error) {
+    console.warn('写真メタデータを読み取れませんでした:', error instanceof Error ? error.message : error);
+    return {};
+  }
+
+  const sources: MetadataSources = {
+    exif: metadata.exif ? parseExif(metadata.exif) : null,
+    iptc: metadata.iptc ? parseIptc(metadata.iptc) : {},
+    xmp: metadata.xmp ? metadata.xmp.toString('utf8') : null
+  };
+
+  const fields: Record<string, PhotoMetadataValue> = {};
+  for (const [key, field] of Object.entries(PHOTO_METADATA_FIELDS)) {
+    const value = readField(key, field, sources);
+    if (value !== undefined) {
+      fields[key] = value;
+    }
+  }
+  return fields;
+}
+
+/**
+ * 写真メタデータの指定を検証・正規化する
+ * @param input trueまたは{ extract?, overrides? }
+ * @param path 指定のJSONパス（検証エラーに使用する）
+ * @returns 正規化された指定（含めない場合はnull）
+ */
+export function normalizePhotoMetadataOptions(input: unknown, path = '$.photoMetadata'): Required<PhotoMetadataOptions> | null {
+  if (input === undefined || input === null || input === false) {
+    return null;
+  }
+  if (input === true) {
+    return { extract: true, overrides: {} };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw invalidPhotoMetadata(path, 'photoMetadataはtrueまたはオブジェクトで指定してください。');
+  }
+
+  const { extract, overrides } = input as PhotoMetadataOptions;
+  if (extract !== undefined && typeof extract !== 'boolean') {
+    throw invalidPhotoMetadata(`${path}.extract`, 'extractは真偽値で指定してください。');
+  }
+  if (overrides !== undefined && (!overrides || typeof overrides !== 'object' || Array.isArray(overrides))) {
+    throw invalidPhotoMetadata(`${path}.overrides`, 'overridesはオブジェクトで指定してください。');
+  }
+
+  const allowlist = getPhotoMetadataAllowlist();
+  const normalized: Record<string, PhotoMetadataValue | null> = {};
+
+  for (const [key, value] of Object.entries(overrides || {})) {
+    const field = PHOTO_METADATA_FIELDS[key];
+    if (!field || !allowlist.includes(key)) {
+      throw invalidPhotoMetadata(
+        propertyPath(`${path}.overrides`, key),
+        `マニフェストに含めることが許可されていない項目です: ${key}`
+      );
+    }
+    if (value === null) {
+      normalized[key] = null;
+      continue;
+    }
+
+    const valid = field.type === 'list'
+      ? Array.isArray(value) && value.every(item => typeof item === 'string' && item.length <= MAX_VALUE_LENGTH)
+      : field.type === 'number'
+        ? typeof value === 'number' && Number.isFinite(value)
+        : typeof value === 'string' && value.length <= MAX_VALUE_LENGTH;
+    if (!valid) {
+      const expected = field.type === 'list' ? '文字列の配列' : field.type === 'number' ? '数値' : '文字列';
+      throw invalidPhotoMetadata(propertyPath(`${path}.overrides`, key), `${key}は${expected}で指定してください。`);
+    }
+    normalized[key] = value as PhotoMetadataValue;
+  }
+
+  return { extract: extract !== false, overrides: normalized };
+}
+
+/**
+ * 抽出した項目に許可リストと上書き値を適用する
+ * @param extracted 抽出したすべての項目
+ * @param overrides 呼び出し元による上書き値（nullで削除）
+ * @returns マニフェストに含める項目
+ */
+export function applyPhotoMetadataOverrides(
+  extracted: Record<string, PhotoMetadataValue>,
+  overrides: Record<string, PhotoMetadataValue | null> = {}
+): Record<string, PhotoMetadataValue> {
+  const fields: Record<string, PhotoMetadataValue> = {};
+
+  for (const key of getPhotoMetadataAllowlist()) {
+    const value = key in overrides ? overrides[key] : extracted[key];
+    if (value !== null && value !== undefined) {
+      fields[key] = value;
+    }
+  }
+  return fields;
+}
+
+/**
+ * 項目のアサーション内でのパス（例: stds.exif.tiff:Make）
+ */
+export function getPhotoMetadataFieldPath(key: string): string {
+  return `${PHOTO_METADATA_FIELDS[key].assertion}.${key}`;
+}
+
+/**
+ * 項目からstds.exif・stds.iptc.photo-metadataアサーションを作成する
+ * @param fields マニフェストに含める項目
+ * @returns アサーションの一覧（項目がないアサーションは作成しない）
+ */
+export function createPhotoMetadataAssertions(fields: Record<string, PhotoMetadataValue>): C2paAssertion[] {
+  const grouped: Record<string, Record<string, PhotoMetadataValue>> = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    const { assertion } = PHOTO_METADATA_FIELDS[key];
+    grouped[assertion] = grouped[assertion] || {};
+    grouped[assertion][key] = value;
+  }
+
+  return [EXIF_ASSERTION_LABEL, IPTC_ASSERTION_LABEL]
+    .filter(label => grouped[label])
+    .map(label => ({
+      label,
+      data: {
+        '@context': ASSERTION_CONTEXTS[label],
+        ...grouped[label]
+      }
+    }));
+}
+
+/**
+ * 署名対象の画像から写真メタデータのアサーションを準備する
+ * @param filePath 画像ファイルのパス
+ * @param options 正規化された指定
+ * @returns マニフェストに含める項目とアサーション
+ */
+export async function preparePhotoMetadata(
+  filePath: string,
+  options: Required<PhotoMetadataOptions>
+): Promise<{ fields: Record<string, PhotoMetadataValue>; assertions: C2paAssertion[] }> {
+  const extracted = options.extract ? await extractPhotoMetadata(filePath) : {};
+  const fields = applyPhotoMetadataOverrides(extracted, options.overrides);
+  return { fields, assertions: createPhotoMetadataAssertions(fields) };
+}
@@ -0,0 +1,161 @@
+import { config } from '../config';
+import { C2paAssertion, PrivacyFinding, PrivacyPolicy } from '../types';
+import { AppError } from '../utils/errors';
+import { invalidField } from '../utils/schemaUtils';
+
+const PRIVACY_POLICIES: PrivacyPolicy[] = ['warn', 'strip', 'coarsen'];
+
+// 位置情報の座標（coarsenで丸める対象）
+const COORDINATE_KEYS = ['gpslatitude', 'gpslongitude', 'latitude', 'longitude'];
+
+/**
+ * 名前空間接頭辞を除いたキー名（小文字）を取得する
+ */
+function localName(key: string): string {
+  return key.slice(key.lastIndexOf(':') + 1).toLowerCase();
+}
+
+/**
+ * キーが個人を特定し得る情報かどうかを判定する
+ * @returns 情報の種類（該当しない場合はnull）
+ */
+function classifyKey(key: string): PrivacyFinding['category'] | null {
+  const name = localName(key);
+  if (name.startsWith('gps') || COORDINATE_KEYS.includes(name)) {
+    return 'location';
+  }
+  if (name.endsWith('serialnumber')) {
+    return 'deviceSerial';
+  }
+  if (name.endsWith('ownername')) {
+    return 'ownerName';
+  }
+  return null;
+}
+
+/**
+ * 緯度・経度を指定の桁数に丸める
+ * 数値（10進数の度）と、XMP形式の文字列（例: 35,39.5123N / 35,39,30.74N）に対応する
+ * @returns 丸めた値（解釈できない場合はundefined）
+ */
+function coarsenCoordinate(value: unknown, decimals: number): number | string | undefined {
+  const round = (degrees: number) => Math.round(degrees * 10 ** decimals) / 10 ** decimals;
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return round(value);
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value.trim())) {
+    return String(round(Number(value)));
+  }
+
+  const match = value.trim().match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/);
+  if (!match) {
+    return undefined;
+  }
+  const degrees = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] || 0) / 3600;
+  const rounded = round(degrees);
+  const wholeDegrees = Math.trunc(rounded);
+  const minutes = (rounded - wholeDegrees) * 60;
+  return `${wholeDegrees},${minutes.toFixed(4)}${match[4]}`;
+}
+
+/**
+ * 個人情報保護ポリシーを検証する
+ * @param policy リクエストで指定されたポリシー（省略時は設定の既定値）
+ */
+export function normalizePrivacyPolicy(policy: unknown): PrivacyPolicy {
+  if (policy === undefined || policy === null) {
+    return config.c2pa.privacy.defaultPolicy as PrivacyPolicy;
+  }
+  if (!PRIVACY_POLICIES.includes(policy as PrivacyPolicy)) {
+    throw invalidField(
+      'INVALID_PRIVACY_POLICY',
+      '$.privacyPolicy',
+      `privacyPolicyは ${PRIVACY_POLICIES.join(', ')} のいずれかで指定してください。`
+    );
+  }
+  return policy as PrivacyPolicy;
+}
+
+/**
+ * アサーションから位置情報・機器のシリアル番号・所有者名を検出し、ポリシーに従って処理する
+ * warnの場合も署名を中止せず、検出した項目を返す（署名前の確認用）
+ * @param assertions 署名するマニフェストのアサーション
+ * @param policy 個人情報保護ポリシー
+ * @returns 処理後のアサーション（warnの場合は元のアサーション）と、検出・処理した項目
+ */
+export function inspectPrivacy(
+  assertions: C2paAssertion[],
+  policy: PrivacyPolicy
+): { assertions: C2paAssertion[]; findings: PrivacyFinding[] } {
+  const findings: PrivacyFinding[] = [];
+  const decimals = config.c2pa.privacy.coarsenDecimals;
+
+  const scrub = (value: unknown, path: string): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => scrub(item, `${path}[${index}]`));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      const category = classifyKey(key);
+      const itemPath = `${path}.${key}`;
+
+      if (!category) {
+        result[key] = scrub(item, itemPath);
+        continue;
+      }
+
+      if (policy === 'coarsen' && COORDINATE_KEYS.includes(localName(key))) {
+        const coarsened = coarsenCoordinate(item, decimals);
+        if (coarsened !== undefined) {
+          result[key] = coarsened;
+          findings.push({ path: itemPath, category, action: 'coarsened' });
+          continue;
+        }
+      }
+      findings.push({ path: itemPath, category, action: policy === 'warn' ? 'detected' : 'removed' });
+    }
+    return result;
+  };
+
+  const scrubbed = assertions.map(assertion => ({
+    ...assertion,
+    data: scrub(assertion.data, assertion.label) as Record<string, unknown>
+  }));
+
+  // 該当する項目がない場合とwarnの場合は元のアサーションをそのまま使用する
+  return { assertions: findings.length > 0 && policy !== 'warn' ? scrubbed : assertions, findings };
+}
+
+/**
+ * アサーションから位置情報・機器のシリアル番号・所有者名を検出し、ポリシーに従って処理する
+ * - warn: 検出した場合は署名を中止する（検出内容はエラーの詳細に含める）
+ * - strip: 該当する項目を削除する
+ * - coarsen: 緯度・経度を丸め、それ以外の該当項目は削除する
+ * @param assertions 署名するマニフェストのアサーション
+ * @param policy 個人情報保護ポリシー
+ * @returns 処理後のアサーションと、検出・処理した項目
+ */
+export function applyPrivacyGuard(
+  assertions: C2paAssertion[],
+  policy: PrivacyPolicy
+): { assertions: C2paAssertion[]; findings: PrivacyFinding[] } {
+  const inspected = inspectPrivacy(assertions, policy);
+
+  if (policy === 'warn' && inspected.findings.length > 0) {
+    throw new AppError(
+      400,
+      'PRIVACY_SENSITIVE_METADATA',
+      '位置情報・機器のシリアル番号・所有者名が含まれています。privacyPolicyにstripまたはcoarsenを指定するか、該当する項目を取り除いてください。',
+      { findings: inspected.findings }
+    );
+  }
+  return inspected;
+}
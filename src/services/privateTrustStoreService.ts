@@ -0,0 +1,210 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { X509Certificate } from 'crypto';
+import { config } from '../config';
+import { PrivateAllowedCertificate, PrivateTrustAnchor } from '../types';
+import { AppError } from '../utils/errors';
+import { parseCertificateChain } from '../utils/certificateUtils';
+
+// 組織独自のトラストアンカーの保存先
+const ANCHOR_DIR = path.join(config.c2pa.trust.privateStoreDir, 'anchors');
+
+// 組織独自に個別に信頼する署名証明書の保存先
+const ALLOWED_DIR = path.join(config.c2pa.trust.privateStoreDir, 'allowed');
+
+/**
+ * 証明書のフィンガープリントからエントリのIDを作成する
+ */
+function toEntryId(certificate: X509Certificate): string {
+  return certificate.fingerprint256.replace(/:/g, '').toLowerCase();
+}
+
+/**
+ * エントリのIDの形式（SHA-256フィンガープリントの16進小文字）を確認する
+ */
+function isValidEntryId(entryId: string): boolean {
+  return /^[a-f0-9]{64}$/.test(entryId);
+}
+
+/**
+ * エントリの保存パスを取得する
+ */
+function getEntryPath(directory: string, entryId: string): string {
+  return path.join(directory, `${entryId}.json`);
+}
+
+/**
+ * 登録する証明書を1つだけ読み取る
+ */
+function parseSingleCertificate(certificatePem: unknown, code: string, name: string): X509Certificate {
+  if (typeof certificatePem !== 'string' || !certificatePem.trim()) {
+    throw new AppError(400, code, `${name}の証明書（PEM）を指定してください。`);
+  }
+  const certificates = parseCertificateChain(certificatePem);
+  if (certificates.length !== 1) {
+    throw new AppError(400, code, `${name}には証明書を1つだけ指定してください。`);
+  }
+  return certificates[0];
+}
+
+/**
+ * 証明書をエントリとして保存する
+ * 登録済みの証明書の場合は既存のエントリを返す
+ */
+async function saveEntry(directory: string, certificate: X509Certificate, label?: string): Promise<PrivateTrustAnchor> {
+  const id = toEntryId(certificate);
+  try {
+    return JSON.parse(await fs.readFile(getEntryPath(directory, id), 'utf8'));
+  } catch (error) {
+    // 未登録の場合は新規に保存する
+  }
+
+  const entry: PrivateTrustAnchor = {
+    id,
+    label: (typeof label === 'string' && label.trim()) || certificate.subject.replace(/\n/g, ', '),
+    subject: certificate.subject,
+    validTo: new Date(certificate.validTo).toISOString(),
+    certificate: certificate.toString(),
+    addedAt: new Date().toISOString()
+  };
+
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(getEntryPath(directory, id), JSON.stringify(entry, null, 2), 'utf8');
+  return entry;
+}
+
+/**
+ * 保存されたエントリの一覧を読み込む
+ * @returns 登録日時順のエントリ
+ */
+async function readEntries(directory: string): Promise<PrivateTrustAnchor[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(directory);
+  } catch (error) {
+    return [];
+  }
+
+  const entries: PrivateTrustAnchor[] = [];
+  for (const file of files.filter(name => path.extname(name) === '.json')) {
+    try {
+      entries.push(JSON.parse(await fs.readFile(path.join(directory, file), 'utf8')));
+    } catch (error) {
+      console.error(`組織独自の信頼リストの読み込みに失敗しました: ${file}`, error);
+    }
+  }
+
+  return entries.sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+}
+
+/**
+ * エントリを削除する
+ * @returns 削除したエントリ
+ */
+async function removeEntry(directory: string, entryId: string, code: string, message: string): Promise<PrivateTrustAnchor> {
+  if (!isValidEntryId(entryId)) {
+    throw new AppError(404, code, message);
+  }
+
+  const entryPath = getEntryPath(directory, entryId);
+  let entry: PrivateTrustAnchor;
+  try {
+    entry = JSON.parse(await fs.readFile(entryPath, 'utf8'));
+  } catch (error) {
+    throw new AppError(404, code, message);
+  }
+
+  await fs.unlink(entryPath);
+  return entry;
+}
+
+/**
+ * 組織独自のトラストアンカーを登録する
+ * 登録済みの証明書の場合は既存のトラストアンカーを返す
+ * @param certificatePem CA証明書（PEM、1つのみ）
+ * @param label 表示名（省略時は証明書のサブジェクト）
+ * @returns 登録したトラストアンカー
+ */
+export async function addPrivateTrustAnchor(certificatePem: string, label?: string): Promise<PrivateTrustAnchor> {
+  const certificate = parseSingleCertificate(certificatePem, 'INVALID_TRUST_ANCHOR', 'トラストアンカー');
+  if (!certificate.ca) {
+    throw new AppError(400, 'INVALID_TRUST_ANCHOR', 'トラストアンカーにはCA証明書を指定してください。', {
+      subject: certificate.subject
+    });
+  }
+
+  const anchor = await saveEntry(ANCHOR_DIR, certificate, label);
+  console.log(`Private trust anchor registered: ${anchor.id} (${anchor.label})`);
+  return anchor;
+}
+
+/**
+ * 組織独自のトラストアンカーの一覧を取得する
+ * @returns 登録日時順のトラストアンカー
+ */
+export async function listPrivateTrustAnchors(): Promise<PrivateTrustAnchor[]> {
+  return readEntries(ANCHOR_DIR);
+}
+
+/**
+ * 組織独自のトラストアンカーを削除する
+ * @param anchorId トラストアンカーのID
+ * @returns 削除したトラストアンカー
+ */
+export async function removePrivateTrustAnchor(anchorId: string): Promise<PrivateTrustAnchor> {
+  const anchor = await removeEntry(
+    ANCHOR_DIR,
+    anchorId,
+    'PRIVATE_TRUST_ANCHOR_NOT_FOUND',
+    '指定されたトラストアンカーが見つかりません。'
+  );
+  console.log(`Private trust anchor removed: ${anchor.id} (${anchor.label})`);
+  return anchor;
+}
+
+/**
+ * 組織独自に個別に信頼する署名証明書を登録する
+ * トラストアンカーまでの証明書パスによらず、この証明書で署名されたマニフェストを信頼する
+ * @param certificatePem エンドエンティティ証明書（PEM、1つのみ）
+ * @param label 表示名（省略時は証明書のサブジェクト）
+ * @returns 登録した証明書
+ */
+export async function addPrivateAllowedCertificate(certificatePem: string, label?: string): Promise<PrivateAllowedCertificate> {
+  const certificate = parseSingleCertificate(certificatePem, 'INVALID_ALLOWED_CERTIFICATE', '個別に信頼する証明書');
+  if (certificate.ca) {
+    throw new AppError(
+      400,
+      'INVALID_ALLOWED_CERTIFICATE',
+      '個別に信頼する証明書にはエンドエンティティ（CA以外）の証明書を指定してください。CA証明書はトラストアンカーとして登録してください。',
+      { subject: certificate.subject }
+    );
+  }
+
+  const entry = await saveEntry(ALLOWED_DIR, certificate, label);
+  console.log(`Private allowed certificate registered: ${entry.id} (${entry.label})`);
+  return entry;
+}
+
+/**
+ * 組織独自に個別に信頼する署名証明書の一覧を取得する
+ * @returns 登録日時順の証明書
+ */
+export async function listPrivateAllowedCertificates(): Promise<PrivateAllowedCertificate[]> {
+  return readEntries(ALLOWED_DIR);
+}
+
+/**
+ * 組織独自に個別に信頼する署名証明書を削除する
+ * @param certificateId 証明書のID
+ * @returns 削除した証明書
+ */
+export async function removePrivateAllowedCertificate(certificateId: string): Promise<PrivateAllowedCertificate> {
+  const entry = await removeEntry(
+    ALLOWED_DIR,
+    certificateId,
+    'PRIVATE_ALLOWED_CERTIFICATE_NOT_FOUND',
+    '指定された証明書が見つかりません。'
+  );
+  console.log(`Private allowed certificate removed: ${entry.id} (${entry.label})`);
+  return entry;
+}
@@ -0,0 +1,50 @@
+import { createC2pa, LocalSigner } from 'c2pa-node';
+import { config } from '../config';
+import { parseCertificateChain } from '../utils/certificateUtils';
+import { createSigner } from './signerService';
+
+// リモート署名サービスの参照実装
+// 実運用ではHSMやクラウドKMSを備えた外部サービスに置き換える
+const serviceConfig = config.c2pa.signingService;
+const c2paInstance = createC2pa();
+
+// COSE署名以外に必要な領域（c2pa-rsのローカル署名者と同じ見積もり）
+const BASE_RESERVE_SIZE = 1024;
+const TIMESTAMP_RESERVE_SIZE = 10000;
+
+/**
+ * 参照実装が使用するローカル署名者を取得する
+ * 設定された署名プロファイル、またはテスト署名者を使用する
+ */
+async function getServiceSigner(): Promise<LocalSigner> {
+  const { signer } = await createSigner({
+    profileId: serviceConfig.profileId || undefined
+  });
+
+  if (signer.type !== 'local') {
+    throw new Error('Reference signing service requires a local signer.');
+  }
+  return signer;
+}
+
+/**
+ * 署名に必要な予約サイズを算出する
+ * 証明書チェーンとタイムスタンプの大きさに応じて決まる
+ */
+export async function getReserveSize(): Promise<number> {
+  const signer = await getServiceSigner();
+  const chain = parseCertificateChain(signer.certificate.toString('utf8'));
+  const certificatesSize = chain.reduce((total, certificate) => total + certificate.raw.length, 0);
+
+  return BASE_RESERVE_SIZE + certificatesSize + (signer.tsaUrl ? TIMESTAMP_RESERVE_SIZE : 0);
+}
+
+/**
+ * クレームのバイト列に署名し、COSE_Sign1を返す
+ * @param claim 署名対象のクレーム
+ * @param reserveSize マニフェスト内に予約された署名領域のサイズ
+ */
+export async function signClaim(claim: Buffer, reserveSize: number): Promise<Buffer> {
+  const signer = await getServiceSigner();
+  return c2paInstance.signClaimBytes({ claim, reserveSize, signer });
+}
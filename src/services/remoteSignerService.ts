@@ -0,0 +1,84 @@
+import { RemoteSigner } from 'c2pa-node';
+import { config } from '../config';
+import { AppError } from '../utils/errors';
+
+// リモート署名サービスの設定
+const remoteConfig = config.c2pa.remoteSigner;
+
+/**
+ * リモート署名サービスにリクエストを送信する
+ * @param method HTTPメソッド
+ * @param endpoint サービスのベースURLからの相対パス
+ * @param body 送信するJSON
+ * @returns レスポンスのJSON
+ */
+async function requestSigningService(
+  method: 'GET' | 'POST',
+  endpoint: string,
+  body?: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const url = `${remoteConfig.url.replace(/\/+$/, '')}${endpoint}`;
+  const headers: Record<string, string> = { Accept: 'application/json' };
+
+  if (body) {
+    headers['Content-Type'] = 'application/json';
+  }
+  if (remoteConfig.authToken) {
+    headers['Authorization'] = `Bearer ${remoteConfig.authToken}`;
+  }
+
+  const response = await fetch(url, {
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+    signal: AbortSignal.timeout(remoteConfig.timeout)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Remote signing service responded with status ${response.status} (${url})`);
+  }
+
+  return await response.json() as Record<string, unknown>;
+}
+
+/**
+ * リモート署名者を作成する
+ * 署名対象のバイト列を外部の署名サービスに送信し、返却されたCOSE署名を埋め込む
+ * @returns c2pa-nodeのRemoteSigner
+ */
+export function createRemoteSigner(): RemoteSigner {
+  if (!remoteConfig.url) {
+    throw new AppError(
+      400,
+      'REMOTE_SIGNER_NOT_CONFIGURED',
+      'リモート署名サービスが設定されていません。REMOTE_SIGNER_URLを設定してください。'
+    );
+  }
+
+  // 予約サイズは署名者ごとに一度だけ問い合わせる
+  let reserveSize: number | null = null;
+
+  return {
+    type: 'remote',
+    reserveSize: async () => {
+      if (reserveSize === null) {
+        const result = await requestSigningService('GET', '/reserve-size');
+        if (typeof result.reserveSize !== 'number' || result.reserveSize <= 0) {
+          throw new Error('Remote signing service returned an invalid reserve size.');
+        }
+        reserveSize = result.reserveSize;
+      }
+      return reserveSize;
+    },
+    sign: async ({ reserveSize: size, toBeSigned }) => {
+      const result = await requestSigningService('POST', '/sign', {
+        claim: toBeSigned.toString('base64'),
+        reserveSize: size
+      });
+      if (typeof result.signature !== 'string') {
+        throw new Error('Remote signing service returned no signature.');
+      }
+      return Buffer.from(result.signature, 'base64');
+    }
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SignData } from '../types';
+import { AppError } from '../utils/errors';
+import { assertValidSignData, validateSignData } from './signDataValidationService';
+
+describe('validateSignData', () => {
+  test('manifestDataのObject.prototypeの項目名で例外を投げない', () => {
+    const signData = { fileId: 'file.jpg', manifestData: { title: 't', toString: 1 } } as unknown as SignData;
+    assert.deepEqual(validateSignData(signData), []);
+  });
+
+  test('追加の項目を拒否するオブジェクトではObject.prototypeの項目名を422で報告する', () => {
+    const signData = {
+      fileId: 'file.jpg',
+      manifestData: { title: 't', creativeWork: { constructor: 'x' } }
+    } as unknown as SignData;
+
+    assert.throws(
+      () => assertValidSignData(signData),
+      (error: unknown) => {
+        assert.ok(error instanceof AppError);
+        assert.equal(error.statusCode, 422);
+        assert.deepEqual(error.details, {
+          errors: [{ path: '$.manifestData.creativeWork.constructor', reason: '不明な項目です。' }]
+        });
+        return true;
+      }
+    );
+  });
+
+  test('Object.prototypeの項目名のラベルを既知のアサーションとして扱わない', () => {
+    const signData = {
+      fileId: 'file.jpg',
+      manifestData: { title: 't', assertions: [{ label: 'constructor', data: {} }] }
+    } as unknown as SignData;
+    assert.deepEqual(validateSignData(signData), []);
+  });
+});
@@ -0,0 +1,303 @@
+import { config } from '../config';
+import { SignData } from '../types';
+import { AppError } from '../utils/errors';
+import { hasOwn, Schema, SchemaError, validateSchema } from '../utils/schemaUtils';
+
+// マニフェストデータの検証設定
+const validationConfig = config.c2pa.validation;
+
+// C2PAで定義されたアサーションの接頭辞
+const C2PA_LABEL_PREFIX = 'c2pa.';
+
+// アサーションラベル（ピリオド区切りの英数字・ハイフン・アンダースコア。インスタンス番号 __1 なども含む）
+const ASSERTION_LABEL_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*(\.[A-Za-z0-9][A-Za-z0-9_-]*)*$/;
+
+// c2pa-nodeがクレームの作成時に追加するため、リクエストでは指定できないアサーション
+const RESERVED_LABEL_PATTERNS = [/^c2pa\.hash\./, /^c2pa\.thumbnail\./, /^c2pa\.ingredient(\.v\d+)?$/, /^c2pa\.cloud-data$/];
+
+const softwareAgentSchema: Schema = {
+  anyOf: [
+    { type: 'string', minLength: 1 },
+    {
+      type: 'object',
+      properties: { name: { type: 'string', minLength: 1 }, version: { type: 'string' } },
+      required: ['name'],
+      additionalProperties: false
+    }
+  ],
+  description: '文字列または{ name, version? }'
+};
+
+// c2pa.actions（.v2）アサーションのデータ
+const actionsAssertionSchema: Schema = {
+  type: 'object',
+  properties: {
+    actions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', minLength: 1 },
+          when: { type: 'string' },
+          softwareAgent: softwareAgentSchema,
+          digitalSourceType: { type: 'string' },
+          parameters: { type: 'object' }
+        },
+        required: ['action']
+      }
+    }
+  },
+  required: ['actions']
+};
+
+// 写真メタデータ（stds.exif・stds.iptc.photo-metadata）アサーションのデータ
+const photoMetadataAssertionSchema: Schema = {
+  type: 'object',
+  properties: {
+    '@context': { anyOf: [{ type: 'string' }, { type: 'object' }], description: '文字列またはオブジェクト' }
+  }
+};
+
+// 既知のアサーションのデータのスキーマ
+const ASSERTION_DATA_SCHEMAS: Record<string, Schema> = {
+  'c2pa.actions': actionsAssertionSchema,
+  'c2pa.actions.v2': actionsAssertionSchema,
+  'c2pa.training-mining': {
+    type: 'object',
+    properties: {
+      entries: {
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          properties: {
+            use: { type: 'string', enum: ['allowed', 'notAllowed', 'constrained'] },
+            constraint_info: { type: 'string' }
+          },
+          required: ['use']
+        }
+      }
+    },
+    required: ['entries']
+  },
+  'stds.exif': photoMetadataAssertionSchema,
+  'stds.iptc.photo-metadata': photoMetadataAssertionSchema
+};
+
+const creativeWorkEntitySchema: Schema = {
+  anyOf: [
+    { type: 'string', minLength: 1 },
+    {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['Person', 'Organization'] },
+        name: { type: 'string', minLength: 1 },
+        url: { type: 'string' },
+        identifier: { type: 'string' }
+      },
+      required: ['name'],
+      additionalProperties: false
+    }
+  ],
+  description: '名前の文字列または{ type?, name, url?, identifier? }'
+};
+
+const keyMaterialSchema: Schema = {
+  type: 'object',
+  properties: { content: { type: 'string', minLength: 1 }, name: { type: 'string' } },
+  required: ['content']
+};
+
+// 署名リクエストのスキーマ
+// 値の範囲（アクション名や個人情報保護ポリシーなど）は各サービスの検証で確認する
+const SIGN_DATA_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    fileId: { type: 'string', minLength: 1 },
+    manifestData: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', minLength: 1, maxLength: validationConfig.maxTitleLength },
+        creator: { type: 'string' },
+        copyright: { type: 'string' },
+        description: { type: 'string' },
+        claimGenerator: { type: 'string', minLength: 1 },
+        format: { type: 'string', minLength: 1 },
+        assertions: {
+          type: 'array',
+          maxItems: validationConfig.maxAssertions,
+          items: {
+            type: 'object',
+            properties: {
+              label: { type: 'string', pattern: ASSERTION_LABEL_PATTERN },
+              data: { type: 'object' },
+              kind: { type: 'string', enum: ['Json', 'Cbor'] }
+            },
+            required: ['label', 'data'],
+            additionalProperties: false
+          }
+        },
+        creativeWork: {
+          type: 'object',
+          properties: {
+            authors: { type: 'array', items: creativeWorkEntitySchema },
+            copyrightHolder: creativeWorkEntitySchema,
+            copyrightNotice: { type: 'string' },
+            license: { type: 'string' },
+            dateCreated: { type: 'string' },
+            keywords: { type: 'array', items: { type: 'string' } },
+            description: { type: 'string' }
+          },
+          additionalProperties: false
+        },
+        trainingMining: {
+          type: 'object',
+          additionalProperties: {
+            anyOf: [
+              { type: 'string' },
+              { type: 'object', properties: { use: { type: 'string' }, constraintInfo: { type: 'string' } }, required: ['use'] }
+            ],
+            description: '文字列または{ use, constraintInfo? }'
+          }
+        }
+      },
+      required: ['title']
+    },
+    certificate: keyMaterialSchema,
+    privateKey: {
+      type: 'object',
+      properties: { content: { type: 'string', minLength: 1 }, name: { type: 'string' }, passphrase: { type: 'string' } },
+      required: ['content']
+    },
+    pkcs12: {
+      type: 'object',
+      properties: { content: { type: 'string', minLength: 1 }, name: { type: 'string' }, password: { type: 'string' } },
+      required: ['content']
+    },
+    useLocalSigner: { type: 'boolean' },
+    useRemoteSigner: { type: 'boolean' },
+    profileId: { type: 'string' },
+    algorithm: { type: 'string' },
+    tsaUrl: { anyOf: [{ type: 'string' }, { type: 'null' }], description: '文字列またはnull' },
+    ingredientFileIds: {
+      type: 'array',
+      items: {
+        anyOf: [
+          { type: 'string' },
+          {
+            type: 'object',
+            properties: { fileId: { type: 'string' }, relationship: { type: 'string' }, title: { type: 'string', minLength: 1 } },
+            required: ['fileId']
+          }
+        ],
+        description: 'ファイルIDまたは{ fileId, relationship?, title? }'
+      }
+    },
+    ingredientRelationship: { type: 'string' },
+    preserveProvenance: { type: 'boolean' },
+    includeThumbnail: { type: 'boolean' },
+    actions: { type: 'array', items: { type: 'object', properties: { action: { type: 'string' } }, required: ['action'] } },
+    aiDisclosure: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string' },
+        model: {
+          type: 'object',
+          properties: { name: { type: 'string', minLength: 1 }, version: { type: 'string' } },
+          required: ['name']
+        },
+        prompt: { type: 'string' },
+        generationParameters: { type: 'object' }
+      },
+      required: ['mode', 'model']
+    },
+    photoMetadata: {
+      anyOf: [
+        { type: 'boolean' },
+        { type: 'object', properties: { extract: { type: 'boolean' }, overrides: { type: 'object' } } }
+      ],
+      description: '真偽値または{ extract?, overrides? }'
+    },
+    privacyPolicy: { type: 'string' },
+    manifestMode: { type: 'string' },
+    templateId: { type: 'string' },
+    templateVariables: { type: 'object', additionalProperties: { type: 'string' } }
+  },
+  required: ['fileId', 'manifestData']
+};
+
+/**
+ * インスタンス番号（__1 など）を除いたアサーションラベルを取得する
+ */
+function baseLabel(label: string): string {
+  return label.replace(/__\d+$/, '');
+}
+
+/**
+ * アサーションのラベルとデータを検証する
+ * C2PAで予約されたラベルと、許可されていない c2pa.* のラベルは拒否する
+ * ラベルやデータの形式が正しくないアサーションはスキーマの検証で報告済みのため対象外とする
+ */
+function validateAssertions(assertions: unknown[]): SchemaError[] {
+  const allowedLabels = [...Object.keys(ASSERTION_DATA_SCHEMAS), ...validationConfig.allowedAssertionLabels];
+
+  return assertions.flatMap((assertion, index) => {
+    const { label: rawLabel, data } = (assertion || {}) as { label?: unknown; data?: unknown };
+    if (typeof rawLabel !== 'string' || !ASSERTION_LABEL_PATTERN.test(rawLabel)) {
+      return [];
+    }
+    const path = `$.manifestData.assertions[${index}]`;
+    const label = baseLabel(rawLabel);
+
+    if (RESERVED_LABEL_PATTERNS.some(pattern => pattern.test(label))) {
+      return [{ path: `${path}.label`, reason: `${label} はC2PAで予約されたラベルのため指定できません。` }];
+    }
+    if (label.startsWith(C2PA_LABEL_PREFIX) && !allowedLabels.includes(label)) {
+      return [{
+        path: `${path}.label`,
+        reason: `${label} は指定できない c2pa.* のラベルです。独自のアサーションには逆ドメイン形式のラベル（例: com.example.info）を使用してください。`
+      }];
+    }
+
+    const schema = hasOwn(ASSERTION_DATA_SCHEMAS, label) ? ASSERTION_DATA_SCHEMAS[label] : undefined;
+    return schema && typeof data === 'object' && data !== null ? validateSchema(data, schema, `${path}.data`) : [];
+  });
+}
+
+/**
+ * 署名リクエストをスキーマで検証する
+ * @param signData 署名リクエスト（テンプレートを使用する場合は適用後）
+ * @returns 検証エラー（問題がない場合は空の配列）
+ */
+export function validateSignData(signData: SignData): SchemaError[] {
+  const errors = validateSchema(signData, SIGN_DATA_SCHEMA);
+  const manifestData: unknown = signData?.manifestData;
+  if (typeof manifestData !== 'object' || manifestData === null || Array.isArray(manifestData)) {
+    return errors;
+  }
+
+  const size = Buffer.byteLength(JSON.stringify(manifestData), 'utf8');
+  if (size > validationConfig.maxManifestDataSize) {
+    errors.push({
+      path: '$.manifestData',
+      reason: `${validationConfig.maxManifestDataSize}バイト以内で指定してください（${size}バイト）。`
+    });
+  }
+
+  const { assertions } = manifestData as { assertions?: unknown };
+  if (Array.isArray(assertions)) {
+    errors.push(...validateAssertions(assertions));
+  }
+  return errors;
+}
+
+/**
+ * 署名リクエストをスキーマで検証し、問題があれば422エラーを投げる
+ * @param signData 署名リクエスト（テンプレートを使用する場合は適用後）
+ */
+export function assertValidSignData(signData: SignData): void {
+  const errors = validateSignData(signData);
+  if (errors.length > 0) {
+    throw new AppError(422, 'INVALID_SIGN_DATA', '署名リクエストの内容が正しくありません。', { errors });
+  }
+}
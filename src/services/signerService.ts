@@ -0,0 +1,101 @@
+import { KeyObject } from 'crypto';
+import { createTestSigner, Signer } from 'c2pa-node';
+import { SignData, SigningProfile } from '../types';
+import { getSigningProfile } from './signingProfileService';
+import { resolveKeyMaterial, resolveSigningCredentials } from '../utils/certificateUtils';
+import { resolveTsaUrl } from './timestampService';
+import { createRemoteSigner } from './remoteSignerService';
+
+// 署名者の作成結果
+export interface ResolvedSigner {
+  signer: Signer;
+  source: 'remote' | 'profile' | 'local' | 'test';
+  profile?: SigningProfile;
+  tsaUrl?: string;
+}
+
+/**
+ * 秘密鍵をc2pa-nodeが扱えるPKCS#8 PEM形式に変換する
+ * SEC1形式（BEGIN EC PRIVATE KEY）やPKCS#1形式の鍵にも対応するため
+ */
+function exportPrivateKey(privateKey: KeyObject): Buffer {
+  return Buffer.from(privateKey.export({ type: 'pkcs8', format: 'pem' }) as string);
+}
+
+/**
+ * 署名リクエストの内容から署名者を作成する
+ * リモート署名 > プロファイル指定 > リクエスト内の証明書・秘密鍵（またはPKCS#12） > テスト署名者 の順に解決する
+ * タイムスタンプ局はリクエスト > プロファイル > 設定のデフォルトの順に決定する
+ * @param signData 署名リクエスト
+ * @returns 署名者とその取得元
+ */
+export async function createSigner(
+  signData: Pick<SignData, 'profileId' | 'certificate' | 'privateKey' | 'pkcs12' | 'useLocalSigner' | 'useRemoteSigner' | 'algorithm' | 'tsaUrl'>
+): Promise<ResolvedSigner> {
+  const { profileId, certificate, privateKey, pkcs12, useLocalSigner, useRemoteSigner, algorithm } = signData;
+
+  if (useRemoteSigner) {
+    // タイムスタンプの付与はリモート署名サービス側で行う
+    console.log("リモート署名者を使用します");
+    return {
+      signer: createRemoteSigner(),
+      source: 'remote'
+    };
+  }
+
+  if (profileId) {
+    console.log(`署名プロファイルを使用します: ${profileId}`);
+    const profile = await getSigningProfile(profileId);
+    const credentials = resolveSigningCredentials(profile.certificate, profile.privateKey, profile.algorithm);
+    const tsaUrl = resolveTsaUrl(signData.tsaUrl, profile.tsaUrl);
+
+    return {
+      signer: {
+        type: 'local',
+        certificate: Buffer.from(profile.certificate),
+        privateKey: exportPrivateKey(credentials.privateKey),
+        algorithm: credentials.algorithm,
+        tsaUrl,
+      },
+      source: 'profile',
+      profile,
+      tsaUrl
+    };
+  }
+
+  if (useLocalSigner && ((certificate && privateKey) || pkcs12)) {
+    console.log("ローカル署名者を使用します");
+    // PKCS#12や暗号化された秘密鍵はPEMの証明書チェーンと秘密鍵に変換する
+    const material = resolveKeyMaterial({
+      certificate: certificate?.content,
+      privateKey: privateKey?.content,
+      passphrase: privateKey?.passphrase,
+      pkcs12
+    });
+    const credentials = resolveSigningCredentials(material.certificate, material.privateKey, algorithm);
+    console.log(`署名アルゴリズム: ${credentials.algorithm}`);
+    const tsaUrl = resolveTsaUrl(signData.tsaUrl);
+
+    return {
+      signer: {
+        type: 'local',
+        certificate: Buffer.from(material.certificate),
+        privateKey: exportPrivateKey(credentials.privateKey),
+        algorithm: credentials.algorithm,
+        tsaUrl,
+      },
+      source: 'local',
+      tsaUrl
+    };
+  }
+
+  console.log("テスト署名者を使用します");
+  const tsaUrl = resolveTsaUrl(signData.tsaUrl);
+  const testSigner = await createTestSigner();
+
+  return {
+    signer: { ...testSigner, tsaUrl },
+    source: 'test',
+    tsaUrl
+  };
+}
@@ -0,0 +1,275 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { config } from '../config';
+import { generateUniqueId } from '../utils/fileUtils';
+import { AppError } from '../utils/errors';
+import { KeyMaterial, resolveKeyMaterial, resolveSigningCredentials, SigningCredentials } from '../utils/certificateUtils';
+import { validateTsaSetting } from './timestampService';
+import { SigningProfile, SigningProfileInput, SigningProfileSummary } from '../types';
+
+// 署名プロファイル関連の設定
+const profileConfig = config.c2pa.signingProfiles;
+const PROFILE_DIR = profileConfig.storageDir;
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+
+// 暗号化キーからの鍵導出（署名ごとに実行されるため、イベントループを止めない非同期版を使用する）
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+// 保存ファイルの型（鍵素材は暗号化して保存）
+interface StoredSigningProfile {
+  id: string;
+  name: string;
+  algorithm?: string;
+  tsaUrl?: string | null;
+  claimGenerator?: string;
+  createdAt: string;
+  certificateSummary: SigningProfileSummary['certificate'];
+  encrypted: {
+    salt: string;
+    iv: string;
+    authTag: string;
+    data: string;
+  };
+}
+
+/**
+ * 暗号化キーが設定されているか確認し、未設定の場合はエラーを投げる
+ */
+function requireSecret(): string {
+  if (!profileConfig.secret) {
+    throw new AppError(
+      503,
+      'SIGNING_PROFILES_DISABLED',
+      '署名プロファイル機能が設定されていません。SIGNING_PROFILE_SECRETを設定してください。'
+    );
+  }
+  return profileConfig.secret;
+}
+
+/**
+ * プロファイルIDが有効かどうかをチェックする
+ */
+function isValidProfileId(profileId: string): boolean {
+  return /^[a-f0-9]{32}$/.test(profileId);
+}
+
+/**
+ * プロファイルの保存パスを取得する
+ */
+function getProfilePath(profileId: string): string {
+  return path.join(PROFILE_DIR, `${profileId}.json`);
+}
+
+/**
+ * 保存ディレクトリが存在するか確認し、なければ作成する
+ */
+async function ensureProfileDir(): Promise<void> {
+  await fs.mkdir(PROFILE_DIR, { recursive: true, mode: 0o700 });
+}
+
+/**
+ * 鍵素材を暗号化する
+ */
+async function encryptSecrets(
+  secret: string,
+  payload: { certificate: string; privateKey: string }
+): Promise<StoredSigningProfile['encrypted']> {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const key = await scrypt(secret, salt, 32);
+  const cipher = crypto.createCipheriv(CIPHER_ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+
+  return {
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+/**
+ * 鍵素材を復号する
+ */
+async function decryptSecrets(
+  secret: string,
+  encrypted: StoredSigningProfile['encrypted']
+): Promise<{ certificate: string; privateKey: string }> {
+  const key = await scrypt(secret, Buffer.from(encrypted.salt, 'base64'), 32);
+  const decipher = crypto.createDecipheriv(CIPHER_ALGORITHM, key, Buffer.from(encrypted.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(encrypted.authTag, 'base64'));
+
+  try {
+    const data = Buffer.concat([
+      decipher.update(Buffer.from(encrypted.data, 'base64')),
+      decipher.final()
+    ]);
+    return JSON.parse(data.toString('utf8'));
+  } catch (error) {
+    throw new AppError(
+      500,
+      'SIGNING_PROFILE_DECRYPT_FAILED',
+      '署名プロファイルの復号に失敗しました。暗号化キーが変更された可能性があります。'
+    );
+  }
+}
+
+/**
+ * 証明書チェーンの先頭（リーフ証明書）から概要を作成する
+ */
+function summarizeCertificate(leaf: crypto.X509Certificate): SigningProfileSummary['certificate'] {
+  return {
+    subject: leaf.subject,
+    issuer: leaf.issuer,
+    validFrom: new Date(leaf.validFrom).toISOString(),
+    validTo: new Date(leaf.validTo).toISOString(),
+    fingerprint256: leaf.fingerprint256
+  };
+}
+
+/**
+ * 保存データから鍵素材を含まない概要に変換する
+ */
+function toSummary(stored: StoredSigningProfile): SigningProfileSummary {
+  return {
+    id: stored.id,
+    name: stored.name,
+    algorithm: stored.algorithm,
+    tsaUrl: stored.tsaUrl,
+    claimGenerator: stored.claimGenerator,
+    createdAt: stored.createdAt,
+    certificate: stored.certificateSummary
+  };
+}
+
+/**
+ * 保存されたプロファイルを読み込む
+ */
+async function readStoredProfile(profileId: string): Promise<StoredSigningProfile> {
+  if (!isValidProfileId(profileId)) {
+    throw new AppError(400, 'INVALID_PROFILE_ID', '無効な署名プロファイルIDです。');
+  }
+
+  try {
+    const content = await fs.readFile(getProfilePath(profileId), 'utf8');
+    return JSON.parse(content);
+  } catch (error) {
+    throw new AppError(404, 'SIGNING_PROFILE_NOT_FOUND', '指定された署名プロファイルが見つかりません。');
+  }
+}
+
+/**
+ * 署名プロファイル作成リクエストを検証する
+ * PKCS#12や暗号化された秘密鍵は、保存用にPEMの証明書チェーンと暗号化されていない秘密鍵に変換する
+ */
+function validateProfileInput(input: SigningProfileInput): { material: KeyMaterial; credentials: SigningCredentials } {
+  if (!input || typeof input.name !== 'string' || !input.name.trim()) {
+    throw new AppError(400, 'INVALID_PROFILE', 'プロファイル名は必須です。');
+  }
+  if (input.pkcs12 !== undefined) {
+    if (typeof input.pkcs12 !== 'object' || input.pkcs12 === null || typeof input.pkcs12.content !== 'string') {
+      throw new AppError(400, 'INVALID_PROFILE', 'PKCS#12はBase64の内容（content）を指定してください。');
+    }
+  } else if (typeof input.certificate !== 'string' || typeof input.privateKey !== 'string') {
+    throw new AppError(400, 'INVALID_PROFILE', '証明書と秘密鍵（PEM形式）、またはPKCS#12は必須です。');
+  }
+
+  if (input.tsaUrl !== undefined) {
+    validateTsaSetting(input.tsaUrl);
+  }
+
+  // 証明書と秘密鍵の対応を確認し、署名アルゴリズムを決定
+  const material = resolveKeyMaterial(input);
+  return { material, credentials: resolveSigningCredentials(material.certificate, material.privateKey, input.algorithm) };
+}
+
+/**
+ * 署名プロファイルを登録する
+ * @param input プロファイル情報（証明書チェーン、秘密鍵など）
+ * @returns 鍵素材を含まないプロファイル概要
+ */
+export async function createSigningProfile(input: SigningProfileInput): Promise<SigningProfileSummary> {
+  const secret = requireSecret();
+  const { material, credentials } = validateProfileInput(input);
+  await ensureProfileDir();
+
+  const stored: StoredSigningProfile = {
+    id: generateUniqueId(),
+    name: input.name.trim(),
+    algorithm: credentials.algorithm,
+    tsaUrl: input.tsaUrl,
+    claimGenerator: input.claimGenerator,
+    createdAt: new Date().toISOString(),
+    certificateSummary: summarizeCertificate(credentials.leaf),
+    encrypted: await encryptSecrets(secret, material)
+  };
+
+  await fs.writeFile(getProfilePath(stored.id), JSON.stringify(stored, null, 2), { encoding: 'utf8', mode: 0o600 });
+  console.log(`Signing profile created: ${stored.id} (${stored.name})`);
+
+  return toSummary(stored);
+}
+
+/**
+ * 署名プロファイルの一覧を取得する（鍵素材は含まない）
+ */
+export async function listSigningProfiles(): Promise<SigningProfileSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(PROFILE_DIR);
+  } catch (error) {
+    // ディレクトリが存在しない場合はプロファイルなし
+    return [];
+  }
+
+  const profiles = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(async file => {
+        try {
+          const content = await fs.readFile(path.join(PROFILE_DIR, file), 'utf8');
+          return toSummary(JSON.parse(content));
+        } catch (error) {
+          console.error(`Failed to read signing profile ${file}:`, error);
+          return null;
+        }
+      })
+  );
+
+  return profiles
+    .filter((profile): profile is SigningProfileSummary => profile !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * 署名に使用するプロファイルを鍵素材込みで取得する
+ * @param profileId プロファイルID
+ */
+export async function getSigningProfile(profileId: string): Promise<SigningProfile> {
+  const secret = requireSecret();
+  const stored = await readStoredProfile(profileId);
+  const { certificate, privateKey } = await decryptSecrets(secret, stored.encrypted);
+
+  return {
+    id: stored.id,
+    name: stored.name,
+    certificate,
+    privateKey,
+    algorithm: stored.algorithm,
+    tsaUrl: stored.tsaUrl,
+    claimGenerator: stored.claimGenerator,
+    createdAt: stored.createdAt
+  };
+}
+
+/**
+ * 署名プロファイルを削除する
+ * @param profileId プロファイルID
+ */
+export async function deleteSigningProfile(profileId: string): Promise<void> {
+  await readStoredProfile(profileId);
+  await fs.unlink(getProfilePath(profileId));
+  console.log(`Signing profile deleted: ${profileId}`);
+}
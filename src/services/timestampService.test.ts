@@ -0,0 +1,100 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { decodeDer, decodeInteger } from '../utils/asn1Utils';
+
+// openssl ts -query で作成したタイムスタンプ要求（作成手順は __fixtures__/README.md）
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__', 'timestamp');
+const POLICY_OID = '1.3.6.1.4.1.32473.1.1';
+
+// opensslがない環境では外部ツールでの検証を省略する
+const opensslAvailable = spawnSync('openssl', ['version']).status === 0;
+
+// 内蔵TSAの鍵と証明書は一時ディレクトリに生成する（設定を読み込む前に環境変数を設定する）
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'timestamp-service-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.LOCAL_TSA_CERT_PATH = '';
+process.env.LOCAL_TSA_KEY_PATH = '';
+process.env.LOCAL_TSA_POLICY_OID = POLICY_OID;
+
+/**
+ * TimeStampRespのステータスを取得する
+ */
+function readStatus(response: Buffer): number {
+  return Number(decodeInteger(decodeDer(response).children[0].children[0]));
+}
+
+/**
+ * openssl ts -verify で応答を検証する
+ */
+function verifyWithOpenssl(responsePath: string, args: string[]): { status: number | null; output: string } {
+  const result = spawnSync('openssl', ['ts', '-verify', '-in', responsePath, ...args], { encoding: 'utf8' });
+  return { status: result.status, output: result.stdout + result.stderr };
+}
+
+describe('createTimestampResponse', () => {
+  let timestampService: typeof import('./timestampService');
+  let certificatePath: string;
+
+  before(async () => {
+    timestampService = await import('./timestampService');
+    certificatePath = path.join(dataDir, 'tsa.pem');
+    fs.writeFileSync(certificatePath, await timestampService.getTsaCertificatePem());
+  });
+
+  after(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  // 要求のファイル名と、TSA証明書が応答に含まれるかどうか
+  const requests = [
+    { file: 'sha256-cert.tsq', includesCertificate: true },
+    { file: 'sha384-policy.tsq', includesCertificate: true },
+    { file: 'sha512-no-nonce.tsq', includesCertificate: false }
+  ];
+
+  for (const { file, includesCertificate } of requests) {
+    test(`${file} への応答が openssl ts -verify で検証できる`, async t => {
+      const queryPath = path.join(FIXTURES_DIR, file);
+      const response = await timestampService.createTimestampResponse(fs.readFileSync(queryPath));
+      assert.equal(readStatus(response), 0);
+
+      if (!opensslAvailable) {
+        t.skip('opensslがありません');
+        return;
+      }
+      const responsePath = path.join(dataDir, `${file}.tsr`);
+      fs.writeFileSync(responsePath, response);
+      // 証明書を含まない応答では、検証に使う証明書を別途指定する
+      const certificateArgs = includesCertificate
+        ? ['-CAfile', certificatePath]
+        : ['-CAfile', certificatePath, '-untrusted', certificatePath];
+
+      for (const args of [['-queryfile', queryPath], ['-data', path.join(FIXTURES_DIR, 'data.txt')]]) {
+        const { status, output } = verifyWithOpenssl(responsePath, [...args, ...certificateArgs]);
+        assert.equal(status, 0, output);
+        assert.match(output, /Verification: OK/);
+      }
+    });
+  }
+
+  test('別のデータに対する検証は失敗する', { skip: !opensslAvailable && 'opensslがありません' }, async () => {
+    const response = await timestampService.createTimestampResponse(fs.readFileSync(path.join(FIXTURES_DIR, 'sha256-cert.tsq')));
+    const responsePath = path.join(dataDir, 'mismatch.tsr');
+    const otherDataPath = path.join(dataDir, 'other.txt');
+    fs.writeFileSync(responsePath, response);
+    fs.writeFileSync(otherDataPath, 'other data\n');
+
+    const { status } = verifyWithOpenssl(responsePath, ['-data', otherDataPath, '-CAfile', certificatePath]);
+    assert.notEqual(status, 0);
+  });
+
+  test('解析できない要求には拒否（status 2）を返す', async () => {
+    for (const request of [Buffer.from('not a timestamp request'), fs.readFileSync(path.join(FIXTURES_DIR, 'data.txt'))]) {
+      assert.equal(readStatus(await timestampService.createTimestampResponse(request)), 2);
+    }
+  });
+});
@@ -0,0 +1,429 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto, { KeyObject, X509Certificate } from 'crypto';
+import { config } from '../config';
+import { AppError } from '../utils/errors';
+import {
+  Asn1Node,
+  Asn1Tag,
+  decodeDer,
+  decodeOid,
+  encodeBitString,
+  encodeExplicit,
+  encodeGeneralizedTime,
+  encodeImplicit,
+  encodeInteger,
+  encodeOctetString,
+  encodeOid,
+  encodeSequence,
+  encodeSet,
+  encodeTlv,
+  encodeUtf8String
+} from '../utils/asn1Utils';
+import {
+  basicConstraintsExtension,
+  createCertificate,
+  DIGEST_OIDS,
+  extendedKeyUsageExtension,
+  getSignatureAlgorithm,
+  keyUsageExtension,
+  Oids,
+  parseCertificateDer,
+  subjectKeyIdentifierExtension,
+  toPem
+} from '../utils/x509Utils';
+
+// 内蔵TSA関連の設定
+const tsaConfig = config.c2pa.localTsa;
+const GENERATED_KEY_PATH = path.join(tsaConfig.storageDir, 'tsa-key.pem');
+const GENERATED_CERT_PATH = path.join(tsaConfig.storageDir, 'tsa-cert.pem');
+
+// CMS/TSP関連のOID
+const OID_SIGNED_DATA = '1.2.840.113549.1.7.2';
+const OID_TST_INFO = '1.2.840.113549.1.9.16.1.4';
+const OID_CONTENT_TYPE = '1.2.840.113549.1.9.3';
+const OID_MESSAGE_DIGEST = '1.2.840.113549.1.9.4';
+const OID_SIGNING_CERTIFICATE_V2 = '1.2.840.113549.1.9.16.2.47';
+
+// PKIFailureInfoのビット位置（RFC 3161）
+const FailureInfo = {
+  badAlg: 0,
+  badRequest: 2,
+  badDataFormat: 5,
+  unacceptedPolicy: 15,
+  unacceptedExtension: 16,
+  systemFailure: 25
+} as const;
+
+// ハッシュアルゴリズムごとのダイジェスト長
+const DIGEST_LENGTHS: Record<string, number> = {
+  [Oids.sha1]: 20,
+  [Oids.sha256]: 32,
+  [Oids.sha384]: 48,
+  [Oids.sha512]: 64
+};
+
+// TSAの署名鍵と証明書
+interface TsaCredentials {
+  privateKey: KeyObject;
+  certificate: X509Certificate;
+  certificateDer: Buffer;
+}
+
+// 解析済みのタイムスタンプ要求
+interface TimestampRequest {
+  messageImprint: Asn1Node;
+  hashAlgorithm: string;
+  reqPolicy: string | null;
+  nonce: Asn1Node | null;
+  certReq: boolean;
+}
+
+// TSA処理中の拒否理由
+class TimestampRejection extends Error {
+  failureInfo: number;
+
+  constructor(failureInfo: number, message: string) {
+    super(message);
+    this.failureInfo = failureInfo;
+  }
+}
+
+let cachedCredentials: TsaCredentials | null = null;
+
+/**
+ * 署名リクエスト・プロファイル・設定からTSAのURLを決定する
+ * 優先順位: リクエスト > プロファイル > 設定のデフォルト
+ * @param requested リクエストで指定されたTSA（nullまたは'none'でタイムスタンプなし、'local'で内蔵TSA）
+ * @param profileTsaUrl 署名プロファイルのTSA設定
+ * @returns 使用するTSAのURL（タイムスタンプなしの場合はundefined）
+ */
+export function resolveTsaUrl(requested?: string | null, profileTsaUrl?: string | null): string | undefined {
+  const setting = requested !== undefined
+    ? requested
+    : profileTsaUrl !== undefined
+      ? profileTsaUrl
+      : config.c2pa.defaultTsaUrl;
+
+  if (setting === null || setting === '' || setting === 'none') {
+    return undefined;
+  }
+
+  if (setting === 'local') {
+    if (!tsaConfig.enabled) {
+      throw new AppError(
+        400,
+        'LOCAL_TSA_DISABLED',
+        '内蔵タイムスタンプ局が有効になっていません。LOCAL_TSA_ENABLED=trueを設定してください。'
+      );
+    }
+    return tsaConfig.url;
+  }
+
+  validateTsaSetting(setting);
+  return setting;
+}
+
+/**
+ * TSAのURLを比較用に正規化する
+ * @returns 正規化したURL（http(s)のURLでない場合はnull）
+ */
+function normalizeTsaUrl(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 指定できるTSAのURL（TSA_ALLOWED_URLSとDEFAULT_TSA_URL）を取得する
+ */
+function getAllowedTsaUrls(): string[] {
+  const urls = [...config.c2pa.allowedTsaUrls, config.c2pa.defaultTsaUrl]
+    .map(normalizeTsaUrl)
+    .filter((url): url is string => url !== null);
+  return [...new Set(urls)];
+}
+
+/**
+ * TSA設定値が有効かどうかを検証する
+ * 任意のURLへの接続を防ぐため、URLは許可リストにあるものに限る
+ * @param setting TSAのURL、'local'、'none'、またはnull
+ */
+export function validateTsaSetting(setting: unknown): void {
+  if (setting === null || setting === 'none' || setting === 'local') {
+    return;
+  }
+
+  const url = typeof setting === 'string' ? normalizeTsaUrl(setting) : null;
+  if (!url) {
+    throw new AppError(
+      400,
+      'INVALID_TSA_URL',
+      'TSAはhttp(s)のURL、"local"、"none"、またはnullで指定してください。',
+      { tsaUrl: setting }
+    );
+  }
+
+  const allowedTsaUrls = getAllowedTsaUrls();
+  if (!allowedTsaUrls.includes(url)) {
+    throw new AppError(
+      400,
+      'TSA_URL_NOT_ALLOWED',
+      '指定されたTSAのURLは許可されていません。TSA_ALLOWED_URLSに含まれるURL、"local"、"none"のいずれかを指定してください。',
+      { tsaUrl: setting, allowedTsaUrls }
+    );
+  }
+}
+
+/**
+ * 内蔵TSA用の鍵と自己署名証明書を生成して保存する
+ */
+async function generateTsaCredentials(): Promise<{ keyPem: string; certificatePem: string }> {
+  console.log('Generating local TSA key and certificate...');
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const notBefore = new Date();
+  const notAfter = new Date(notBefore);
+  notAfter.setFullYear(notAfter.getFullYear() + 10);
+
+  const certificateDer = createCertificate({
+    subject: {
+      commonName: `${config.appInfo.name} Local TSA`,
+      organization: config.appInfo.name
+    },
+    publicKey,
+    signingKey: privateKey,
+    notBefore,
+    notAfter,
+    extensions: [
+      basicConstraintsExtension(false),
+      keyUsageExtension(['digitalSignature', 'nonRepudiation']),
+      // RFC 3161ではtimeStampingのみをクリティカルに指定する
+      extendedKeyUsageExtension([Oids.timeStamping], true),
+      subjectKeyIdentifierExtension(publicKey)
+    ]
+  });
+
+  const keyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+  const certificatePem = toPem(certificateDer);
+
+  await fs.mkdir(tsaConfig.storageDir, { recursive: true, mode: 0o700 });
+  await fs.writeFile(GENERATED_KEY_PATH, keyPem, { encoding: 'utf8', mode: 0o600 });
+  await fs.writeFile(GENERATED_CERT_PATH, certificatePem, 'utf8');
+  console.log(`Local TSA certificate saved to ${GENERATED_CERT_PATH}`);
+
+  return { keyPem, certificatePem };
+}
+
+/**
+ * 内蔵TSAの鍵と証明書を取得する
+ * 設定されたパス、保存済みの生成物、新規生成の順に解決する
+ */
+async function getTsaCredentials(): Promise<TsaCredentials> {
+  if (cachedCredentials) {
+    return cachedCredentials;
+  }
+
+  let keyPem: string;
+  let certificatePem: string;
+
+  if (tsaConfig.certificatePath && tsaConfig.privateKeyPath) {
+    [keyPem, certificatePem] = await Promise.all([
+      fs.readFile(tsaConfig.privateKeyPath, 'utf8'),
+      fs.readFile(tsaConfig.certificatePath, 'utf8')
+    ]);
+  } else {
+    try {
+      [keyPem, certificatePem] = await Promise.all([
+        fs.readFile(GENERATED_KEY_PATH, 'utf8'),
+        fs.readFile(GENERATED_CERT_PATH, 'utf8')
+      ]);
+    } catch (error) {
+      ({ keyPem, certificatePem } = await generateTsaCredentials());
+    }
+  }
+
+  const certificate = new X509Certificate(certificatePem);
+  const privateKey = crypto.createPrivateKey(keyPem);
+  if (!certificate.checkPrivateKey(privateKey)) {
+    throw new Error('TSAの秘密鍵が証明書と一致しません。');
+  }
+
+  cachedCredentials = {
+    privateKey,
+    certificate,
+    certificateDer: certificate.raw
+  };
+  return cachedCredentials;
+}
+
+/**
+ * 内蔵TSAの証明書をPEM形式で取得する
+ */
+export async function getTsaCertificatePem(): Promise<string> {
+  const { certificateDer } = await getTsaCredentials();
+  return toPem(certificateDer);
+}
+
+/**
+ * TimeStampReqを解析する
+ */
+function parseTimestampRequest(der: Buffer): TimestampRequest {
+  let root: Asn1Node;
+  try {
+    root = decodeDer(der);
+  } catch (error) {
+    throw new TimestampRejection(FailureInfo.badDataFormat, 'タイムスタンプ要求を解析できません。');
+  }
+
+  const [version, messageImprint, ...optional] = root.children;
+  if (root.tag !== Asn1Tag.SEQUENCE || !version || version.tag !== Asn1Tag.INTEGER || !messageImprint) {
+    throw new TimestampRejection(FailureInfo.badDataFormat, 'タイムスタンプ要求の形式が不正です。');
+  }
+  if (version.content.length !== 1 || version.content[0] !== 1) {
+    throw new TimestampRejection(FailureInfo.badRequest, 'サポートされていないタイムスタンプ要求のバージョンです。');
+  }
+
+  const [algorithm, hashedMessage] = messageImprint.children;
+  if (!algorithm || !hashedMessage || hashedMessage.tag !== Asn1Tag.OCTET_STRING) {
+    throw new TimestampRejection(FailureInfo.badDataFormat, 'messageImprintの形式が不正です。');
+  }
+
+  const hashAlgorithm = decodeOid(algorithm.children[0]);
+  const expectedLength = DIGEST_LENGTHS[hashAlgorithm];
+  if (!expectedLength) {
+    throw new TimestampRejection(FailureInfo.badAlg, `サポートされていないハッシュアルゴリズムです: ${hashAlgorithm}`);
+  }
+  if (hashedMessage.content.length !== expectedLength) {
+    throw new TimestampRejection(FailureInfo.badDataFormat, 'ハッシュ値の長さがアルゴリズムと一致しません。');
+  }
+
+  const request: TimestampRequest = {
+    messageImprint,
+    hashAlgorithm,
+    reqPolicy: null,
+    nonce: null,
+    certReq: false
+  };
+
+  for (const node of optional) {
+    if (node.tag === Asn1Tag.OID) {
+      request.reqPolicy = decodeOid(node);
+    } else if (node.tag === Asn1Tag.INTEGER) {
+      request.nonce = node;
+    } else if (node.tag === Asn1Tag.BOOLEAN) {
+      request.certReq = node.content[0] !== 0;
+    } else if (node.tag === 0xa0) {
+      throw new TimestampRejection(FailureInfo.unacceptedExtension, 'タイムスタンプ要求の拡張には対応していません。');
+    }
+  }
+
+  if (request.reqPolicy && request.reqPolicy !== tsaConfig.policyOid) {
+    throw new TimestampRejection(FailureInfo.unacceptedPolicy, `サポートされていないポリシーです: ${request.reqPolicy}`);
+  }
+
+  return request;
+}
+
+/**
+ * CMS属性をエンコードする
+ */
+function encodeAttribute(oid: string, value: Buffer): Buffer {
+  return encodeSequence(encodeOid(oid), encodeSet(value));
+}
+
+/**
+ * TimeStampToken（CMS SignedData）を作成する
+ */
+function createTimestampToken(request: TimestampRequest, credentials: TsaCredentials): Buffer {
+  const signatureAlgorithm = getSignatureAlgorithm(credentials.privateKey);
+  const digestAlgorithm = encodeSequence(encodeOid(DIGEST_OIDS[signatureAlgorithm.digest]));
+
+  // TSTInfo
+  const tstInfo = encodeSequence(
+    encodeInteger(1),
+    encodeOid(tsaConfig.policyOid),
+    request.messageImprint.raw,
+    encodeInteger(crypto.randomBytes(16)),
+    encodeGeneralizedTime(new Date()),
+    encodeSequence(encodeInteger(1)), // accuracy: 1秒
+    ...(request.nonce ? [request.nonce.raw] : [])
+  );
+
+  // 署名属性（contentType、messageDigest、signingCertificateV2）
+  const certificateHash = crypto.createHash('sha256').update(credentials.certificateDer).digest();
+  const signedAttributes = encodeSet(
+    encodeAttribute(OID_CONTENT_TYPE, encodeOid(OID_TST_INFO)),
+    encodeAttribute(
+      OID_MESSAGE_DIGEST,
+      encodeOctetString(crypto.createHash(signatureAlgorithm.digest).update(tstInfo).digest())
+    ),
+    encodeAttribute(
+      OID_SIGNING_CERTIFICATE_V2,
+      encodeSequence(encodeSequence(encodeSequence(encodeOctetString(certificateHash))))
+    )
+  );
+
+  const parsedCertificate = parseCertificateDer(credentials.certificateDer);
+  const signerInfo = encodeSequence(
+    encodeInteger(1),
+    encodeSequence(parsedCertificate.issuer.raw, parsedCertificate.serialNumber.raw),
+    digestAlgorithm,
+    encodeImplicit(0, signedAttributes, true),
+    signatureAlgorithm.algorithmIdentifier,
+    encodeOctetString(signatureAlgorithm.sign(signedAttributes))
+  );
+
+  const signedData = encodeSequence(
+    encodeInteger(3),
+    encodeSet(digestAlgorithm),
+    encodeSequence(encodeOid(OID_TST_INFO), encodeExplicit(0, encodeOctetString(tstInfo))),
+    ...(request.certReq ? [encodeTlv(0xa0, credentials.certificateDer)] : []),
+    encodeSet(signerInfo)
+  );
+
+  return encodeSequence(encodeOid(OID_SIGNED_DATA), encodeExplicit(0, signedData));
+}
+
+/**
+ * 拒否応答のfailInfo（名前付きBIT STRING）をエンコードする
+ */
+function encodeFailureInfo(bit: number): Buffer {
+  const bytes = Buffer.alloc(Math.floor(bit / 8) + 1);
+  bytes[bytes.length - 1] = 0x80 >> (bit % 8);
+  return encodeBitString(bytes, 7 - (bit % 8));
+}
+
+/**
+ * RFC 3161のタイムスタンプ要求を処理して応答を作成する
+ * 要求が不正な場合も例外は投げず、拒否ステータスの応答を返す
+ * @param requestDer DERエンコードされたTimeStampReq
+ * @returns DERエンコードされたTimeStampResp
+ */
+export async function createTimestampResponse(requestDer: Buffer): Promise<Buffer> {
+  try {
+    const request = parseTimestampRequest(requestDer);
+    const credentials = await getTsaCredentials();
+    const token = createTimestampToken(request, credentials);
+
+    return encodeSequence(encodeSequence(encodeInteger(0)), token);
+  } catch (error) {
+    const rejection = error instanceof TimestampRejection
+      ? error
+      : new TimestampRejection(FailureInfo.systemFailure, 'タイムスタンプの生成に失敗しました。');
+
+    if (!(error instanceof TimestampRejection)) {
+      console.error('Local TSA error:', error);
+    }
+
+    return encodeSequence(
+      encodeSequence(
+        encodeInteger(2), // rejection
+        encodeSequence(encodeUtf8String(rejection.message)),
+        encodeFailureInfo(rejection.failureInfo)
+      )
+    );
+  }
+}
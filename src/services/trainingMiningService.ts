@@ -0,0 +1,153 @@
+import { ResolvedManifest } from 'c2pa-node';
+import {
+  C2paAssertion,
+  TrainingMiningPermission,
+  TrainingMiningPermissions,
+  TrainingMiningPurpose,
+  TrainingMiningUse
+} from '../types';
+import { AppError } from '../utils/errors';
+import { hasOwn, invalidField, propertyPath } from '../utils/schemaUtils';
+
+// 学習・データマイニング許諾のアサーションラベル
+const TRAINING_MINING_LABEL = 'c2pa.training-mining';
+
+// 用途とアサーションのエントリキーの対応
+const PURPOSE_ENTRY_KEYS: Record<TrainingMiningPurpose, string> = {
+  aiTraining: 'c2pa.ai_training',
+  aiGenerativeTraining: 'c2pa.ai_generative_training',
+  aiInference: 'c2pa.ai_inference',
+  dataMining: 'c2pa.data_mining'
+};
+
+const TRAINING_MINING_USES: TrainingMiningUse[] = ['allowed', 'notAllowed', 'constrained'];
+
+// 制約内容の最大長
+const MAX_CONSTRAINT_INFO_LENGTH = 1000;
+
+// リクエストでの学習・データマイニング許諾のJSONパス
+const TRAINING_MINING_PATH = '$.manifestData.trainingMining';
+
+/**
+ * 学習・データマイニング許諾の検証エラーを作成する
+ * @param path エラーのある項目のJSONパス
+ * @param message 理由
+ */
+function invalidTrainingMining(path: string, message: string): AppError {
+  return invalidField('INVALID_TRAINING_MINING', path, message);
+}
+
+/**
+ * 用途ごとの許諾を検証・正規化する
+ */
+function normalizePermission(purpose: string, value: unknown): TrainingMiningPermission {
+  const path = propertyPath(TRAINING_MINING_PATH, purpose);
+  const permission = typeof value === 'string'
+    ? { use: value }
+    : value as { use?: unknown; constraintInfo?: unknown } | null;
+
+  if (!permission || typeof permission !== 'object' || !TRAINING_MINING_USES.includes(permission.use as TrainingMiningUse)) {
+    throw invalidTrainingMining(
+      path,
+      `${purpose}の許諾は ${TRAINING_MINING_USES.join(', ')} のいずれかで指定してください。`
+    );
+  }
+
+  const { use, constraintInfo } = permission as { use: TrainingMiningUse; constraintInfo?: unknown };
+
+  if (use === 'constrained') {
+    if (typeof constraintInfo !== 'string' || constraintInfo.trim() === '') {
+      throw invalidTrainingMining(
+        `${path}.constraintInfo`,
+        `${purpose}をconstrainedとする場合は制約内容（constraintInfo）を指定してください。`
+      );
+    }
+    if (constraintInfo.length > MAX_CONSTRAINT_INFO_LENGTH) {
+      throw invalidTrainingMining(
+        `${path}.constraintInfo`,
+        `制約内容は${MAX_CONSTRAINT_INFO_LENGTH}文字以内で指定してください。`
+      );
+    }
+    return { use, constraintInfo: constraintInfo.trim() };
+  }
+
+  if (constraintInfo !== undefined) {
+    throw invalidTrainingMining(
+      `${path}.constraintInfo`,
+      'constraintInfoはconstrainedの場合のみ指定できます。'
+    );
+  }
+  return { use };
+}
+
+/**
+ * 学習・データマイニング許諾の指定からc2pa.training-miningアサーションを作成する
+ * @param trainingMining 用途ごとの許諾（文字列または{ use, constraintInfo }）
+ * @param assertions マニフェストに指定済みのアサーション（重複の確認に使用）
+ * @returns c2pa.training-miningアサーション（指定がない場合はnull）
+ */
+export function createTrainingMiningAssertion(
+  trainingMining: unknown,
+  assertions: C2paAssertion[] = []
+): C2paAssertion | null {
+  if (trainingMining === undefined || trainingMining === null) {
+    return null;
+  }
+  if (typeof trainingMining !== 'object' || Array.isArray(trainingMining)) {
+    throw invalidTrainingMining(TRAINING_MINING_PATH, 'trainingMiningはオブジェクトで指定してください。');
+  }
+  if (assertions.some(assertion => assertion.label === TRAINING_MINING_LABEL)) {
+    throw invalidTrainingMining(
+      TRAINING_MINING_PATH,
+      `${TRAINING_MINING_LABEL}アサーションがassertionsにも指定されています。どちらか一方で指定してください。`
+    );
+  }
+
+  const entries: Record<string, { use: TrainingMiningUse; constraint_info?: string }> = {};
+
+  for (const [purpose, value] of Object.entries(trainingMining)) {
+    const entryKey = hasOwn(PURPOSE_ENTRY_KEYS, purpose) ? PURPOSE_ENTRY_KEYS[purpose as TrainingMiningPurpose] : undefined;
+    if (!entryKey) {
+      throw invalidTrainingMining(
+        propertyPath(TRAINING_MINING_PATH, purpose),
+        `不明な用途です: ${purpose}（${Object.keys(PURPOSE_ENTRY_KEYS).join(', ')} のいずれか）`
+      );
+    }
+    const { use, constraintInfo } = normalizePermission(purpose, value);
+    entries[entryKey] = constraintInfo ? { use, constraint_info: constraintInfo } : { use };
+  }
+
+  if (Object.keys(entries).length === 0) {
+    throw invalidTrainingMining(TRAINING_MINING_PATH, '少なくとも1つの用途の許諾を指定してください。');
+  }
+
+  return {
+    label: TRAINING_MINING_LABEL,
+    data: { entries }
+  };
+}
+
+/**
+ * マニフェストのc2pa.training-miningアサーションを解析する
+ * @param manifest c2pa-nodeが返すマニフェスト
+ * @returns 用途ごとの許諾（アサーションがない場合はnull）
+ */
+export function parseTrainingMining(manifest: ResolvedManifest | null | undefined): TrainingMiningPermissions | null {
+  const assertion = manifest?.assertions?.find(item => item?.label === TRAINING_MINING_LABEL);
+  const entries = assertion?.data?.entries;
+
+  if (!entries || typeof entries !== 'object') {
+    return null;
+  }
+
+  const permissions: TrainingMiningPermissions = {};
+  for (const [purpose, entryKey] of Object.entries(PURPOSE_ENTRY_KEYS)) {
+    const entry = entries[entryKey];
+    if (entry && TRAINING_MINING_USES.includes(entry.use)) {
+      permissions[purpose as TrainingMiningPurpose] = typeof entry.constraint_info === 'string'
+        ? { use: entry.use, constraintInfo: entry.constraint_info }
+        : { use: entry.use };
+    }
+  }
+  return permissions;
+}
@@ -223,6 +223,7 @@ export async function getTrustListPaths(): Promise<{
 
 /**
  * トラストリストファイルの内容を取得する
+ * 組織独自の信頼リスト（privateTrustStoreService）は含まない
  */
 export async function getTrustListContents(): Promise<{
   trustAnchors: string;
@@ -61,10 +61,29 @@ declare module 'c2pa-node' {
       validation_status: string | ValidationStatus[] | null;
     }
   
+    export interface StorableIngredient {
+      ingredient: Record<string, any>;
+      resources: Record<string, Buffer>;
+    }
+  
+    export interface CreateIngredientProps {
+      asset: Asset;
+      title: string;
+      thumbnail?: BufferAsset | false;
+      hash?: string;
+    }
+  
+    export interface SignClaimBytesProps {
+      claim: Buffer;
+      reserveSize: number;
+      signer: Signer;
+    }
+  
     export interface C2pa {
       read(asset: Asset): Promise<ResolvedManifestStore | null>;
-      createIngredient(props: any): Promise<any>;
+      createIngredient(props: CreateIngredientProps): Promise<StorableIngredient>;
       sign(props: any): Promise<any>;
+      signClaimBytes(props: SignClaimBytesProps): Promise<Buffer>;
     }
   
     export interface ManifestBuilderOptions {
@@ -73,7 +92,7 @@ declare module 'c2pa-node' {
   
     export interface ManifestBuilder {
       definition: any;
-      addIngredient(ingredient: any): ManifestBuilder;
+      addIngredient(ingredient: StorableIngredient): ManifestBuilder;
       addThumbnail(thumbnail: BufferAsset): Promise<void>;
       asSendable(): any;
     }
@@ -101,10 +120,15 @@ declare module 'c2pa-node' {
       tsaUrl?: string;
     }
   
+    export interface SignInput {
+      reserveSize: number;
+      toBeSigned: Buffer;
+    }
+  
     export interface RemoteSigner {
       type: 'remote';
       reserveSize: () => Promise<number>;
-      sign: (input: any) => Promise<Buffer>;
+      sign: (input: SignInput) => Promise<Buffer>;
     }
   
     export type Signer = LocalSigner | RemoteSigner;
@@ -11,6 +11,19 @@ export interface C2paAction {
   [key: string]: unknown;
 }
 
+// リクエストで指定するアクション
+export interface C2paActionInput {
+  // アクション名（例: created, c2pa.cropped, com.example.retouched）
+  action: string;
+  when?: string;
+  softwareAgent?: string | { name: string; version?: string };
+  // IPTCのデジタルソースタイプ（語彙の名前またはURI）
+  digitalSourceType?: string;
+  parameters?: Record<string, unknown>;
+  // アクションが参照する材料のファイルID
+  ingredientFileIds?: string[];
+}
+
 export interface C2paIngredient {
   title: string;
   format?: string;
@@ -42,9 +55,71 @@ export interface C2paManifestData {
   validation_status: string;
   validation_errors?: string[];
   validation_warnings?: string[];
+  // 材料をたどって生成AIの関与が記録されているかどうか
+  aiGenerated?: boolean;
+  aiSources?: AiProvenanceSource[];
+  // アクティブマニフェストの学習・データマイニング許諾
+  trainingMining?: TrainingMiningPermissions | null;
   [key: string]: unknown;
 }
 
+// CreativeWorkの著作者・著作権者
+export interface CreativeWorkEntity {
+  type?: 'Person' | 'Organization';
+  name: string;
+  url?: string;
+  // ORCIDやISNIなどの識別子
+  identifier?: string;
+}
+
+// schema.orgのCreativeWorkとして記録する作品情報
+export interface CreativeWorkInput {
+  authors?: Array<string | CreativeWorkEntity>;
+  copyrightHolder?: string | CreativeWorkEntity;
+  copyrightNotice?: string;
+  // ライセンスのURL
+  license?: string;
+  dateCreated?: string;
+  keywords?: string[];
+  description?: string;
+}
+
+// 学習・データマイニング許諾の用途
+export type TrainingMiningPurpose = 'aiTraining' | 'aiGenerativeTraining' | 'aiInference' | 'dataMining';
+
+// 学習・データマイニングの許諾
+export type TrainingMiningUse = 'allowed' | 'notAllowed' | 'constrained';
+
+export interface TrainingMiningPermission {
+  use: TrainingMiningUse;
+  // constrainedの場合の制約内容
+  constraintInfo?: string;
+}
+
+// 用途ごとの学習・データマイニング許諾
+export type TrainingMiningPermissions = Partial<Record<TrainingMiningPurpose, TrainingMiningPermission>>;
+
+// 生成AIの関与を記録しているアクション
+export interface AiProvenanceSource {
+  manifest: string;
+  action: string;
+  digitalSourceType: string;
+  softwareAgent: string | null;
+}
+
+// 生成AIで作成・編集したことの開示
+export interface AiDisclosure {
+  // generated: 生成AIで作成、edited: 生成AIで編集
+  mode: 'generated' | 'edited';
+  model: {
+    name: string;
+    version?: string;
+  };
+  prompt?: string;
+  // シード値やステップ数など生成時のパラメータ
+  generationParameters?: Record<string, unknown>;
+}
+
 // 画像メタデータの型
 export interface AssetMetadata {
   name: string;
@@ -54,6 +129,20 @@ export interface AssetMetadata {
   [key: string]: unknown;
 }
 
+// 材料（イングリディエント）と署名対象アセットの関係
+export type IngredientRelationship = 'parentOf' | 'componentOf' | 'inputTo';
+
+// 材料として参照するアップロード済みファイル
+export interface IngredientReference {
+  fileId: string;
+  relationship?: IngredientRelationship;
+  // 材料のタイトル（省略時はアップロード時の元のファイル名）
+  title?: string;
+}
+
+// 関係を確定した材料の参照
+export type NormalizedIngredientReference = Required<Omit<IngredientReference, 'title'>> & Pick<IngredientReference, 'title'>;
+
 // 署名データの型
 export interface SignData {
   fileId: string;
@@ -65,6 +154,10 @@ export interface SignData {
     claimGenerator: string;
     format?: string;
     assertions: C2paAssertion[];
+    // schema.orgのCreativeWork（creator・copyright・descriptionより優先）
+    creativeWork?: CreativeWorkInput;
+    // AI学習・推論・データマイニングの許諾（c2pa.training-mining）
+    trainingMining?: Partial<Record<TrainingMiningPurpose, TrainingMiningUse | TrainingMiningPermission>>;
     [key: string]: unknown;
   };
   certificate?: {
@@ -74,8 +167,123 @@ export interface SignData {
   privateKey?: {
     content: string;
     name: string;
+    // 暗号化された秘密鍵のパスフレーズ
+    passphrase?: string;
+  };
+  // 証明書チェーンと秘密鍵をまとめたPKCS#12（.p12/.pfx）。certificate・privateKeyより優先
+  pkcs12?: {
+    // ファイルの内容（Base64）
+    content: string;
+    name?: string;
+    password?: string;
   };
   useLocalSigner?: boolean;
+  useRemoteSigner?: boolean;
+  profileId?: string;
+  algorithm?: string;
+  // TSAのURL。nullまたは'none'でタイムスタンプなし、'local'で内蔵TSA
+  tsaUrl?: string | null;
+  // 材料とするファイル（文字列の場合はingredientRelationshipの関係を使用）
+  ingredientFileIds?: Array<string | IngredientReference>;
+  ingredientRelationship?: IngredientRelationship;
+  // 既存のC2PAマニフェストを親材料として引き継ぐかどうか（デフォルトはtrue）
+  preserveProvenance?: boolean;
+  // クレームと材料のサムネイルを含めるかどうか（デフォルトはtrue）
+  includeThumbnail?: boolean;
+  // c2pa.actionsに記録するアクション
+  actions?: C2paActionInput[];
+  // 生成AIによる作成・編集の開示
+  aiDisclosure?: AiDisclosure;
+  // アップロードファイルのEXIF/IPTC/XMPをstds.exif・stds.iptc.photo-metadataとして含める
+  photoMetadata?: boolean | PhotoMetadataOptions;
+  // 位置情報・シリアル番号・所有者名の扱い（省略時はPRIVACY_POLICYの設定）
+  privacyPolicy?: PrivacyPolicy;
+  // マニフェストの出力方法（デフォルトはembedded）
+  manifestMode?: ManifestMode;
+  // 使用するマニフェストテンプレートのID（manifestDataとactionsはテンプレートに上書き・追加する）
+  templateId?: string;
+  // テンプレートのプレースホルダーに埋め込む値（filename・dateの既定値も上書きできる）
+  templateVariables?: Record<string, string>;
+}
+
+// 一括署名でファイルごとに上書きする指定（manifestDataは共通の指定に項目単位で上書きする）
+export type BatchSignOverrides = Partial<Omit<SignData, 'fileId' | 'manifestData'>> & {
+  manifestData?: Partial<SignData['manifestData']>;
+};
+
+// 一括署名の対象ファイル
+export interface BatchSignItem {
+  fileId: string;
+  overrides?: BatchSignOverrides;
+}
+
+// 一括署名リクエスト（fileIds以外は全ファイルに共通の署名リクエスト）
+export interface BatchSignData extends Omit<SignData, 'fileId'> {
+  // 署名するファイル（文字列の場合は共通の指定のみで署名）
+  fileIds: Array<string | BatchSignItem>;
+  // 同時に署名するファイル数（設定の上限を超える値は上限に丸める）
+  concurrency?: number;
+}
+
+// マニフェストの出力方法（embedded: アセットに埋め込み、sidecar: .c2paファイル、remote: サーバーに保存してXMPから参照）
+export type ManifestMode = 'embedded' | 'sidecar' | 'remote';
+
+// 個人情報保護ポリシー（warn: 検出時に署名を中止、strip: 削除、coarsen: 座標を丸める）
+export type PrivacyPolicy = 'warn' | 'strip' | 'coarsen';
+
+// 個人情報保護で検出・処理した項目
+export interface PrivacyFinding {
+  // アサーションラベルから始まる項目のパス
+  path: string;
+  category: 'location' | 'deviceSerial' | 'ownerName';
+  action: 'detected' | 'removed' | 'coarsened';
+}
+
+// 署名前の確認（/api/c2pa/sign/preview）で返す警告
+export interface ManifestPreviewWarning {
+  code: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+// 写真メタデータ（EXIF/IPTC/XMP）の値
+export type PhotoMetadataValue = string | number | string[];
+
+// 写真メタデータの指定
+export interface PhotoMetadataOptions {
+  // アップロードファイルから抽出するかどうか（デフォルトはtrue）
+  extract?: boolean;
+  // 抽出値の上書き（キーはtiff:Makeなどの項目名、nullで削除）
+  overrides?: Record<string, PhotoMetadataValue | null>;
+}
+
+// 編集結果の出力形式
+export type EditOutputFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'tiff' | 'gif';
+
+// 画像の編集操作（指定順に適用し、操作ごとにc2pa.actionsのアクションとして記録する）
+export type EditOperation =
+  | { type: 'crop'; left: number; top: number; width: number; height: number }
+  | { type: 'resize'; width?: number; height?: number; fit: 'cover' | 'contain' | 'fill' | 'inside' | 'outside' }
+  | { type: 'rotate'; angle: number }
+  | { type: 'flip'; direction: 'horizontal' | 'vertical' }
+  | { type: 'format'; format: EditOutputFormat; quality?: number }
+  | { type: 'color'; brightness?: number; saturation?: number; hue?: number; grayscale?: boolean };
+
+// 編集リクエスト（編集後の画像は署名リクエストと同じ指定で署名する）
+export interface EditData extends Omit<SignData, 'fileId'> {
+  // 編集元のファイルID（編集後の画像のparentOf材料になる）
+  fileId: string;
+  operations: EditOperation[];
+}
+
+// 形式変換リクエスト（変換後の画像は署名リクエストと同じ指定で署名する）
+export interface TranscodeData extends Omit<SignData, 'fileId'> {
+  // 変換元のファイルID（変換後の画像のparentOf材料になる）
+  fileId: string;
+  targetFormat: EditOutputFormat;
+  quality?: number;
+  // trueの場合はmanifestMode: 'sidecar'と同じ
+  sidecar?: boolean;
 }
 
 // 検証結果の型
@@ -111,9 +319,207 @@ export interface SigningConfig {
   useTrustStore?: boolean;
 }
 
-// C2PAマニフェストビルダーのオプション型
+// 署名プロファイルの型（鍵素材は暗号化して保存）
+export interface SigningProfile {
+  id: string;
+  name: string;
+  certificate: string;
+  privateKey: string;
+  algorithm?: string;
+  tsaUrl?: string | null;
+  claimGenerator?: string;
+  createdAt: string;
+}
+
+// 鍵素材を含まない署名プロファイルの概要
+export interface SigningProfileSummary {
+  id: string;
+  name: string;
+  algorithm?: string;
+  tsaUrl?: string | null;
+  claimGenerator?: string;
+  createdAt: string;
+  certificate: {
+    subject: string;
+    issuer: string;
+    validFrom: string;
+    validTo: string;
+    fingerprint256: string;
+  };
+}
+
+// 署名プロファイル作成リクエストの型
+export interface SigningProfileInput {
+  name: string;
+  certificate?: string;
+  privateKey?: string;
+  // 暗号化された秘密鍵のパスフレーズ
+  passphrase?: string;
+  // 証明書・秘密鍵の代わりに指定するPKCS#12（Base64）とパスワード
+  pkcs12?: {
+    content: string;
+    password?: string;
+  };
+  algorithm?: string;
+  tsaUrl?: string | null;
+  claimGenerator?: string;
+}
+
+// 証明書チェーンの検査で検出した問題（errorはC2PAの証明書プロファイル違反）
+export interface CertificateIssue {
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+  // 問題のある証明書のチェーン内の位置
+  index?: number;
+  details?: Record<string, unknown>;
+}
+
+// 証明書チェーン内の1つの証明書の検査結果
+export interface CertificateInspection {
+  index: number;
+  // チェーン内の役割（先頭は署名用のリーフ、自己署名はルート）
+  role: 'leaf' | 'intermediate' | 'root';
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  fingerprint256: string;
+  version: number;
+  signatureAlgorithm: string;
+  validFrom: string;
+  validTo: string;
+  expired: boolean;
+  notYetValid: boolean;
+  selfSigned: boolean;
+  key: { type: string | null; namedCurve?: string; modulusLength?: number };
+  keyUsage: { critical: boolean; usages: string[] } | null;
+  extendedKeyUsage: { critical: boolean; purposes: Array<{ oid: string; name: string | null }> } | null;
+  basicConstraints: { critical: boolean; ca: boolean; pathLength: number | null } | null;
+}
+
+// 証明書チェーンの検査結果
+export interface CertificateChainInspection {
+  // エラーがない（C2PAの証明書プロファイルに適合する）かどうか
+  conformant: boolean;
+  certificates: CertificateInspection[];
+  chain: {
+    // 各証明書が次の証明書によって発行されているかどうか
+    ordered: boolean;
+    // 順序が正しくない場合の正しい順序（元の位置の配列。並べ替えられない場合はnull）
+    suggestedOrder: number[] | null;
+  };
+  issues: CertificateIssue[];
+}
+
+// 組織独自のトラストアンカー（公開の信頼リストとあわせて検証に使用する）
+export interface PrivateTrustAnchor {
+  // 証明書のSHA-256フィンガープリント（16進小文字）
+  id: string;
+  label: string;
+  subject: string;
+  validTo: string;
+  certificate: string;
+  addedAt: string;
+}
+
+// 組織独自に個別に信頼する署名証明書（項目はトラストアンカーと同じ）
+export type PrivateAllowedCertificate = PrivateTrustAnchor;
+
+// 署名証明書の信頼を確立した信頼リストのエントリ
+export interface CertificateTrustSource {
+  // trustAnchor: トラストアンカー、allowedCertificate: 個別に信頼する証明書、allowedHash: allowed.sha256.txt
+  type: 'trustAnchor' | 'allowedCertificate' | 'allowedHash';
+  // public: 公開の信頼リスト（anchors.pem・allowed.pem・allowed.sha256.txt）、private: 組織独自の信頼リスト
+  store: 'public' | 'private';
+  // 組織独自の信頼リストのエントリのIDと表示名
+  id?: string;
+  label?: string;
+  subject: string;
+  fingerprint256: string;
+  // allowedHashの場合に一致したハッシュ（Base64）
+  hash?: string;
+}
+
+// 署名証明書を信頼できなかった理由
+export interface CertificateTrustFailure {
+  code: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+// 署名証明書チェーンの信頼性の評価結果
+export interface CertificateTrustInfo {
+  // unknownは証明書チェーンまたは信頼リストを取得できず評価できなかった場合
+  status: 'trusted' | 'untrusted' | 'unknown';
+  isTrusted: boolean;
+  issuer: string | null;
+  timestamp: string | null;
+  // 証明書の有効期間の判定に使用した日時（タイムスタンプがあればその日時、なければ現在日時）
+  validationTime: string;
+  timeSource: 'timestamp' | 'current';
+  // マニフェストから取り出した証明書チェーン（リーフが先頭）
+  chain: Array<{
+    subject: string;
+    issuer: string;
+    serialNumber: string;
+    fingerprint256: string;
+    validFrom: string;
+    validTo: string;
+  }>;
+  trustedBy: CertificateTrustSource | null;
+  failure: CertificateTrustFailure | null;
+  errorMessage: string | null;
+}
+
+// 開発用認証局の証明書発行リクエストの型
+export interface DevCertificateRequest {
+  // 発行する署名証明書のアルゴリズム（省略時は対応するすべてのアルゴリズム）
+  algorithms?: string[];
+  commonName?: string;
+  organization?: string;
+  validityDays?: number;
+  // ルートCAを組織独自のトラストアンカーとして登録するかどうか
+  registerTrustAnchor?: boolean;
+}
+
+// 開発用認証局が発行した署名証明書
+export interface DevSigningCertificate {
+  algorithm: string;
+  // リーフ証明書と中間CA証明書のチェーン（PEM、署名リクエストのcertificate.contentに指定できる）
+  certificate: string;
+  privateKey: string;
+  subject: string;
+  serialNumber: string;
+  fingerprint256: string;
+  validFrom: string;
+  validTo: string;
+}
+
+// C2PAマニフェストビルダーのオプション型（マニフェストテンプレートで指定する）
 export interface ManifestBuilderOptions {
+  // マニフェストのラベルの接頭辞（例: acme で acme:urn:uuid:...）
   vendor?: string;
+  // 親材料がない場合（新規作成）にc2pa.createdを記録するかどうか
   includeCreatedAction?: boolean;
+  // 署名リクエストでincludeThumbnailが省略された場合の既定値
   includeThumbnail?: boolean;
+}
+
+// マニフェストテンプレート作成・更新リクエストの型
+// 文字列中の{{filename}}・{{date}}・{{user}}などのプレースホルダーは署名時に置き換える
+export interface ManifestTemplateInput {
+  name: string;
+  description?: string;
+  // 署名リクエストのmanifestDataの雛形
+  manifestData: Partial<SignData['manifestData']>;
+  // リクエストのactionsより前に記録するアクション
+  actions?: C2paActionInput[];
+  options?: ManifestBuilderOptions;
+}
+
+// マニフェストテンプレートの型
+export interface ManifestTemplate extends ManifestTemplateInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
 }
\ No newline at end of file
@@ -0,0 +1,320 @@
+/**
+ * DERエンコード/デコードの最小実装
+ * RFC 3161タイムスタンプや証明書の生成・解析に使用する
+ */
+
+// よく使うタグ番号（UNIVERSALクラス）
+export const Asn1Tag = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31
+} as const;
+
+// デコードされたASN.1ノード
+export interface Asn1Node {
+  // 先頭の識別子オクテット（クラス・構造化フラグ・タグ番号を含む）
+  tag: number;
+  tagClass: number;
+  constructed: boolean;
+  tagNumber: number;
+  // 内容オクテット
+  content: Buffer;
+  // タグと長さを含む全体のバイト列
+  raw: Buffer;
+  children: Asn1Node[];
+}
+
+/**
+ * 長さオクテットをエンコードする
+ */
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+  const bytes: number[] = [];
+  let remaining = length;
+  while (remaining > 0) {
+    bytes.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+/**
+ * タグと内容からTLVを作成する
+ * @param tag 識別子オクテット
+ * @param content 内容
+ */
+export function encodeTlv(tag: number, content: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+}
+
+export function encodeSequence(...items: Buffer[]): Buffer {
+  return encodeTlv(Asn1Tag.SEQUENCE, Buffer.concat(items));
+}
+
+/**
+ * SET OFをエンコードする（DERの規則に従い要素をソートする）
+ */
+export function encodeSet(...items: Buffer[]): Buffer {
+  const sorted = [...items].sort(Buffer.compare);
+  return encodeTlv(Asn1Tag.SET, Buffer.concat(sorted));
+}
+
+/**
+ * INTEGERをエンコードする
+ * @param value 数値、bigint、または符号なし整数のバイト列
+ */
+export function encodeInteger(value: number | bigint | Buffer): Buffer {
+  let bytes: Buffer;
+  if (Buffer.isBuffer(value)) {
+    bytes = value;
+  } else {
+    let hex = BigInt(value).toString(16);
+    if (hex.length % 2) {
+      hex = `0${hex}`;
+    }
+    bytes = Buffer.from(hex, 'hex');
+  }
+
+  // 先頭の余分なゼロを除去し、最上位ビットが立っている場合は0x00を付与
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0 && (bytes[start + 1] & 0x80) === 0) {
+    start++;
+  }
+  bytes = bytes.subarray(start);
+  if (bytes.length === 0 || bytes[0] & 0x80) {
+    bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  }
+  return encodeTlv(Asn1Tag.INTEGER, bytes);
+}
+
+export function encodeBoolean(value: boolean): Buffer {
+  return encodeTlv(Asn1Tag.BOOLEAN, Buffer.from([value ? 0xff : 0x00]));
+}
+
+export function encodeNull(): Buffer {
+  return encodeTlv(Asn1Tag.NULL, Buffer.alloc(0));
+}
+
+/**
+ * OBJECT IDENTIFIERをエンコードする
+ * @param oid ドット区切りのOID文字列
+ */
+export function encodeOid(oid: string): Buffer {
+  const parts = oid.split('.').map(part => Number(part));
+  const bytes: number[] = [parts[0] * 40 + parts[1]];
+
+  for (const part of parts.slice(2)) {
+    const encoded: number[] = [part & 0x7f];
+    let remaining = Math.floor(part / 128);
+    while (remaining > 0) {
+      encoded.unshift((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 128);
+    }
+    bytes.push(...encoded);
+  }
+  return encodeTlv(Asn1Tag.OID, Buffer.from(bytes));
+}
+
+export function encodeOctetString(value: Buffer): Buffer {
+  return encodeTlv(Asn1Tag.OCTET_STRING, value);
+}
+
+/**
+ * BIT STRINGをエンコードする
+ * @param value ビット列
+ * @param unusedBits 最終オクテットの未使用ビット数
+ */
+export function encodeBitString(value: Buffer, unusedBits = 0): Buffer {
+  return encodeTlv(Asn1Tag.BIT_STRING, Buffer.concat([Buffer.from([unusedBits]), value]));
+}
+
+export function encodeUtf8String(value: string): Buffer {
+  return encodeTlv(Asn1Tag.UTF8_STRING, Buffer.from(value, 'utf8'));
+}
+
+export function encodePrintableString(value: string): Buffer {
+  return encodeTlv(Asn1Tag.PRINTABLE_STRING, Buffer.from(value, 'ascii'));
+}
+
+export function encodeIa5String(value: string): Buffer {
+  return encodeTlv(Asn1Tag.IA5_STRING, Buffer.from(value, 'ascii'));
+}
+
+/**
+ * GeneralizedTimeをエンコードする（UTC、ミリ秒精度）
+ */
+export function encodeGeneralizedTime(date: Date): Buffer {
+  const iso = date.toISOString(); // 2024-01-02T03:04:05.678Z
+  const millis = iso.slice(20, 23).replace(/0+$/, '');
+  const value = iso.slice(0, 19).replace(/[-:T]/g, '') + (millis ? `.${millis}` : '') + 'Z';
+  return encodeTlv(Asn1Tag.GENERALIZED_TIME, Buffer.from(value, 'ascii'));
+}
+
+/**
+ * 証明書の有効期間用の時刻をエンコードする
+ * RFC 5280に従い2049年まではUTCTime、それ以降はGeneralizedTimeを使用する
+ */
+export function encodeTime(date: Date): Buffer {
+  const iso = date.toISOString();
+  if (date.getUTCFullYear() < 2050) {
+    const value = iso.slice(2, 19).replace(/[-:T]/g, '') + 'Z';
+    return encodeTlv(Asn1Tag.UTC_TIME, Buffer.from(value, 'ascii'));
+  }
+  const value = iso.slice(0, 19).replace(/[-:T]/g, '') + 'Z';
+  return encodeTlv(Asn1Tag.GENERALIZED_TIME, Buffer.from(value, 'ascii'));
+}
+
+/**
+ * コンテキスト固有タグ [n] EXPLICIT でラップする
+ */
+export function encodeExplicit(tagNumber: number, content: Buffer): Buffer {
+  return encodeTlv(0xa0 | tagNumber, content);
+}
+
+/**
+ * コンテキスト固有タグ [n] IMPLICIT でタグを置き換える
+ * @param tagNumber タグ番号
+ * @param encoded 元のTLV
+ * @param constructed 構造化型かどうか
+ */
+export function encodeImplicit(tagNumber: number, encoded: Buffer, constructed: boolean): Buffer {
+  const node = decodeDer(encoded);
+  return encodeTlv((constructed ? 0xa0 : 0x80) | tagNumber, node.content);
+}
+
+/**
+ * 指定位置からDERの1要素をデコードする
+ */
+function decodeAt(buffer: Buffer, offset: number): Asn1Node {
+  if (offset + 2 > buffer.length) {
+    throw new Error('ASN.1データが途中で終わっています。');
+  }
+
+  const tag = buffer[offset];
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error('複数オクテットのタグ番号には対応していません。');
+  }
+
+  let length = buffer[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new Error('サポートされていない長さエンコーディングです。');
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + buffer[offset + 2 + i];
+    }
+    headerLength += lengthBytes;
+  }
+
+  const end = offset + headerLength + length;
+  if (end > buffer.length) {
+    throw new Error('ASN.1データの長さが不正です。');
+  }
+
+  const content = buffer.subarray(offset + headerLength, end);
+  const constructed = (tag & 0x20) !== 0;
+  const children: Asn1Node[] = [];
+
+  if (constructed) {
+    let childOffset = 0;
+    while (childOffset < content.length) {
+      const child = decodeAt(content, childOffset);
+      children.push(child);
+      childOffset += child.raw.length;
+    }
+  }
+
+  return {
+    tag,
+    tagClass: tag & 0xc0,
+    constructed,
+    tagNumber: tag & 0x1f,
+    content,
+    raw: buffer.subarray(offset, end),
+    children
+  };
+}
+
+/**
+ * DERバイト列をデコードする
+ * @param buffer DERエンコードされたデータ
+ * @returns ルートノード
+ */
+export function decodeDer(buffer: Buffer): Asn1Node {
+  const node = decodeAt(buffer, 0);
+  if (node.raw.length !== buffer.length) {
+    throw new Error('ASN.1データの末尾に余分なバイトがあります。');
+  }
+  return node;
+}
+
+/**
+ * OBJECT IDENTIFIERノードを文字列に変換する
+ */
+export function decodeOid(node: Asn1Node): string {
+  const bytes = node.content;
+  const first = bytes[0];
+  const parts = [Math.floor(first / 40), first % 40];
+  let value = 0;
+
+  for (const byte of bytes.subarray(1)) {
+    value = value * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+/**
+ * INTEGERノードをbigintに変換する（非負整数のみ）
+ */
+export function decodeInteger(node: Asn1Node): bigint {
+  if (node.content.length === 0) {
+    return BigInt(0);
+  }
+  return BigInt(`0x${node.content.toString('hex')}`);
+}
+
+/**
+ * 文字列系ノードの値を取得する
+ */
+export function decodeString(node: Asn1Node): string {
+  return node.content.toString(node.tag === Asn1Tag.UTF8_STRING ? 'utf8' : 'latin1');
+}
+
+/**
+ * 時刻ノード（UTCTime/GeneralizedTime）をDateに変換する
+ */
+export function decodeTime(node: Asn1Node): Date {
+  const value = node.content.toString('ascii');
+  const full = node.tag === Asn1Tag.UTC_TIME
+    ? `${Number(value.slice(0, 2)) < 50 ? '20' : '19'}${value}`
+    : value;
+  const match = full.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d+))?Z$/);
+  if (!match) {
+    throw new Error(`サポートされていない時刻形式です: ${value}`);
+  }
+  const [, year, month, day, hour, minute, second, fraction] = match;
+  return new Date(Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    Number(hour), Number(minute), Number(second),
+    fraction ? Number(`0.${fraction}`) * 1000 : 0
+  ));
+}
@@ -1,4 +1,4 @@
-import { AssetMetadata, C2paAssertion } from '../types';
+import { AssetMetadata, C2paAction, C2paAssertion } from '../types';
 import { createHash } from 'crypto';
 import fs from 'fs/promises';
 
@@ -44,16 +44,18 @@ export function createAssertion(label: string, data: Record<string, unknown>): C
 /**
  * C2PA作成アクションアサーションを生成する
  * @param timestamp タイムスタンプ（デフォルトは現在時刻）
+ * @param digitalSourceType IPTCのデジタルソースタイプのURI
  * @returns C2PA作成アクションアサーション
  */
-export function createCreatedAction(timestamp?: string): C2paAssertion {
+export function createCreatedAction(timestamp?: string, digitalSourceType?: string): C2paAssertion {
   return {
     label: "c2pa.actions",
     data: {
       actions: [
         {
           action: "c2pa.created",
-          when: timestamp || new Date().toISOString()
+          when: timestamp || new Date().toISOString(),
+          ...(digitalSourceType ? { digitalSourceType } : {})
         }
       ]
     }
@@ -116,4 +118,47 @@ export function createDescriptionAssertion(description: string): C2paAssertion {
     label: "dc.description",
     data: { value: description }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * 親材料を開いたことを示すアクションを生成する
+ * @param ingredientInstanceId 親材料のインスタンスID
+ * @param timestamp タイムスタンプ（デフォルトは現在時刻）
+ * @returns c2pa.openedアクション
+ */
+export function createOpenedAction(ingredientInstanceId: string, timestamp?: string): C2paAction {
+  return {
+    action: "c2pa.opened",
+    when: timestamp || new Date().toISOString(),
+    parameters: {
+      "org.cai.ingredientIds": [ingredientInstanceId]
+    }
+  };
+}
+
+/**
+ * アサーション一覧のc2pa.actionsにアクションを追加する
+ * c2pa.actionsアサーションが存在しない場合は新規に作成する
+ * @param assertions アサーション一覧
+ * @param actions 追加するアクション
+ * @param prepend 先頭に追加するかどうか（c2pa.opened/c2pa.createdは先頭に置く必要がある）
+ * @returns 更新後のアサーション一覧
+ */
+export function addActions(assertions: C2paAssertion[], actions: C2paAction[], prepend = false): C2paAssertion[] {
+  const existing = assertions.find(assertion => assertion.label === "c2pa.actions");
+
+  if (!existing) {
+    return [...assertions, { label: "c2pa.actions", data: { actions } }];
+  }
+
+  // 呼び出し元のアサーションは共有されている場合があるため変更せず、新しいアサーションに置き換える
+  const current = Array.isArray(existing.data.actions) ? existing.data.actions as C2paAction[] : [];
+  const updated: C2paAssertion = {
+    ...existing,
+    data: {
+      ...existing.data,
+      actions: prepend ? [...actions, ...current] : [...current, ...actions]
+    }
+  };
+  return assertions.map(assertion => assertion === existing ? updated : assertion);
+}
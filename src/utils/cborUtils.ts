@@ -0,0 +1,172 @@
+/**
+ * CBOR（RFC 8949）デコードの最小実装
+ * C2PAのクレーム署名（COSE_Sign1）から証明書チェーンを取り出すために使用する
+ * 長さが確定したエンコードのみ対応し、不定長の配列・文字列には対応しない
+ */
+
+// タグ付きの値
+export interface CborTagged {
+  tag: number;
+  value: CborValue;
+}
+
+// デコードされたCBORの値（マップのキーは数値または文字列）
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | Buffer
+  | boolean
+  | null
+  | undefined
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | CborTagged;
+
+// 入れ子の深さの上限（不正なデータでスタックを使い切らないようにする）
+const MAX_DEPTH = 64;
+
+/**
+ * 追加情報から引数（長さや値）を読み取る
+ */
+function readArgument(buffer: Buffer, offset: number, info: number): { value: number | bigint; length: number } {
+  if (info < 24) {
+    return { value: info, length: 0 };
+  }
+  const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+  if (size === 0) {
+    throw new Error('不定長のCBORには対応していません。');
+  }
+  if (offset + size > buffer.length) {
+    throw new Error('CBORデータが途中で終わっています。');
+  }
+
+  const value = size === 1
+    ? buffer.readUInt8(offset)
+    : size === 2
+      ? buffer.readUInt16BE(offset)
+      : size === 4
+        ? buffer.readUInt32BE(offset)
+        : buffer.readBigUInt64BE(offset);
+  return { value: typeof value === 'bigint' && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value, length: size };
+}
+
+/**
+ * 長さとして使用する引数を数値に変換する
+ */
+function toLength(value: number | bigint, buffer: Buffer, offset: number): number {
+  if (typeof value === 'bigint' || offset + value > buffer.length) {
+    throw new Error('CBORデータの長さが不正です。');
+  }
+  return value;
+}
+
+/**
+ * 指定位置からCBORの1要素をデコードする
+ */
+function decodeAt(buffer: Buffer, offset: number, depth: number): { value: CborValue; end: number } {
+  if (depth > MAX_DEPTH) {
+    throw new Error('CBORデータの入れ子が深すぎます。');
+  }
+  if (offset >= buffer.length) {
+    throw new Error('CBORデータが途中で終わっています。');
+  }
+
+  const initial = buffer[offset];
+  const majorType = initial >> 5;
+  const info = initial & 0x1f;
+  const argument = readArgument(buffer, offset + 1, info);
+  let position = offset + 1 + argument.length;
+
+  switch (majorType) {
+    case 0:
+      return { value: argument.value, end: position };
+    case 1:
+      return {
+        value: typeof argument.value === 'bigint' ? -BigInt(1) - argument.value : -1 - argument.value,
+        end: position
+      };
+    case 2:
+    case 3: {
+      const length = toLength(argument.value, buffer, position);
+      const bytes = buffer.subarray(position, position + length);
+      return { value: majorType === 2 ? bytes : bytes.toString('utf8'), end: position + length };
+    }
+    case 4: {
+      const count = toLength(argument.value, buffer, position);
+      const items: CborValue[] = [];
+      for (let i = 0; i < count; i++) {
+        const item = decodeAt(buffer, position, depth + 1);
+        items.push(item.value);
+        position = item.end;
+      }
+      return { value: items, end: position };
+    }
+    case 5: {
+      const count = toLength(argument.value, buffer, position);
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < count; i++) {
+        const key = decodeAt(buffer, position, depth + 1);
+        const item = decodeAt(buffer, key.end, depth + 1);
+        map.set(key.value, item.value);
+        position = item.end;
+      }
+      return { value: map, end: position };
+    }
+    case 6: {
+      const item = decodeAt(buffer, position, depth + 1);
+      return { value: { tag: Number(argument.value), value: item.value }, end: item.end };
+    }
+    default:
+      // 単純値と浮動小数点数
+      switch (info) {
+        case 20:
+          return { value: false, end: position };
+        case 21:
+          return { value: true, end: position };
+        case 22:
+          return { value: null, end: position };
+        case 25:
+          return { value: decodeHalfFloat(buffer.readUInt16BE(offset + 1)), end: position };
+        case 26:
+          return { value: buffer.readFloatBE(offset + 1), end: position };
+        case 27:
+          return { value: buffer.readDoubleBE(offset + 1), end: position };
+        default:
+          return { value: undefined, end: position };
+      }
+  }
+}
+
+/**
+ * 半精度浮動小数点数を変換する
+ */
+function decodeHalfFloat(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  if (exponent === 0) {
+    return sign * 2 ** -14 * (fraction / 1024);
+  }
+  if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  }
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * CBORバイト列の先頭の要素をデコードする
+ * 署名領域の予約などで後ろに続くバイト列は無視する
+ * @param buffer CBORエンコードされたデータ
+ * @returns デコードされた値
+ */
+export function decodeCbor(buffer: Buffer): CborValue {
+  return decodeAt(buffer, 0, 0).value;
+}
+
+/**
+ * タグ付きの値かどうかを判定する
+ */
+export function isCborTagged(value: CborValue): value is CborTagged {
+  return typeof value === 'object' && value !== null && !Buffer.isBuffer(value) && !Array.isArray(value) && !(value instanceof Map);
+}
@@ -0,0 +1,106 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { X509Certificate } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { evaluateCertificateChain } from './certificatePathUtils';
+import { getCertificateHash, TrustLists } from './trustListUtils';
+
+// OpenSSLで作成した証明書チェーン（作成手順は __fixtures__/README.md）
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__', 'trust');
+
+// expired-signer の有効期限後、それ以外の証明書の有効期間内の日時
+const VALIDATION_TIME = new Date('2030-01-01T00:00:00Z');
+
+/**
+ * フィクスチャの証明書を読み込む
+ */
+function load(name: string): X509Certificate {
+  return new X509Certificate(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.crt`)));
+}
+
+/**
+ * 信頼リストを作成する
+ */
+function trustLists(options: { anchors?: string[]; allowedHashes?: string[] } = {}): TrustLists {
+  return {
+    publicListAvailable: true,
+    anchors: (options.anchors || []).map(name => ({ certificate: load(name), store: 'public' as const })),
+    allowedCertificates: [],
+    allowedHashes: new Set(options.allowedHashes || []),
+    allowedPurposes: []
+  };
+}
+
+/**
+ * 証明書チェーンを評価する
+ */
+function evaluate(names: string[], lists: TrustLists) {
+  return evaluateCertificateChain(names.map(load), lists, VALIDATION_TIME);
+}
+
+describe('evaluateCertificateChain', () => {
+  const rootAnchor = trustLists({ anchors: ['root'] });
+
+  test('トラストアンカーまでの証明書パスを検証できれば信頼する', () => {
+    const result = evaluate(['signer', 'intermediate'], rootAnchor);
+    assert.equal(result.failure, null);
+    assert.equal(result.trustedBy?.type, 'trustAnchor');
+    assert.equal(result.trustedBy?.subject, load('root').subject);
+  });
+
+  test('有効期限が切れた署名証明書は信頼しない', () => {
+    const result = evaluate(['expired-signer', 'intermediate'], rootAnchor);
+    assert.equal(result.trustedBy, null);
+    assert.equal(result.failure?.code, 'CERTIFICATE_EXPIRED');
+    assert.equal(result.failure?.details?.index, 0);
+  });
+
+  test('トラストアンカーにないルートCAまでのチェーンは信頼しない', () => {
+    const result = evaluate(['signer', 'intermediate', 'root'], trustLists({ anchors: ['other-root'] }));
+    assert.equal(result.trustedBy, null);
+    assert.equal(result.failure?.code, 'UNTRUSTED_ROOT');
+    assert.equal(result.failure?.details?.index, 2);
+  });
+
+  test('発行者の証明書がない場合は信頼しない', () => {
+    const result = evaluate(['signer'], trustLists({ anchors: ['other-root'] }));
+    assert.equal(result.failure?.code, 'ISSUER_NOT_FOUND');
+  });
+
+  test('CAでない証明書が発行した署名証明書は信頼しない', () => {
+    const result = evaluate(['not-ca-signer', 'not-ca'], rootAnchor);
+    assert.equal(result.trustedBy, null);
+    assert.equal(result.failure?.code, 'ISSUER_NOT_CA');
+    assert.equal(result.failure?.details?.index, 1);
+  });
+
+  test('鍵用途にkeyCertSignがない中間CA証明書は発行者として使用しない', () => {
+    const result = evaluate(['no-keycertsign-signer', 'no-keycertsign-intermediate'], rootAnchor);
+    assert.equal(result.trustedBy, null);
+    assert.equal(result.failure?.code, 'ISSUER_KEY_USAGE_INVALID');
+    assert.deepEqual(result.failure?.details?.keyUsage, ['digitalSignature']);
+  });
+
+  test('中間CA証明書のパス長制約を超えるチェーンは信頼しない', () => {
+    const result = evaluate(['sub-signer', 'sub-intermediate', 'intermediate'], rootAnchor);
+    assert.equal(result.trustedBy, null);
+    assert.equal(result.failure?.code, 'PATH_LENGTH_EXCEEDED');
+    assert.equal(result.failure?.details?.index, 2);
+    assert.equal(result.failure?.details?.pathLength, 0);
+  });
+
+  test('ハッシュで個別に信頼した署名証明書はトラストアンカーなしで信頼する', () => {
+    const hash = getCertificateHash(load('not-ca-signer'));
+    const result = evaluate(['not-ca-signer', 'not-ca'], trustLists({ allowedHashes: [hash] }));
+    assert.equal(result.failure, null);
+    assert.equal(result.trustedBy?.type, 'allowedHash');
+    assert.equal(result.trustedBy?.hash, hash);
+  });
+
+  test('ハッシュで個別に信頼した署名証明書でも有効期限切れは信頼しない', () => {
+    const hash = getCertificateHash(load('expired-signer'));
+    const result = evaluate(['expired-signer'], trustLists({ allowedHashes: [hash] }));
+    assert.equal(result.failure?.code, 'CERTIFICATE_EXPIRED');
+  });
+});
@@ -0,0 +1,266 @@
+import { X509Certificate } from 'crypto';
+import { CertificateTrustFailure, CertificateTrustSource } from '../types';
+import { decodeDer, decodeInteger, decodeOid } from './asn1Utils';
+import { getCertificateHash, TrustListCertificate, TrustLists } from './trustListUtils';
+import { KEY_USAGE_BITS, KeyUsage, Oids, parseCertificateDer } from './x509Utils';
+
+// 署名証明書チェーンを信頼リストで評価するユーティリティ
+
+// 信頼リストの評価結果
+export interface ChainTrustResult {
+  trustedBy: CertificateTrustSource | null;
+  failure: CertificateTrustFailure | null;
+}
+
+/**
+ * 信頼を確立したエントリの情報を作成する
+ */
+function toTrustSource(type: CertificateTrustSource['type'], entry: TrustListCertificate, hash?: string): CertificateTrustSource {
+  return {
+    type,
+    store: entry.store,
+    ...(entry.id ? { id: entry.id, label: entry.label } : {}),
+    subject: entry.certificate.subject,
+    fingerprint256: entry.certificate.fingerprint256,
+    ...(hash ? { hash } : {})
+  };
+}
+
+/**
+ * 証明書が指定した証明書によって発行（署名）されているかどうかを判定する
+ */
+function isIssuedBy(certificate: X509Certificate, issuer: X509Certificate): boolean {
+  try {
+    return certificate.checkIssued(issuer) && certificate.verify(issuer.publicKey);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 証明書が発行者の名前を持ち、その鍵で署名されているかどうかを判定する
+ * checkIssuedと異なり発行者の鍵用途は確認しないため、中間CA証明書の用途はcheckIssuerで理由とともに確認する
+ */
+function isSignedBy(certificate: X509Certificate, issuer: X509Certificate): boolean {
+  try {
+    return certificate.issuer === issuer.subject && certificate.verify(issuer.publicKey);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 自己署名の証明書かどうかを判定する
+ */
+function isSelfSigned(certificate: X509Certificate): boolean {
+  try {
+    return certificate.subject === certificate.issuer && certificate.verify(certificate.publicKey);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 証明書の拡張キー使用法を取得する
+ * @returns OIDの配列（拡張がない場合はnull）
+ */
+function getExtendedKeyUsage(certificate: X509Certificate): string[] | null {
+  const extension = parseCertificateDer(certificate.raw).extensions.find(item => item.oid === Oids.extKeyUsage);
+  return extension ? decodeDer(extension.value).children.map(decodeOid) : null;
+}
+
+/**
+ * 証明書の鍵用途を取得する
+ * @returns 鍵用途の配列（拡張がない場合はnull）
+ */
+function getKeyUsage(certificate: X509Certificate): KeyUsage[] | null {
+  const extension = parseCertificateDer(certificate.raw).extensions.find(item => item.oid === Oids.keyUsage);
+  if (!extension) {
+    return null;
+  }
+  // BIT STRINGの先頭は未使用ビット数
+  const bits = decodeDer(extension.value).content.subarray(1);
+  return KEY_USAGE_BITS.filter((_, bit) => (bits[bit >> 3] || 0) & (0x80 >> (bit & 7)));
+}
+
+/**
+ * 証明書の基本制約を取得する
+ * X509Certificateのcaは鍵用途も含めて判定するため、CAかどうかと鍵用途は個別に確認する
+ * @returns CAかどうかとパス長制約（後に続けられる中間CA証明書の数、制約がない場合はnull）
+ */
+function getBasicConstraints(certificate: X509Certificate): { ca: boolean; pathLength: number | null } {
+  const extension = parseCertificateDer(certificate.raw).extensions.find(item => item.oid === Oids.basicConstraints);
+  // BasicConstraints ::= SEQUENCE { cA BOOLEAN DEFAULT FALSE, pathLenConstraint INTEGER OPTIONAL }
+  const items = extension ? decodeDer(extension.value).children : [];
+  const caNode = items.find(node => node.tag === 0x01);
+  const pathLengthNode = items.find(node => node.tag === 0x02);
+  return {
+    ca: caNode ? caNode.content[0] !== 0 : false,
+    pathLength: pathLengthNode ? Number(decodeInteger(pathLengthNode)) : null
+  };
+}
+
+/**
+ * 中間CA証明書が発行者として使用できるかどうかを確認する
+ * @param index チェーン内の位置
+ * @param intermediates 発行者とリーフの間にある中間CA証明書の数
+ * @returns 使用できない場合は失敗理由
+ */
+function checkIssuer(certificate: X509Certificate, index: number, intermediates: number): CertificateTrustFailure | null {
+  const details = { index, subject: certificate.subject };
+  const { ca, pathLength } = getBasicConstraints(certificate);
+  if (!ca) {
+    return { code: 'ISSUER_NOT_CA', message: '発行者の証明書が認証局（CA）の証明書ではありません。', details };
+  }
+
+  const keyUsage = getKeyUsage(certificate);
+  if (!keyUsage?.includes('keyCertSign')) {
+    return {
+      code: 'ISSUER_KEY_USAGE_INVALID',
+      message: '発行者の証明書の鍵用途にkeyCertSign（証明書の署名）が含まれていません。',
+      details: { ...details, keyUsage }
+    };
+  }
+
+  if (pathLength !== null && intermediates > pathLength) {
+    return {
+      code: 'PATH_LENGTH_EXCEEDED',
+      message: '発行者の証明書のパス長制約を超える中間CA証明書があります。',
+      details: { ...details, pathLength, intermediates }
+    };
+  }
+  return null;
+}
+
+/**
+ * 判定日時に証明書が有効期間内かどうかを確認する
+ * @param index チェーン内の位置（トラストアンカーの場合はnull）
+ * @returns 有効期間外の場合は失敗理由
+ */
+function checkValidity(certificate: X509Certificate, index: number | null, validationTime: Date): CertificateTrustFailure | null {
+  const validFrom = new Date(certificate.validFrom);
+  const validTo = new Date(certificate.validTo);
+  const name = index === null ? 'トラストアンカー' : '証明書';
+  const details = {
+    ...(index === null ? { trustAnchor: true } : { index }),
+    subject: certificate.subject,
+    validFrom: validFrom.toISOString(),
+    validTo: validTo.toISOString(),
+    validationTime: validationTime.toISOString()
+  };
+
+  if (validTo < validationTime) {
+    return { code: 'CERTIFICATE_EXPIRED', message: `${name}の有効期限が切れています。`, details };
+  }
+  if (validFrom > validationTime) {
+    return { code: 'CERTIFICATE_NOT_YET_VALID', message: `${name}の有効期間がまだ始まっていません。`, details };
+  }
+  return null;
+}
+
+/**
+ * 署名証明書チェーンを信頼リストで評価する
+ * 1. リーフ証明書のハッシュが allowed.sha256.txt にあれば信頼する
+ * 2. リーフ証明書が個別に信頼する証明書（allowed.pem と組織独自の登録）にあれば信頼する
+ * 3. それ以外はトラストアンカー（anchors.pem と組織独自の登録）までの証明書パスを構築し、検証できれば信頼する
+ *    中間CA証明書は、CAであること、鍵用途にkeyCertSignを含むこと、パス長制約を満たすことを確認する
+ * @param chain 証明書チェーン（リーフが先頭）
+ * @param lists 信頼リスト
+ * @param validationTime 有効期間の判定に使用する日時
+ */
+export function evaluateCertificateChain(chain: X509Certificate[], lists: TrustLists, validationTime: Date): ChainTrustResult {
+  const leaf = chain[0];
+  if (!leaf) {
+    return { trustedBy: null, failure: { code: 'CERTIFICATE_CHAIN_EMPTY', message: '証明書チェーンが空です。' } };
+  }
+
+  const leafValidity = checkValidity(leaf, 0, validationTime);
+  if (leafValidity) {
+    return { trustedBy: null, failure: leafValidity };
+  }
+
+  // 個別に信頼された署名証明書
+  const leafHash = getCertificateHash(leaf);
+  if (lists.allowedHashes.has(leafHash)) {
+    return { trustedBy: toTrustSource('allowedHash', { certificate: leaf, store: 'public' }, leafHash), failure: null };
+  }
+  const allowed = lists.allowedCertificates.find(entry => entry.certificate.raw.equals(leaf.raw));
+  if (allowed) {
+    return { trustedBy: toTrustSource('allowedCertificate', allowed), failure: null };
+  }
+
+  // トラストアンカーで信頼する署名証明書の用途（store.cfg）
+  if (lists.allowedPurposes.length > 0) {
+    const purposes = getExtendedKeyUsage(leaf) || [];
+    if (!purposes.some(purpose => lists.allowedPurposes.includes(purpose))) {
+      return {
+        trustedBy: null,
+        failure: {
+          code: 'EKU_NOT_TRUSTED',
+          message: '署名証明書の拡張キー使用法が信頼リストで許可された用途に含まれていません。',
+          details: { purposes, allowedPurposes: lists.allowedPurposes }
+        }
+      };
+    }
+  }
+
+  // リーフからトラストアンカーまでの証明書パスを構築する
+  const remaining = chain.slice(1).map((certificate, offset) => ({ certificate, index: offset + 1 }));
+  let current = leaf;
+  let currentIndex = 0;
+  // これまでにたどった中間CA証明書の数（パス長制約の確認に使用する）
+  let intermediates = 0;
+  for (;;) {
+    // チェーンにトラストアンカー自体が含まれている場合
+    const includedAnchor = currentIndex > 0 && lists.anchors.find(anchor => anchor.certificate.raw.equals(current.raw));
+    if (includedAnchor) {
+      return { trustedBy: toTrustSource('trustAnchor', includedAnchor), failure: null };
+    }
+
+    const anchor = lists.anchors.find(candidate => isIssuedBy(current, candidate.certificate));
+    if (anchor) {
+      const anchorValidity = checkValidity(anchor.certificate, null, validationTime);
+      if (anchorValidity) {
+        return { trustedBy: null, failure: anchorValidity };
+      }
+      return { trustedBy: toTrustSource('trustAnchor', anchor), failure: null };
+    }
+
+    const position = remaining.findIndex(item => isSignedBy(current, item.certificate));
+    if (position < 0) {
+      break;
+    }
+    const [issuer] = remaining.splice(position, 1);
+    const issuerFailure = checkIssuer(issuer.certificate, issuer.index, intermediates);
+    if (issuerFailure) {
+      return { trustedBy: null, failure: issuerFailure };
+    }
+    const issuerValidity = checkValidity(issuer.certificate, issuer.index, validationTime);
+    if (issuerValidity) {
+      return { trustedBy: null, failure: issuerValidity };
+    }
+    current = issuer.certificate;
+    currentIndex = issuer.index;
+    intermediates++;
+  }
+
+  // トラストアンカーに到達できなかった理由
+  const details = { index: currentIndex, subject: current.subject, issuer: current.issuer };
+  if (isSelfSigned(current)) {
+    return {
+      trustedBy: null,
+      failure: { code: 'UNTRUSTED_ROOT', message: 'ルート証明書が信頼リストのトラストアンカーに含まれていません。', details }
+    };
+  }
+  const sameName = [...lists.anchors.map(anchor => anchor.certificate), ...chain].some(certificate => certificate !== current && certificate.subject === current.issuer);
+  if (sameName) {
+    return {
+      trustedBy: null,
+      failure: { code: 'CERTIFICATE_SIGNATURE_INVALID', message: '発行者と同じ名前の証明書はありますが、署名を検証できません。', details }
+    };
+  }
+  return {
+    trustedBy: null,
+    failure: { code: 'ISSUER_NOT_FOUND', message: '発行者の証明書が証明書チェーンにも信頼リストにもありません。', details }
+  };
+}
@@ -0,0 +1,23 @@
+// チェックサムの計算ユーティリティ（PNGチャンクとZIPのエントリで使用するCRC32）
+
+// CRC32（IEEE 802.3）のテーブル
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * CRC32を計算する
+ * @param data 対象のデータ
+ * @returns CRC32の値（符号なし32ビット整数）
+ */
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
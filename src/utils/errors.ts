@@ -0,0 +1,40 @@
+/**
+ * HTTPステータスコードとエラーコードを持つアプリケーションエラー
+ * サービス層で発生させ、コントローラーでレスポンスに変換する
+ */
+export class AppError extends Error {
+  statusCode: number;
+  code: string;
+  details?: unknown;
+
+  constructor(statusCode: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = 'AppError';
+    this.statusCode = statusCode;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * AppErrorかどうかを判定する
+ * @param error 判定対象
+ * @returns AppErrorの場合はtrue
+ */
+export function isAppError(error: unknown): error is AppError {
+  return error instanceof AppError;
+}
+
+/**
+ * AppErrorをAPIレスポンス用のオブジェクトに変換する
+ * @param error アプリケーションエラー
+ * @returns レスポンスボディ
+ */
+export function toErrorResponse(error: AppError): Record<string, unknown> {
+  return {
+    success: false,
+    error: error.message,
+    code: error.code,
+    ...(error.details !== undefined ? { details: error.details } : {})
+  };
+}
@@ -1,3 +1,4 @@
+import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
 import { config } from '../config';
@@ -50,6 +51,47 @@ export function getTempFilePath(fileId: string): string {
   return path.join(config.tempDir, fileId);
 }
 
+/**
+ * アップロード時の元のファイル名の保存先を取得する関数
+ * 一時ファイルと同じディレクトリに置き、同じ有効期限で削除される
+ * （拡張子がファイルIDの形式に合わないため、ファイルIDとしては参照できない）
+ * @param fileId ファイルID
+ * @returns 元のファイル名を保存するパス
+ */
+function getOriginalFileNamePath(fileId: string): string {
+  return `${getTempFilePath(fileId)}.original-name`;
+}
+
+/**
+ * アップロード時の元のファイル名を保存する関数
+ * @param fileId ファイルID
+ * @param originalName 元のファイル名
+ */
+export async function saveOriginalFileName(fileId: string, originalName: string): Promise<void> {
+  await fs.writeFile(getOriginalFileNamePath(fileId), originalName, 'utf8');
+}
+
+/**
+ * アップロード時の元のファイル名を取得する関数
+ * @param fileId ファイルID
+ * @returns 元のファイル名（署名結果などアップロード以外で作成したファイルの場合はnull）
+ */
+export async function getOriginalFileName(fileId: string): Promise<string | null> {
+  try {
+    return (await fs.readFile(getOriginalFileNamePath(fileId), 'utf8')) || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * アップロード時の元のファイル名を削除する関数
+ * @param fileId ファイルID
+ */
+export async function removeOriginalFileName(fileId: string): Promise<void> {
+  await fs.rm(getOriginalFileNamePath(fileId), { force: true });
+}
+
 /**
  * 日付をフォーマットする関数
  * @param dateString ISO形式の日付文字列
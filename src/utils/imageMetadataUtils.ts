@@ -0,0 +1,270 @@
+// 画像に埋め込まれたEXIF・IPTC・XMPメタデータの解析ユーティリティ
+// sharpのmetadata()が返す生データ（exif/iptc/xmp）を対象とする
+
+// EXIFの有理数
+export interface ExifRational {
+  numerator: number;
+  denominator: number;
+}
+
+export type ExifValue = string | number | number[] | ExifRational | ExifRational[] | Buffer;
+
+// IFDごとのEXIFタグ（タグ番号をキーとする）
+export interface ExifTags {
+  image: Record<number, ExifValue>;
+  exif: Record<number, ExifValue>;
+  gps: Record<number, ExifValue>;
+}
+
+// IFDへのポインタタグ
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+// 型ごとの1要素あたりのバイト数
+const EXIF_TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8
+};
+
+/**
+ * TIFF形式のIFDを読み取る
+ */
+function readIfd(tiff: Buffer, offset: number, littleEndian: boolean): Record<number, ExifValue> {
+  const readUInt16 = (position: number) => littleEndian ? tiff.readUInt16LE(position) : tiff.readUInt16BE(position);
+  const readUInt32 = (position: number) => littleEndian ? tiff.readUInt32LE(position) : tiff.readUInt32BE(position);
+  const readInt32 = (position: number) => littleEndian ? tiff.readInt32LE(position) : tiff.readInt32BE(position);
+  const tags: Record<number, ExifValue> = {};
+
+  if (offset + 2 > tiff.length) {
+    return tags;
+  }
+
+  const count = readUInt16(offset);
+  for (let index = 0; index < count; index++) {
+    const entry = offset + 2 + index * 12;
+    if (entry + 12 > tiff.length) {
+      break;
+    }
+
+    const tag = readUInt16(entry);
+    const type = readUInt16(entry + 2);
+    const valueCount = readUInt32(entry + 4);
+    const size = (EXIF_TYPE_SIZES[type] || 0) * valueCount;
+    if (size === 0) {
+      continue;
+    }
+
+    // 4バイト以下の値はエントリ内に格納される
+    const valueOffset = size <= 4 ? entry + 8 : readUInt32(entry + 8);
+    if (valueOffset + size > tiff.length) {
+      continue;
+    }
+
+    const values: Array<number | ExifRational> = [];
+    switch (type) {
+      case 2:
+        tags[tag] = tiff.toString('utf8', valueOffset, valueOffset + size).replace(/\0+$/, '').trim();
+        continue;
+      case 1:
+      case 6:
+      case 7:
+        tags[tag] = Buffer.from(tiff.subarray(valueOffset, valueOffset + size));
+        continue;
+      case 3:
+      case 8:
+        for (let i = 0; i < valueCount; i++) {
+          const value = readUInt16(valueOffset + i * 2);
+          values.push(type === 8 && value > 0x7fff ? value - 0x10000 : value);
+        }
+        break;
+      case 4:
+      case 9:
+        for (let i = 0; i < valueCount; i++) {
+          values.push(type === 9 ? readInt32(valueOffset + i * 4) : readUInt32(valueOffset + i * 4));
+        }
+        break;
+      case 5:
+      case 10:
+        for (let i = 0; i < valueCount; i++) {
+          const position = valueOffset + i * 8;
+          values.push({
+            numerator: type === 10 ? readInt32(position) : readUInt32(position),
+            denominator: type === 10 ? readInt32(position + 4) : readUInt32(position + 4)
+          });
+        }
+        break;
+    }
+
+    tags[tag] = (values.length === 1 ? values[0] : values) as ExifValue;
+  }
+
+  return tags;
+}
+
+/**
+ * EXIFデータ（APP1セグメントの内容）を解析する
+ * @param buffer sharpのmetadata().exif
+ * @returns IFDごとのタグ（解析できない場合はnull）
+ */
+export function parseExif(buffer: Buffer): ExifTags | null {
+  const tiff = buffer.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? buffer.subarray(6) : buffer;
+  if (tiff.length < 8) {
+    return null;
+  }
+
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    return null;
+  }
+  const littleEndian = byteOrder === 'II';
+  const readUInt32 = (position: number) => littleEndian ? tiff.readUInt32LE(position) : tiff.readUInt32BE(position);
+
+  try {
+    const image = readIfd(tiff, readUInt32(4), littleEndian);
+    const exifOffset = image[EXIF_IFD_POINTER];
+    const gpsOffset = image[GPS_IFD_POINTER];
+
+    return {
+      image,
+      exif: typeof exifOffset === 'number' ? readIfd(tiff, exifOffset, littleEndian) : {},
+      gps: typeof gpsOffset === 'number' ? readIfd(tiff, gpsOffset, littleEndian) : {}
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 有理数を数値に変換する
+ */
+export function rationalToNumber(value: ExifValue | undefined): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (value && typeof value === 'object' && 'numerator' in value) {
+    return value.denominator === 0 ? undefined : value.numerator / value.denominator;
+  }
+  return undefined;
+}
+
+// IPTC-IIMのデータセット（レコード番号:データセット番号 → 値の一覧）
+export type IptcDatasets = Record<string, string[]>;
+
+/**
+ * IPTC-IIMのデータセットを読み取る
+ */
+function readIimDatasets(buffer: Buffer, datasets: IptcDatasets): void {
+  let position = 0;
+
+  while (position + 5 <= buffer.length) {
+    if (buffer[position] !== 0x1c) {
+      position++;
+      continue;
+    }
+
+    const record = buffer[position + 1];
+    const dataset = buffer[position + 2];
+    let length = buffer.readUInt16BE(position + 3);
+    let dataStart = position + 5;
+
+    // 拡張データセット（長さフィールドの最上位ビットが立っている）
+    if (length & 0x8000) {
+      const lengthSize = length & 0x7fff;
+      length = 0;
+      for (let i = 0; i < lengthSize; i++) {
+        length = length * 256 + buffer[dataStart + i];
+      }
+      dataStart += lengthSize;
+    }
+
+    if (dataStart + length > buffer.length) {
+      break;
+    }
+
+    const key = `${record}:${dataset}`;
+    datasets[key] = datasets[key] || [];
+    datasets[key].push(buffer.toString('utf8', dataStart, dataStart + length).replace(/\0+$/, '').trim());
+    position = dataStart + length;
+  }
+}
+
+/**
+ * IPTCデータ（Photoshopの画像リソースまたはIIM）を解析する
+ * @param buffer sharpのmetadata().iptc
+ * @returns データセットの一覧
+ */
+export function parseIptc(buffer: Buffer): IptcDatasets {
+  const datasets: IptcDatasets = {};
+
+  if (buffer[0] === 0x1c) {
+    readIimDatasets(buffer, datasets);
+    return datasets;
+  }
+
+  // Photoshopの画像リソース（8BIM）からIPTC-IIM（ID: 0x0404）を探す
+  let position = buffer.indexOf('8BIM');
+  while (position >= 0 && position + 12 <= buffer.length) {
+    const resourceId = buffer.readUInt16BE(position + 4);
+    const nameLength = buffer[position + 6];
+    // 名前（Pascal文字列）は偶数バイトに揃えられる
+    const nameSize = (nameLength + 1) % 2 === 0 ? nameLength + 1 : nameLength + 2;
+    const sizeOffset = position + 6 + nameSize;
+    if (sizeOffset + 4 > buffer.length) {
+      break;
+    }
+
+    const size = buffer.readUInt32BE(sizeOffset);
+    const dataStart = sizeOffset + 4;
+    if (resourceId === 0x0404) {
+      readIimDatasets(buffer.subarray(dataStart, Math.min(dataStart + size, buffer.length)), datasets);
+    }
+
+    const next = dataStart + size + (size % 2);
+    position = buffer.indexOf('8BIM', next);
+  }
+
+  return datasets;
+}
+
+/**
+ * XMLの文字参照を復元する
+ */
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal: string) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * 正規表現用に文字列をエスケープする
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * XMPパケットからプロパティを読み取る
+ * 属性形式・要素形式の両方と、rdf:Seq/Bag/Altによる配列に対応する
+ * @param xmp XMPパケット（XML文字列）
+ * @param name 名前空間接頭辞付きのプロパティ名（例: dc:creator）
+ * @returns 値（配列の場合は各要素）。存在しない場合はundefined
+ */
+export function readXmpProperty(xmp: string, name: string): string | string[] | undefined {
+  const escaped = escapeRegExp(name);
+
+  const element = xmp.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`));
+  if (element) {
+    const items = [...element[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)];
+    if (items.length > 0) {
+      return items.map(item => decodeXmlEntities(item[1].replace(/<[^>]+>/g, '').trim()));
+    }
+    return decodeXmlEntities(element[1].replace(/<[^>]+>/g, '').trim());
+  }
+
+  const attribute = xmp.match(new RegExp(`\\s${escaped}="([^"]*)"`));
+  return attribute ? decodeXmlEntities(attribute[1]) : undefined;
+}
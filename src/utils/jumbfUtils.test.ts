@@ -0,0 +1,63 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { X509Certificate } from 'crypto';
+import { extractManifestStore, readSignerCertificates } from './jumbfUtils';
+
+// c2pa-rs（@contentauth/c2pa-node）で署名した画像（作成手順は __fixtures__/README.md）
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__');
+
+// resigned.jpg の親材料（signed.jpg）のマニフェストのラベル
+const PARENT_MANIFEST_LABEL = 'urn:c2pa:f63692bb-e250-49a5-81c0-701fdf986f7d';
+
+function readFixture(...segments: string[]): Buffer {
+  return fs.readFileSync(path.join(FIXTURES_DIR, ...segments));
+}
+
+function readCertificateDer(name: string): Buffer {
+  return new X509Certificate(readFixture('certificates', name)).raw;
+}
+
+const signer1Chain = [readCertificateDer('signer1.crt'), readCertificateDer('intermediate.crt')];
+const signer2Chain = [readCertificateDer('signer2.crt'), readCertificateDer('intermediate.crt')];
+
+/**
+ * 署名画像からマニフェストストアを取り出す
+ */
+function readManifestStore(file: string, mimeType: string): Buffer {
+  const manifestStore = extractManifestStore(readFixture('c2pa', file), mimeType);
+  assert.ok(manifestStore, `${file} からマニフェストストアを取り出せません。`);
+  return manifestStore;
+}
+
+describe('extractManifestStore / readSignerCertificates', () => {
+  test('署名したJPEGのx5chainを取り出せる', () => {
+    assert.deepEqual(readSignerCertificates(readManifestStore('signed.jpg', 'image/jpeg')), signer1Chain);
+  });
+
+  test('署名したPNGのx5chainを取り出せる', () => {
+    assert.deepEqual(readSignerCertificates(readManifestStore('signed.png', 'image/png')), signer1Chain);
+  });
+
+  test('複数のAPP11セグメントに分割されたマニフェストストアを連結して読み取れる', () => {
+    assert.deepEqual(readSignerCertificates(readManifestStore('large-manifest.jpg', 'image/jpeg')), signer1Chain);
+  });
+
+  test('ラベルの指定がなければアクティブマニフェスト、指定があればそのマニフェストの証明書を取り出す', () => {
+    const manifestStore = readManifestStore('resigned.jpg', 'image/jpeg');
+
+    assert.deepEqual(readSignerCertificates(manifestStore), signer2Chain);
+    assert.deepEqual(readSignerCertificates(manifestStore, PARENT_MANIFEST_LABEL), signer1Chain);
+    assert.throws(() => readSignerCertificates(manifestStore, 'urn:c2pa:00000000-0000-0000-0000-000000000000'));
+  });
+
+  test('マニフェストが埋め込まれていない画像はnull', () => {
+    assert.equal(extractManifestStore(readFixture('c2pa', 'unsigned.jpg'), 'image/jpeg'), null);
+    assert.equal(extractManifestStore(readFixture('c2pa', 'unsigned.png'), 'image/png'), null);
+  });
+
+  test('マニフェストストアでないデータは例外を投げる', () => {
+    assert.throws(() => readSignerCertificates(readFixture('c2pa', 'unsigned.jpg')));
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * JUMBF（ISO/IEC 19566-5）形式のC2PAマニフェストストアの読み取り
+ * アセットに埋め込まれたマニフェストストアを取り出し、クレーム署名（COSE_Sign1）から署名証明書チェーンを取得する
+ */
+
+import { CborValue, decodeCbor, isCborTagged } from './cborUtils';
+
+// C2PAのJUMBFボックスのUUID（先頭4バイトが種類を表す。例: c2pa、c2ma、c2cs）
+const C2PA_UUID_SUFFIX = Buffer.from('00110010800000aa00389b71', 'hex');
+
+// BMFF（HEIF/AVIF）でマニフェストストアを格納するuuidボックスの識別子
+const BMFF_C2PA_UUID = Buffer.from('d8fec3d61b0e483c92975828877ec481', 'hex');
+
+// TIFFでマニフェストストアを格納するタグ
+const TIFF_C2PA_TAG = 0xcd41;
+
+// COSEヘッダーの証明書チェーン（x5chain）のラベル
+const COSE_HEADER_X5CHAIN = 33;
+
+// COSE_Sign1のタグ
+const COSE_SIGN1_TAG = 18;
+
+// 入れ子の深さの上限
+const MAX_DEPTH = 16;
+
+// JUMBFボックス
+interface JumbfBox {
+  // ボックスの種類（jumbはスーパーボックス）
+  type: string;
+  content: Buffer;
+  // スーパーボックスのラベル
+  label: string | null;
+  // C2PAのスーパーボックスの種類（c2pa、c2ma、c2cs など。C2PA以外はnull）
+  c2paType: string | null;
+  children: JumbfBox[];
+}
+
+/**
+ * バイト列に並んだボックスを読み取る
+ */
+function readBoxes(buffer: Buffer, depth: number): JumbfBox[] {
+  const boxes: JumbfBox[] = [];
+  let offset = 0;
+
+  while (offset + 8 <= buffer.length) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    let headerLength = 8;
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerLength = 16;
+    } else if (size === 0) {
+      size = buffer.length - offset;
+    }
+    if (size < headerLength || offset + size > buffer.length) {
+      throw new Error('JUMBFボックスの長さが不正です。');
+    }
+
+    const content = buffer.subarray(offset + headerLength, offset + size);
+    boxes.push(type === 'jumb' ? readSuperbox(content, depth) : { type, content, label: null, c2paType: null, children: [] });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * スーパーボックス（jumb）を読み取る
+ * 先頭の記述ボックス（jumd）から種類とラベルを取得する
+ */
+function readSuperbox(content: Buffer, depth: number): JumbfBox {
+  if (depth > MAX_DEPTH) {
+    throw new Error('JUMBFボックスの入れ子が深すぎます。');
+  }
+
+  const [description, ...children] = readBoxes(content, depth + 1);
+  if (!description || description.type !== 'jumd' || description.content.length < 17) {
+    throw new Error('JUMBFの記述ボックスがありません。');
+  }
+
+  const uuid = description.content.subarray(0, 16);
+  const toggles = description.content[16];
+  let label: string | null = null;
+  if (toggles & 0x02) {
+    const end = description.content.indexOf(0, 17);
+    label = description.content.toString('utf8', 17, end < 0 ? description.content.length : end);
+  }
+
+  return {
+    type: 'jumb',
+    content,
+    label,
+    c2paType: uuid.subarray(4).equals(C2PA_UUID_SUFFIX) ? uuid.toString('latin1', 0, 4) : null,
+    children
+  };
+}
+
+/**
+ * JPEGのAPP11セグメントからマニフェストストアを取り出す
+ * 複数のセグメントに分割されたJUMBFはシーケンス番号の順に連結する
+ */
+function extractFromJpeg(buffer: Buffer): Buffer | null {
+  if (buffer.length < 4 || buffer.readUInt16BE(0) !== 0xffd8) {
+    throw new Error('JPEGの形式が正しくありません。');
+  }
+
+  const instances = new Map<number, Array<{ sequence: number; data: Buffer }>>();
+  let position = 2;
+  while (position + 4 <= buffer.length && buffer[position] === 0xff) {
+    const marker = buffer[position + 1];
+    // SOS以降は画像データ
+    if (marker === 0xda || marker === 0xd9) {
+      break;
+    }
+    if (marker === 0xff || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      position += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    const length = buffer.readUInt16BE(position + 2);
+    const segment = buffer.subarray(position + 4, position + 2 + length);
+    // APP11: "JP"、ボックスインスタンス番号（2バイト）、シーケンス番号（4バイト）、JUMBF
+    if (marker === 0xeb && segment.length >= 16 && segment.toString('latin1', 0, 2) === 'JP') {
+      const instance = segment.readUInt16BE(2);
+      const packets = instances.get(instance) || [];
+      packets.push({ sequence: segment.readUInt32BE(4), data: segment.subarray(8) });
+      instances.set(instance, packets);
+    }
+    position += 2 + length;
+  }
+
+  for (const packets of instances.values()) {
+    packets.sort((a, b) => a.sequence - b.sequence);
+    const [first, ...rest] = packets;
+    if (first.data.toString('latin1', 4, 8) !== 'jumb') {
+      continue;
+    }
+    // 2つ目以降のセグメントはボックスヘッダー（LBox・TBox、必要に応じてXLBox）を繰り返すため除く
+    const headerLength = first.data.readUInt32BE(0) === 1 ? 16 : 8;
+    const store = Buffer.concat([first.data, ...rest.map(packet => packet.data.subarray(headerLength))]);
+    if (isManifestStore(store)) {
+      return store;
+    }
+  }
+  return null;
+}
+
+/**
+ * PNGのcaBXチャンクからマニフェストストアを取り出す
+ */
+function extractFromPng(buffer: Buffer): Buffer | null {
+  let position = 8;
+  while (position + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(position);
+    const type = buffer.toString('latin1', position + 4, position + 8);
+    if (type === 'caBX') {
+      return buffer.subarray(position + 8, position + 8 + length);
+    }
+    if (type === 'IEND') {
+      break;
+    }
+    position += 12 + length;
+  }
+  return null;
+}
+
+/**
+ * WebP（RIFF）のC2PAチャンクからマニフェストストアを取り出す
+ */
+function extractFromRiff(buffer: Buffer): Buffer | null {
+  let position = 12;
+  while (position + 8 <= buffer.length) {
+    const type = buffer.toString('latin1', position, position + 4);
+    const length = buffer.readUInt32LE(position + 4);
+    if (type === 'C2PA') {
+      return buffer.subarray(position + 8, position + 8 + length);
+    }
+    position += 8 + length + (length % 2);
+  }
+  return null;
+}
+
+/**
+ * TIFFのIFD0のC2PAタグからマニフェストストアを取り出す
+ */
+function extractFromTiff(buffer: Buffer): Buffer | null {
+  const littleEndian = buffer.toString('latin1', 0, 2) === 'II';
+  const read16 = (offset: number) => (littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset));
+  const read32 = (offset: number) => (littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset));
+  if (read16(2) !== 42) {
+    throw new Error('TIFFの形式が正しくないか、BigTIFFには対応していません。');
+  }
+
+  const ifdOffset = read32(4);
+  const count = read16(ifdOffset);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (read16(entry) === TIFF_C2PA_TAG) {
+      const length = read32(entry + 4);
+      const offset = length <= 4 ? entry + 8 : read32(entry + 8);
+      return buffer.subarray(offset, offset + length);
+    }
+  }
+  return null;
+}
+
+/**
+ * BMFF（HEIF/AVIF）のC2PA uuidボックスからマニフェストストアを取り出す
+ */
+function extractFromBmff(buffer: Buffer): Buffer | null {
+  let position = 0;
+  while (position + 8 <= buffer.length) {
+    let size = buffer.readUInt32BE(position);
+    const type = buffer.toString('latin1', position + 4, position + 8);
+    let headerLength = 8;
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(position + 8));
+      headerLength = 16;
+    } else if (size === 0) {
+      size = buffer.length - position;
+    }
+    if (size < headerLength) {
+      throw new Error('BMFFボックスの長さが不正です。');
+    }
+
+    const content = buffer.subarray(position + headerLength, position + size);
+    if (type === 'uuid' && content.subarray(0, 16).equals(BMFF_C2PA_UUID)) {
+      // バージョン・フラグ（4バイト）、用途（NULL終端文字列）、用途がmanifestの場合はオフセット（8バイト）
+      const purposeEnd = content.indexOf(0, 20);
+      if (purposeEnd > 0 && content.toString('latin1', 20, purposeEnd) === 'manifest') {
+        return content.subarray(purposeEnd + 1 + 8);
+      }
+    }
+    position += size;
+  }
+  return null;
+}
+
+/**
+ * C2PAのマニフェストストア（c2pa）のスーパーボックスかどうかを判定する
+ */
+function isManifestStore(buffer: Buffer): boolean {
+  try {
+    return readBoxes(buffer, 0)[0]?.c2paType === 'c2pa';
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * アセットに埋め込まれたマニフェストストアを取り出す
+ * @param buffer アセットの内容
+ * @param mimeType アセットのMIMEタイプ
+ * @returns マニフェストストア（JUMBF）。埋め込まれていない場合はnull
+ */
+export function extractManifestStore(buffer: Buffer, mimeType: string): Buffer | null {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return extractFromJpeg(buffer);
+    case 'image/png':
+      return extractFromPng(buffer);
+    case 'image/webp':
+      return extractFromRiff(buffer);
+    case 'image/tiff':
+      return extractFromTiff(buffer);
+    case 'image/avif':
+    case 'image/heic':
+    case 'image/heif':
+      return extractFromBmff(buffer);
+    default:
+      throw new Error(`${mimeType} に埋め込まれたマニフェストストアの読み取りには対応していません。`);
+  }
+}
+
+/**
+ * COSEヘッダーから証明書チェーンを取得する
+ */
+function readX5Chain(header: CborValue): Buffer[] | null {
+  if (!(header instanceof Map)) {
+    return null;
+  }
+  // C2PA 1.x以前は文字列のラベルを使用していた
+  const value = header.get(COSE_HEADER_X5CHAIN) ?? header.get('x5chain');
+  if (Buffer.isBuffer(value)) {
+    return [value];
+  }
+  if (Array.isArray(value) && value.length > 0 && value.every(item => Buffer.isBuffer(item))) {
+    return value as Buffer[];
+  }
+  return null;
+}
+
+/**
+ * マニフェストストアから、マニフェストの署名証明書チェーンを取り出す
+ * @param manifestStore マニフェストストア（JUMBF）
+ * @param manifestLabel マニフェストのラベル（省略時は最後のマニフェスト＝アクティブマニフェスト）
+ * @returns リーフ証明書を先頭にした証明書チェーン（DER）
+ */
+export function readSignerCertificates(manifestStore: Buffer, manifestLabel?: string | null): Buffer[] {
+  const store = readBoxes(manifestStore, 0).find(box => box.c2paType === 'c2pa');
+  if (!store) {
+    throw new Error('C2PAのマニフェストストアではありません。');
+  }
+
+  const manifests = store.children.filter(box => box.c2paType === 'c2ma' || box.c2paType === 'c2um');
+  const manifest = manifestLabel
+    ? manifests.find(box => box.label === manifestLabel)
+    : manifests[manifests.length - 1];
+  if (!manifest) {
+    throw new Error(`マニフェストが見つかりません: ${manifestLabel || '（アクティブマニフェスト）'}`);
+  }
+
+  const signature = manifest.children.find(box => box.c2paType === 'c2cs');
+  const content = signature?.children.find(box => box.type === 'cbor');
+  if (!content) {
+    throw new Error('マニフェストにクレーム署名がありません。');
+  }
+
+  let cose = decodeCbor(content.content);
+  if (isCborTagged(cose) && cose.tag === COSE_SIGN1_TAG) {
+    cose = cose.value;
+  }
+  if (!Array.isArray(cose) || cose.length !== 4 || !Buffer.isBuffer(cose[0])) {
+    throw new Error('クレーム署名がCOSE_Sign1の形式ではありません。');
+  }
+
+  const protectedHeader = cose[0].length > 0 ? decodeCbor(cose[0]) : new Map();
+  const chain = readX5Chain(protectedHeader) || readX5Chain(cose[1]);
+  if (!chain) {
+    throw new Error('クレーム署名に証明書チェーン（x5chain）がありません。');
+  }
+  return chain;
+}
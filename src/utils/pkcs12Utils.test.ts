@@ -0,0 +1,72 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { X509Certificate } from 'crypto';
+import { parsePkcs12 } from './pkcs12Utils';
+
+// openssl pkcs12 -export で作成したPKCS#12（作成手順は __fixtures__/README.md）
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__');
+const PASSWORD = 'fixture-password';
+
+function readFixture(...segments: string[]): Buffer {
+  return fs.readFileSync(path.join(FIXTURES_DIR, ...segments));
+}
+
+const signer = new X509Certificate(readFixture('certificates', 'signer1.crt'));
+const intermediate = new X509Certificate(readFixture('certificates', 'intermediate.crt'));
+
+// 暗号化方式ごとのPKCS#12
+const bundles = [
+  { file: 'aes256-sha256.p12', password: PASSWORD, description: 'PBES2（AES-256-CBC、PBKDF2-HMAC-SHA256）とSHA-256のMAC' },
+  { file: 'aes128-sha512.p12', password: PASSWORD, description: 'PBES2（AES-128-CBC）とSHA-512のMAC' },
+  { file: 'pbes2-3des.p12', password: PASSWORD, description: 'PBES2（DES-EDE3-CBC）' },
+  { file: 'legacy-3des-rc2-40.p12', password: PASSWORD, description: 'PBE-SHA1-3DESの鍵とPBE-SHA1-RC2-40の証明書' },
+  { file: 'legacy-2des-rc2-128.p12', password: PASSWORD, description: 'PBE-SHA1-2DESの鍵とPBE-SHA1-RC2-128の証明書' },
+  { file: 'unencrypted-certs.p12', password: PASSWORD, description: '暗号化されていない証明書' },
+  { file: 'unicode-password.p12', password: 'パスワード', description: 'ASCII以外のパスワード' },
+  { file: 'empty-password.p12', password: '', description: '空のパスワード' },
+  { file: 'no-mac.p12', password: '', description: 'MACと暗号化のない形式' }
+];
+
+describe('parsePkcs12', () => {
+  for (const { file, password, description } of bundles) {
+    test(`${description}から秘密鍵と証明書を取り出せる`, () => {
+      const { privateKeys, certificates } = parsePkcs12(readFixture('pkcs12', file), password);
+
+      assert.equal(privateKeys.length, 1);
+      assert.ok(signer.checkPrivateKey(privateKeys[0]));
+      assert.deepEqual(
+        certificates.map(certificate => certificate.fingerprint256),
+        [signer.fingerprint256, intermediate.fingerprint256]
+      );
+    });
+  }
+
+  test('秘密鍵を含まない場合は証明書のみを取り出す', () => {
+    const { privateKeys, certificates } = parsePkcs12(readFixture('pkcs12', 'certificates-only.p12'), PASSWORD);
+
+    assert.equal(privateKeys.length, 0);
+    assert.deepEqual(
+      certificates.map(certificate => certificate.fingerprint256),
+      [signer.fingerprint256, intermediate.fingerprint256]
+    );
+  });
+
+  test('パスワードが異なる場合はINVALID_PKCS12_PASSWORD', () => {
+    for (const file of ['aes256-sha256.p12', 'legacy-3des-rc2-40.p12', 'unicode-password.p12']) {
+      assert.throws(() => parsePkcs12(readFixture('pkcs12', file), 'wrong-password'), { code: 'INVALID_PKCS12_PASSWORD' });
+    }
+  });
+
+  test('鍵導出の反復回数が上限を超える場合はINVALID_PKCS12', () => {
+    assert.throws(() => parsePkcs12(readFixture('pkcs12', 'excessive-iterations.p12'), PASSWORD), { code: 'INVALID_PKCS12' });
+  });
+
+  test('PKCS#12でないデータや途中で切れたデータはINVALID_PKCS12', () => {
+    const der = readFixture('pkcs12', 'aes256-sha256.p12');
+    for (const data of [readFixture('certificates', 'signer1.crt'), der.subarray(0, der.length / 2), Buffer.alloc(0)]) {
+      assert.throws(() => parsePkcs12(data, PASSWORD), { code: 'INVALID_PKCS12' });
+    }
+  });
+});
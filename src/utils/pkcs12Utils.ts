@@ -0,0 +1,456 @@
+/**
+ * PKCS#12（.p12/.pfx）の最小実装
+ * パスワードで保護された証明書と秘密鍵を取り出す（RFC 7292、DERエンコードのみ対応）
+ */
+
+import crypto, { KeyObject, X509Certificate } from 'crypto';
+import { Asn1Node, Asn1Tag, decodeDer, decodeInteger, decodeOid } from './asn1Utils';
+import { AppError, isAppError } from './errors';
+import { DIGEST_OIDS } from './x509Utils';
+
+// PKCS#12で使用するOID
+const Pkcs12Oids = {
+  // PKCS#7のコンテンツタイプ
+  data: '1.2.840.113549.1.7.1',
+  encryptedData: '1.2.840.113549.1.7.6',
+  // SafeBagの種類
+  keyBag: '1.2.840.113549.1.12.10.1.1',
+  pkcs8ShroudedKeyBag: '1.2.840.113549.1.12.10.1.2',
+  certBag: '1.2.840.113549.1.12.10.1.3',
+  x509Certificate: '1.2.840.113549.1.9.22.1',
+  // パスワードベース暗号化
+  pbes2: '1.2.840.113549.1.5.13',
+  pbkdf2: '1.2.840.113549.1.5.12'
+} as const;
+
+// PKCS#12のパスワードベース暗号化（鍵導出にPKCS#12 KDFを使用）
+const PKCS12_PBE_CIPHERS: Record<string, { cipher: string; keyLength: number; ivLength: number }> = {
+  '1.2.840.113549.1.12.1.3': { cipher: 'des-ede3-cbc', keyLength: 24, ivLength: 8 },
+  '1.2.840.113549.1.12.1.4': { cipher: 'des-ede-cbc', keyLength: 16, ivLength: 8 },
+  '1.2.840.113549.1.12.1.5': { cipher: 'rc2-cbc', keyLength: 16, ivLength: 8 },
+  '1.2.840.113549.1.12.1.6': { cipher: 'rc2-40-cbc', keyLength: 5, ivLength: 8 }
+};
+
+// RC2の鍵拡張に使用する置換表（RFC 2268）
+const RC2_PITABLE = Buffer.from(
+  'd978f9c419ddb5ed28e9fd794aa0d89dc67e37832b76538e624c6488448bfba2179a59f587b34f1361456d8d09817d32bd8f40eb86b77b0bf09521225c6b4e82' +
+  '54d66593ce60b21c7356c014a78cf1dc1275ca1f3bbee4d1423dd430a33cb6266fbf0eda4669075727f21d9bbc944303f811c7f690ef3ee706c3d52fc8661ed7' +
+  '08e8eade8052eef784aa72ac354d6a2a961ad2715a1549744b9fd05e0418a4ecc2e0416e0f51cbcc2491af50a1f47039997c3a8523b8b47afc02365b25559731' +
+  '2d5dfa98e38a92ae05df2910676cbac9d300e6cfe19ea82c6316013f58e289a90d38341bab33ffb0bb480c5fb9b1cd2ec5f3db47e5a59c770aa62068fe7fc1ad',
+  'hex'
+);
+
+// PBES2の暗号化方式
+const PBES2_CIPHERS: Record<string, { cipher: string; keyLength: number }> = {
+  '2.16.840.1.101.3.4.1.2': { cipher: 'aes-128-cbc', keyLength: 16 },
+  '2.16.840.1.101.3.4.1.22': { cipher: 'aes-192-cbc', keyLength: 24 },
+  '2.16.840.1.101.3.4.1.42': { cipher: 'aes-256-cbc', keyLength: 32 },
+  '1.2.840.113549.3.7': { cipher: 'des-ede3-cbc', keyLength: 24 }
+};
+
+// PBKDF2の擬似乱数関数（省略時はHMAC-SHA1）
+const PBKDF2_PRF_HASHES: Record<string, string> = {
+  '1.2.840.113549.2.7': 'sha1',
+  '1.2.840.113549.2.9': 'sha256',
+  '1.2.840.113549.2.10': 'sha384',
+  '1.2.840.113549.2.11': 'sha512'
+};
+
+// PKCS#12 KDFのハッシュブロック長（バイト）
+const HASH_BLOCK_SIZES: Record<string, number> = { sha1: 64, sha256: 64, sha384: 128, sha512: 128 };
+
+// 処理時間が過大にならないよう、鍵導出の反復回数に上限を設ける
+const MAX_ITERATIONS = 1_000_000;
+
+// PKCS#12から取り出した秘密鍵と証明書
+export interface Pkcs12Contents {
+  privateKeys: KeyObject[];
+  // ファイル内の順序を維持
+  certificates: X509Certificate[];
+}
+
+function invalidPkcs12(message: string, details?: Record<string, unknown>): AppError {
+  return new AppError(400, 'INVALID_PKCS12', message, details);
+}
+
+function wrongPassword(): AppError {
+  return new AppError(400, 'INVALID_PKCS12_PASSWORD', 'PKCS#12のパスワードが正しくありません。');
+}
+
+function unsupportedAlgorithm(oid: string): AppError {
+  return new AppError(
+    400,
+    'UNSUPPORTED_PKCS12_ALGORITHM',
+    `サポートされていないPKCS#12の暗号化方式です: ${oid}。AES（PBES2）で再エクスポートしてください。`,
+    { oid }
+  );
+}
+
+/**
+ * [0] EXPLICITで包まれた要素を取り出す
+ */
+function explicitContent(node: Asn1Node | undefined): Asn1Node {
+  if (!node || node.tag !== 0xa0 || node.children.length !== 1) {
+    throw invalidPkcs12('PKCS#12の構造が正しくありません。');
+  }
+  return node.children[0];
+}
+
+/**
+ * OCTET STRING（構造化された分割形式を含む）の内容を取得する
+ */
+function octetStringContent(node: Asn1Node): Buffer {
+  return node.constructed ? Buffer.concat(node.children.map(octetStringContent)) : node.content;
+}
+
+/**
+ * 反復回数を読み取る
+ */
+function readIterations(node: Asn1Node | undefined): number {
+  const iterations = node ? Number(decodeInteger(node)) : 1;
+  if (iterations < 1 || iterations > MAX_ITERATIONS) {
+    throw invalidPkcs12(`鍵導出の反復回数が範囲外です（${iterations}）。`, { iterations, maxIterations: MAX_ITERATIONS });
+  }
+  return iterations;
+}
+
+/**
+ * パスワードをBMPString（UTF-16BE、終端の0x0000を含む）に変換する
+ */
+function toBmpPassword(password: string): Buffer {
+  return Buffer.from(`${password}\0`, 'utf16le').swap16();
+}
+
+/**
+ * PKCS#12の鍵導出関数（RFC 7292 付録B.2）
+ * @param hash ハッシュアルゴリズム
+ * @param password BMPStringに変換したパスワード
+ * @param salt ソルト
+ * @param id 用途（1: 暗号鍵、2: IV、3: MAC鍵）
+ * @param iterations 反復回数
+ * @param length 導出するバイト数
+ */
+function pkcs12Kdf(hash: string, password: Buffer, salt: Buffer, id: number, iterations: number, length: number): Buffer {
+  const blockSize = HASH_BLOCK_SIZES[hash];
+  const fill = (data: Buffer): Buffer => {
+    const filled = Buffer.alloc(blockSize * Math.ceil(data.length / blockSize));
+    for (let i = 0; i < filled.length; i++) {
+      filled[i] = data[i % data.length];
+    }
+    return filled;
+  };
+
+  const diversifier = Buffer.alloc(blockSize, id);
+  const input = Buffer.concat([fill(salt), fill(password)]);
+  const blocks: Buffer[] = [];
+  let produced = 0;
+
+  while (produced < length) {
+    let block = crypto.createHash(hash).update(diversifier).update(input).digest();
+    for (let i = 1; i < iterations; i++) {
+      block = crypto.createHash(hash).update(block).digest();
+    }
+    blocks.push(block);
+    produced += block.length;
+    if (produced >= length) {
+      break;
+    }
+
+    // 入力の各ブロックに (ハッシュ値を繰り返したブロック + 1) を加算する
+    const addend = fill(block);
+    for (let offset = 0; offset < input.length; offset += blockSize) {
+      let carry = 1;
+      for (let i = blockSize - 1; i >= 0; i--) {
+        const sum = input[offset + i] + addend[i] + carry;
+        input[offset + i] = sum & 0xff;
+        carry = sum >> 8;
+      }
+    }
+  }
+
+  return Buffer.concat(blocks).subarray(0, length);
+}
+
+/**
+ * 暗号化アルゴリズムのOIDに対応するハッシュ名を取得する
+ */
+function digestName(oid: string): string {
+  const name = Object.keys(DIGEST_OIDS).find(key => DIGEST_OIDS[key] === oid);
+  if (!name) {
+    throw unsupportedAlgorithm(oid);
+  }
+  return name;
+}
+
+/**
+ * MACを検証してパスワードを確認する
+ * 空のパスワードは実装によって終端の0x0000の有無が異なるため、両方を試す
+ */
+function verifyMac(authSafeContent: Buffer, macData: Asn1Node, password: string): void {
+  const [digestInfo, saltNode, iterationsNode] = macData.children;
+  const [algorithm, digestNode] = digestInfo.children;
+  const hash = digestName(decodeOid(algorithm.children[0]));
+  const salt = saltNode.content;
+  const iterations = readIterations(iterationsNode);
+  const expected = digestNode.content;
+
+  const candidates = password ? [toBmpPassword(password)] : [toBmpPassword(''), Buffer.alloc(0)];
+  const matched = candidates.some(candidate => {
+    const key = pkcs12Kdf(hash, candidate, salt, 3, iterations, crypto.createHash(hash).digest().length);
+    const actual = crypto.createHmac(hash, key).update(authSafeContent).digest();
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  });
+
+  if (!matched) {
+    throw wrongPassword();
+  }
+}
+
+/**
+ * RC2-CBCで復号する（RFC 2268）
+ * OpenSSL 3ではRC2を使用できないが、OpenSSL 1.1以前やWindowsで作成したPKCS#12は証明書の暗号化にRC2を使用するため
+ * @param key 鍵（有効鍵長は鍵のビット数とする）
+ * @param iv 初期化ベクトル
+ * @param data 暗号文
+ * @returns パディングを含む平文
+ */
+function rc2CbcDecrypt(key: Buffer, iv: Buffer, data: Buffer): Buffer {
+  if (data.length === 0 || data.length % 8 !== 0) {
+    throw new Error('RC2の暗号文の長さが不正です。');
+  }
+
+  // 鍵拡張
+  const expanded = Buffer.alloc(128);
+  key.copy(expanded);
+  for (let i = key.length; i < 128; i++) {
+    expanded[i] = RC2_PITABLE[(expanded[i - 1] + expanded[i - key.length]) & 0xff];
+  }
+  const effectiveBytes = key.length;
+  expanded[128 - effectiveBytes] = RC2_PITABLE[expanded[128 - effectiveBytes]];
+  for (let i = 127 - effectiveBytes; i >= 0; i--) {
+    expanded[i] = RC2_PITABLE[expanded[i + 1] ^ expanded[i + effectiveBytes]];
+  }
+  const keys = Array.from({ length: 64 }, (_, i) => expanded.readUInt16LE(i * 2));
+
+  const shifts = [1, 2, 3, 5];
+  const output = Buffer.alloc(data.length);
+  let previous = iv;
+
+  for (let offset = 0; offset < data.length; offset += 8) {
+    const words = [0, 1, 2, 3].map(i => data.readUInt16LE(offset + i * 2));
+    let j = 63;
+    const unmix = () => {
+      for (let i = 3; i >= 0; i--) {
+        const rotated = ((words[i] >>> shifts[i]) | (words[i] << (16 - shifts[i]))) & 0xffff;
+        const a = words[(i + 3) % 4];
+        const b = words[(i + 2) % 4];
+        const c = words[(i + 1) % 4];
+        words[i] = (rotated - keys[j--] - (a & b) - (~a & c)) & 0xffff;
+      }
+    };
+    const unmash = () => {
+      for (let i = 3; i >= 0; i--) {
+        words[i] = (words[i] - keys[words[(i + 3) % 4] & 63]) & 0xffff;
+      }
+    };
+
+    for (let round = 0; round < 16; round++) {
+      unmix();
+      if (round === 4 || round === 10) {
+        unmash();
+      }
+    }
+
+    for (let i = 0; i < 4; i++) {
+      output.writeUInt16LE(words[i] ^ previous.readUInt16LE(i * 2), offset + i * 2);
+    }
+    previous = data.subarray(offset, offset + 8);
+  }
+
+  return output;
+}
+
+/**
+ * PKCS#7パディングを取り除く
+ */
+function removePadding(data: Buffer): Buffer {
+  const padding = data[data.length - 1];
+  if (!padding || padding > 8 || !data.subarray(data.length - padding).every(byte => byte === padding)) {
+    throw new Error('bad decrypt');
+  }
+  return data.subarray(0, data.length - padding);
+}
+
+/**
+ * 復号器で復号する（パディングの不一致はパスワードの誤りとして扱う）
+ */
+function decipher(cipher: string, key: Buffer, iv: Buffer, data: Buffer, oid: string): Buffer {
+  const legacyRc2 = cipher.startsWith('rc2-') && !crypto.getCiphers().includes(cipher);
+  let decipherer: crypto.Decipher | undefined;
+  if (!legacyRc2) {
+    try {
+      decipherer = crypto.createDecipheriv(cipher, key, iv);
+    } catch (error) {
+      throw unsupportedAlgorithm(oid);
+    }
+  }
+  try {
+    return decipherer
+      ? Buffer.concat([decipherer.update(data), decipherer.final()])
+      : removePadding(rc2CbcDecrypt(key, iv, data));
+  } catch (error) {
+    throw wrongPassword();
+  }
+}
+
+/**
+ * パスワードベース暗号化（PBES2またはPKCS#12 PBE）で暗号化されたデータを復号する
+ * @param algorithm AlgorithmIdentifierノード
+ * @param data 暗号文
+ * @param password パスワード
+ */
+function decryptPbe(algorithm: Asn1Node, data: Buffer, password: string): Buffer {
+  const oid = decodeOid(algorithm.children[0]);
+  const params = algorithm.children[1];
+
+  if (oid === Pkcs12Oids.pbes2) {
+    const [keyDerivation, encryptionScheme] = params.children;
+    const kdfOid = decodeOid(keyDerivation.children[0]);
+    if (kdfOid !== Pkcs12Oids.pbkdf2) {
+      throw unsupportedAlgorithm(kdfOid);
+    }
+    const [saltNode, iterationsNode, ...optional] = keyDerivation.children[1].children;
+    const prf = optional.find(node => node.tag === Asn1Tag.SEQUENCE);
+    const prfOid = prf ? decodeOid(prf.children[0]) : '1.2.840.113549.2.7';
+    const hash = PBKDF2_PRF_HASHES[prfOid];
+    if (!hash) {
+      throw unsupportedAlgorithm(prfOid);
+    }
+
+    const cipherOid = decodeOid(encryptionScheme.children[0]);
+    const scheme = PBES2_CIPHERS[cipherOid];
+    if (!scheme) {
+      throw unsupportedAlgorithm(cipherOid);
+    }
+    const key = crypto.pbkdf2Sync(Buffer.from(password, 'utf8'), saltNode.content, readIterations(iterationsNode), scheme.keyLength, hash);
+    return decipher(scheme.cipher, key, encryptionScheme.children[1].content, data, cipherOid);
+  }
+
+  const scheme = PKCS12_PBE_CIPHERS[oid];
+  if (!scheme) {
+    throw unsupportedAlgorithm(oid);
+  }
+  const [saltNode, iterationsNode] = params.children;
+  const iterations = readIterations(iterationsNode);
+  const bmpPassword = toBmpPassword(password);
+  const key = pkcs12Kdf('sha1', bmpPassword, saltNode.content, 1, iterations, scheme.keyLength);
+  const iv = pkcs12Kdf('sha1', bmpPassword, saltNode.content, 2, iterations, scheme.ivLength);
+  return decipher(scheme.cipher, key, iv, data, oid);
+}
+
+/**
+ * PKCS#8のPrivateKeyInfo（DER）から秘密鍵を作成する
+ */
+function createPkcs8PrivateKey(der: Buffer): KeyObject {
+  try {
+    return crypto.createPrivateKey({ key: der, format: 'der', type: 'pkcs8' });
+  } catch (error) {
+    throw invalidPkcs12('PKCS#12内の秘密鍵を解析できません。', {
+      reason: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * SafeContentsに含まれるSafeBagを読み取る
+ */
+function readSafeBags(safeContents: Asn1Node, password: string, contents: Pkcs12Contents): void {
+  for (const bag of safeContents.children) {
+    const bagId = decodeOid(bag.children[0]);
+    const value = explicitContent(bag.children[1]);
+
+    switch (bagId) {
+      case Pkcs12Oids.keyBag:
+        contents.privateKeys.push(createPkcs8PrivateKey(value.raw));
+        break;
+      case Pkcs12Oids.pkcs8ShroudedKeyBag: {
+        const [algorithm, encrypted] = value.children;
+        contents.privateKeys.push(createPkcs8PrivateKey(decryptPbe(algorithm, encrypted.content, password)));
+        break;
+      }
+      case Pkcs12Oids.certBag: {
+        // X.509以外の証明書（SDSIなど）は対象外
+        if (decodeOid(value.children[0]) !== Pkcs12Oids.x509Certificate) {
+          break;
+        }
+        const der = octetStringContent(explicitContent(value.children[1]));
+        contents.certificates.push(new X509Certificate(der));
+        break;
+      }
+      default:
+        // CRLや入れ子のSafeContentsなど、署名に不要な要素は無視する
+        break;
+    }
+  }
+}
+
+/**
+ * ContentInfoからSafeContentsを取り出す（暗号化されている場合は復号する）
+ */
+function readSafeContents(contentInfo: Asn1Node, password: string): Asn1Node {
+  const contentType = decodeOid(contentInfo.children[0]);
+
+  if (contentType === Pkcs12Oids.data) {
+    return decodeDer(octetStringContent(explicitContent(contentInfo.children[1])));
+  }
+  if (contentType === Pkcs12Oids.encryptedData) {
+    // EncryptedData ::= SEQUENCE { version, EncryptedContentInfo { contentType, algorithm, [0] IMPLICIT content } }
+    const encryptedContentInfo = explicitContent(contentInfo.children[1]).children[1];
+    const [, algorithm, encryptedContent] = encryptedContentInfo.children;
+    if (!encryptedContent) {
+      return decodeDer(Buffer.from([Asn1Tag.SEQUENCE, 0]));
+    }
+    return decodeDer(decryptPbe(algorithm, octetStringContent(encryptedContent), password));
+  }
+  // 公開鍵で暗号化されたEnvelopedDataなどには対応しない
+  throw invalidPkcs12(`サポートされていないPKCS#12のコンテンツタイプです: ${contentType}`, { contentType });
+}
+
+/**
+ * PKCS#12を解析し、証明書と秘密鍵を取り出す
+ * MACがある場合はパスワードを先に検証する
+ * @param der PKCS#12ファイルの内容（DER）
+ * @param password パスワード（省略時は空のパスワード）
+ * @returns 秘密鍵と証明書
+ */
+export function parsePkcs12(der: Buffer, password = ''): Pkcs12Contents {
+  try {
+    const pfx = decodeDer(der);
+    const [version, authSafe, macData] = pfx.children;
+    if (pfx.tag !== Asn1Tag.SEQUENCE || !version || Number(decodeInteger(version)) !== 3) {
+      throw invalidPkcs12('PKCS#12（バージョン3）ではありません。');
+    }
+    // 公開鍵で署名された形式（signedData）には対応しない
+    if (decodeOid(authSafe.children[0]) !== Pkcs12Oids.data) {
+      throw invalidPkcs12('パスワードで保護されたPKCS#12のみ対応しています。');
+    }
+
+    const authSafeContent = octetStringContent(explicitContent(authSafe.children[1]));
+    if (macData) {
+      verifyMac(authSafeContent, macData, password);
+    }
+
+    const contents: Pkcs12Contents = { privateKeys: [], certificates: [] };
+    for (const contentInfo of decodeDer(authSafeContent).children) {
+      readSafeBags(readSafeContents(contentInfo, password), password, contents);
+    }
+    return contents;
+  } catch (error) {
+    if (isAppError(error)) {
+      throw error;
+    }
+    throw invalidPkcs12('PKCS#12を解析できません。DER形式の.p12/.pfxファイルを指定してください。', {
+      reason: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Schema, validateSchema } from './schemaUtils';
+
+describe('validateSchema', () => {
+  const schema: Schema = {
+    type: 'object',
+    properties: { title: { type: 'string', minLength: 1 } },
+    required: ['title']
+  };
+
+  test('Object.prototypeの項目名（toString・constructor）をスキーマとして扱わない', () => {
+    assert.deepEqual(validateSchema({ title: 't', toString: 1, constructor: 'x' }, schema), []);
+  });
+
+  test('追加の項目を拒否する場合はObject.prototypeの項目名も不明な項目として報告する', () => {
+    const closed: Schema = { ...schema, additionalProperties: false };
+    assert.deepEqual(validateSchema({ title: 't', toString: 1, hasOwnProperty: {} }, closed), [
+      { path: '$.toString', reason: '不明な項目です。' },
+      { path: '$.hasOwnProperty', reason: '不明な項目です。' }
+    ]);
+  });
+
+  test('追加の項目のスキーマはObject.prototypeの項目名にも適用する', () => {
+    const map: Schema = { type: 'object', additionalProperties: { type: 'string' } };
+    assert.deepEqual(validateSchema({ toString: 'a', constructor: 1 }, map), [
+      { path: '$.constructor', reason: '文字列で指定してください（numberが指定されています）。' }
+    ]);
+  });
+
+  test('必須項目はObject.prototypeから継承した値で満たされない', () => {
+    const required: Schema = { type: 'object', required: ['toString'] };
+    assert.deepEqual(validateSchema({}, required), [{ path: '$.toString', reason: '必須項目です。' }]);
+  });
+});
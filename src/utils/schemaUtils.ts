@@ -0,0 +1,169 @@
+import { AppError } from './errors';
+
+// リクエストの宣言的なスキーマ検証ユーティリティ
+// 検証エラーはJSONパス（例: $.manifestData.assertions[0].label）と理由の一覧で返す
+
+// スキーマの定義
+export type Schema =
+  | { type: 'string'; minLength?: number; maxLength?: number; pattern?: RegExp; enum?: readonly string[] }
+  | { type: 'number'; integer?: boolean; minimum?: number; maximum?: number }
+  | { type: 'boolean' }
+  | { type: 'null' }
+  | { type: 'array'; items?: Schema; minItems?: number; maxItems?: number }
+  | {
+      type: 'object';
+      properties?: Record<string, Schema>;
+      required?: readonly string[];
+      // falseの場合はpropertiesにない項目を拒否し、スキーマの場合は各項目をそのスキーマで検証する
+      additionalProperties?: boolean | Schema;
+    }
+  | { anyOf: readonly Schema[]; description: string }
+  | { type: 'any' };
+
+// 検証エラー
+export interface SchemaError {
+  // エラーのある項目のJSONパス
+  path: string;
+  reason: string;
+}
+
+/**
+ * オブジェクトの項目のJSONパスを作成する
+ */
+export function propertyPath(path: string, key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * オブジェクト自身の項目か判定する（toStringなどObject.prototypeから継承した項目は含めない）
+ */
+export function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * 項目の値の検証エラーを作成する
+ * スキーマの検証エラーと同じく、422と details.errors: [{ path, reason }] で返す
+ * @param code エラーコード
+ * @param path エラーのある項目のJSONパス
+ * @param reason 理由
+ * @param message エラーメッセージ（省略時は理由）
+ */
+export function invalidField(code: string, path: string, reason: string, message = reason): AppError {
+  const errors: SchemaError[] = [{ path, reason }];
+  return new AppError(422, code, message, { errors });
+}
+
+/**
+ * 値の型の表示名を取得する
+ */
+function typeName(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * 値をスキーマで検証する
+ * @param value 検証する値
+ * @param schema スキーマ
+ * @param path 値のJSONパス
+ * @returns 検証エラー（問題がない場合は空の配列）
+ */
+export function validateSchema(value: unknown, schema: Schema, path = '$'): SchemaError[] {
+  if ('anyOf' in schema) {
+    return schema.anyOf.some(candidate => validateSchema(value, candidate, path).length === 0)
+      ? []
+      : [{ path, reason: `${schema.description}で指定してください。` }];
+  }
+
+  switch (schema.type) {
+    case 'any':
+      return [];
+
+    case 'null':
+      return value === null ? [] : [{ path, reason: 'nullで指定してください。' }];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ path, reason: `真偽値で指定してください（${typeName(value)}が指定されています）。` }];
+
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [{ path, reason: `数値で指定してください（${typeName(value)}が指定されています）。` }];
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        return [{ path, reason: '整数で指定してください。' }];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [{ path, reason: `${schema.minimum}以上で指定してください。` }];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [{ path, reason: `${schema.maximum}以下で指定してください。` }];
+      }
+      return [];
+    }
+
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [{ path, reason: `文字列で指定してください（${typeName(value)}が指定されています）。` }];
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return [{ path, reason: schema.minLength === 1 ? '空にできません。' : `${schema.minLength}文字以上で指定してください。` }];
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return [{ path, reason: `${schema.maxLength}文字以内で指定してください。` }];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path, reason: `${schema.enum.join(', ')} のいずれかで指定してください。` }];
+      }
+      if (schema.pattern && !schema.pattern.test(value)) {
+        return [{ path, reason: '形式が正しくありません。' }];
+      }
+      return [];
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [{ path, reason: `配列で指定してください（${typeName(value)}が指定されています）。` }];
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return [{ path, reason: `${schema.minItems}件以上指定してください。` }];
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return [{ path, reason: `${schema.maxItems}件以内で指定してください。` }];
+      }
+      const { items } = schema;
+      return items ? value.flatMap((item, index) => validateSchema(item, items, `${path}[${index}]`)) : [];
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [{ path, reason: `オブジェクトで指定してください（${typeName(value)}が指定されています）。` }];
+      }
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties || {};
+      const errors: SchemaError[] = [];
+
+      for (const key of schema.required || []) {
+        if (!hasOwn(record, key) || record[key] === undefined) {
+          errors.push({ path: propertyPath(path, key), reason: '必須項目です。' });
+        }
+      }
+      for (const [key, item] of Object.entries(record)) {
+        if (item === undefined) {
+          continue;
+        }
+        const propertySchema = hasOwn(properties, key)
+          ? properties[key]
+          : typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined;
+        if (propertySchema) {
+          errors.push(...validateSchema(item, propertySchema, propertyPath(path, key)));
+        } else if (schema.additionalProperties === false) {
+          errors.push({ path: propertyPath(path, key), reason: '不明な項目です。' });
+        }
+      }
+      return errors;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import sharp from 'sharp';
+import { BufferAsset } from 'c2pa-node';
+import { config } from '../config';
+
+/**
+ * マニフェストや材料に埋め込むサムネイルを生成する
+ * 透過を含む画像はPNG、それ以外はJPEGで出力する
+ * デコードできない形式（環境によってはHEIC/HEIFなど）の場合はnullを返す
+ * @param input 画像ファイルのパスまたはバッファ
+ * @returns サムネイル（生成できない場合はnull）
+ */
+export async function createThumbnail(input: string | Buffer): Promise<BufferAsset | null> {
+  const { maxSize, quality } = config.c2pa.thumbnailOptions;
+
+  try {
+    // アニメーション画像は先頭フレームのみを使用し、EXIFの向きを反映する
+    const image = sharp(input, { pages: 1 }).rotate();
+    const { hasAlpha } = await image.metadata();
+
+    const resized = image.resize({
+      width: maxSize,
+      height: maxSize,
+      fit: 'inside',
+      withoutEnlargement: true
+    });
+
+    const buffer = hasAlpha
+      ? await resized.png().toBuffer()
+      : await resized.jpeg({ quality }).toBuffer();
+
+    return {
+      buffer,
+      mimeType: hasAlpha ? 'image/png' : 'image/jpeg'
+    };
+  } catch (error) {
+    console.warn('サムネイルを生成できませんでした:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
@@ -0,0 +1,12 @@
+import crypto from 'crypto';
+
+/**
+ * 認証トークンを比較する
+ * 長さの違いも含めて比較時間から推測されないよう、ハッシュ同士を比較する
+ * @param provided リクエストで指定されたトークン
+ * @param expected 設定されたトークン
+ */
+export function isSameToken(provided: string, expected: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(provided), digest(expected));
+}
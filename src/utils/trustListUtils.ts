@@ -1,116 +1,80 @@
-import { getTrustListContents } from '../services/trustListService';
+import crypto, { X509Certificate } from 'crypto';
+
+// 信頼リストの証明書と登録元
+export interface TrustListCertificate {
+  certificate: X509Certificate;
+  // public: 公開の信頼リスト、private: 組織独自の信頼リスト
+  store: 'public' | 'private';
+  // 組織独自の信頼リストのエントリのIDと表示名
+  id?: string;
+  label?: string;
+}
+
+// 解析済みの信頼リスト（公開の信頼リストと組織独自の信頼リストをあわせたもの）
+export interface TrustLists {
+  // 公開の信頼リストを取得できたかどうか
+  publicListAvailable: boolean;
+  // トラストアンカー（anchors.pem と組織独自のトラストアンカー）
+  anchors: TrustListCertificate[];
+  // 個別に信頼する署名証明書（allowed.pem と組織独自に個別に信頼する証明書）
+  allowedCertificates: TrustListCertificate[];
+  // 個別に信頼する署名証明書のSHA-256ハッシュ（allowed.sha256.txt、Base64）
+  allowedHashes: Set<string>;
+  // トラストアンカーで信頼する署名証明書に求める拡張キー使用法（store.cfg、空の場合は制限しない）
+  allowedPurposes: string[];
+}
 
 /**
- * C2PAの読み取りオプションを作成する
- * トラストリストを含めた設定を返す
+ * 信頼リストのPEMから証明書を読み取る
+ * 解析できない証明書はリスト全体を無効にしないよう読み飛ばす
+ * @param pem 証明書を連結したPEM文字列
+ * @returns 証明書の配列
  */
-export async function createC2paTrustOptions(): Promise<any> {
-  try {
-    // トラストリストサービスからコンテンツを取得
-    const contents = await getTrustListContents();
-    
-    if (!contents) {
-      console.warn('Trust list contents are not available.');
-      return null;
+export function parseTrustListCertificates(pem: string): X509Certificate[] {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [];
+  return blocks.flatMap(block => {
+    try {
+      return [new X509Certificate(block)];
+    } catch (error) {
+      console.warn('信頼リストの証明書を解析できないため読み飛ばします:', error instanceof Error ? error.message : error);
+      return [];
     }
-    
-    const { trustAnchors, allowedList, allowedHashes, trustConfig } = contents;
-    
-    // 読み取りオプションを作成
-    return {
-      trust: {
-        trustConfig,
-        trustAnchors,
-        allowedList,
-        allowedHashes
-      },
-      verify: {
-        verifyTrust: true
-      }
-    };
-  } catch (error) {
-    console.error('Error creating trust options:', error);
-    // エラー時には検証せずに続行できるようnullを返す
-    return null;
-  }
+  });
 }
 
 /**
- * 証明書信頼性情報を抽出する関数
- * @param c2paData C2PAデータ
- * @returns 証明書信頼性情報
+ * 許可された証明書のハッシュ一覧（allowed.sha256.txt）を読み取る
+ * 1行に1つのBase64（16進数も可）のハッシュを記載し、// または # で始まる行はコメントとする
+ * @param text ハッシュ一覧
+ * @returns Base64に正規化したハッシュ
  */
-export function extractCertificateTrustInfo(
-  c2paData: any
-): {
-  isTrusted: boolean;
-  issuer: string | null;
-  timestamp: string | null;
-  errorMessage: string | null;
-} {
-  if (!c2paData) {
-    return {
-      isTrusted: false,
-      issuer: null,
-      timestamp: null,
-      errorMessage: "C2PAデータがありません"
-    };
-  }
-  
-  try {
-    // 検証ステータスをチェック
-    const validationStatus = c2paData.validation_status || [];
-    
-    // 証明書関連のエラーがあるか確認
-    const certificateErrors = validationStatus.filter((status: any) => {
-      const code = status.code || '';
-      const explanation = status.explanation || '';
-      return (
-        code.toLowerCase().includes('cert') || 
-        code.toLowerCase().includes('trust') || 
-        explanation.toLowerCase().includes('certificate') || 
-        explanation.toLowerCase().includes('trusted')
-      );
-    });
-    
-    // アクティブマニフェストから発行者と署名日時を取得
-    let issuer = null;
-    let timestamp = null;
-    
-    const activeManifest = c2paData.active_manifest;
-    if (activeManifest && activeManifest.signature_info) {
-      issuer = activeManifest.signature_info.issuer || null;
-      timestamp = activeManifest.signature_info.time || null;
+export function parseAllowedHashes(text: string): Set<string> {
+  const hashes = new Set<string>();
+  for (const line of text.split(/\r?\n/).map(value => value.trim())) {
+    if (!line || line.startsWith('//') || line.startsWith('#')) {
+      continue;
     }
-    
-    // 検証結果の判定
-    if (certificateErrors.length > 0) {
-      const errorMessages = certificateErrors.map((error: any) => 
-        error.explanation || error.code || '不明なエラー'
-      ).join('; ');
-      
-      return {
-        isTrusted: false,
-        issuer,
-        timestamp,
-        errorMessage: errorMessages
-      };
-    } else {
-      // エラーがなければ信頼できる
-      return {
-        isTrusted: true,
-        issuer,
-        timestamp,
-        errorMessage: null
-      };
-    }
-  } catch (error) {
-    console.error('Error extracting certificate trust info:', error);
-    return {
-      isTrusted: false,
-      issuer: null,
-      timestamp: null,
-      errorMessage: `証明書信頼性情報の抽出エラー: ${error instanceof Error ? error.message : String(error)}`
-    };
+    hashes.add(/^[0-9a-f]{64}$/i.test(line) ? Buffer.from(line, 'hex').toString('base64') : line);
   }
-}
\ No newline at end of file
+  return hashes;
+}
+
+/**
+ * 信頼リストの設定（store.cfg）から、署名証明書に求める拡張キー使用法を読み取る
+ * @param config store.cfgの内容（1行に1つのOID、// で始まる行はコメント）
+ * @returns 拡張キー使用法のOID
+ */
+export function parseTrustConfig(config: string): string[] {
+  return config
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => /^\d+(\.\d+)+$/.test(line));
+}
+
+/**
+ * 信頼リストの照合に使用する証明書のハッシュ（DERのSHA-256、Base64）を計算する
+ * @param certificate 証明書
+ */
+export function getCertificateHash(certificate: X509Certificate): string {
+  return crypto.createHash('sha256').update(certificate.raw).digest('base64');
+}
@@ -0,0 +1,331 @@
+import crypto, { KeyObject } from 'crypto';
+import {
+  Asn1Node,
+  decodeDer,
+  decodeOid,
+  encodeBitString,
+  encodeBoolean,
+  encodeExplicit,
+  encodeImplicit,
+  encodeInteger,
+  encodeNull,
+  encodeOctetString,
+  encodeOid,
+  encodePrintableString,
+  encodeSequence,
+  encodeSet,
+  encodeTime,
+  encodeUtf8String
+} from './asn1Utils';
+
+// 証明書・CMSで使用するOID
+export const Oids = {
+  // 署名アルゴリズム
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  ecdsaWithSha384: '1.2.840.10045.4.3.3',
+  ecdsaWithSha512: '1.2.840.10045.4.3.4',
+  sha256WithRsa: '1.2.840.113549.1.1.11',
+  sha384WithRsa: '1.2.840.113549.1.1.12',
+  sha512WithRsa: '1.2.840.113549.1.1.13',
+  ed25519: '1.3.101.112',
+  // ハッシュアルゴリズム
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3',
+  // 識別名の属性
+  commonName: '2.5.4.3',
+  country: '2.5.4.6',
+  organization: '2.5.4.10',
+  organizationalUnit: '2.5.4.11',
+  // 証明書拡張
+  subjectKeyIdentifier: '2.5.29.14',
+  keyUsage: '2.5.29.15',
+  basicConstraints: '2.5.29.19',
+  authorityKeyIdentifier: '2.5.29.35',
+  extKeyUsage: '2.5.29.37',
+  // 拡張キー使用法
+  emailProtection: '1.3.6.1.5.5.7.3.4',
+  timeStamping: '1.3.6.1.5.5.7.3.8',
+  ocspSigning: '1.3.6.1.5.5.7.3.9',
+  documentSigning: '1.3.6.1.5.5.7.3.36',
+  c2paClaimSigning: '1.3.6.1.4.1.62558.2.1',
+  anyExtendedKeyUsage: '2.5.29.37.0'
+} as const;
+
+// ハッシュアルゴリズム名とOIDの対応
+export const DIGEST_OIDS: Record<string, string> = {
+  sha1: Oids.sha1,
+  sha256: Oids.sha256,
+  sha384: Oids.sha384,
+  sha512: Oids.sha512
+};
+
+// 識別名
+export interface DistinguishedName {
+  commonName: string;
+  organization?: string;
+  organizationalUnit?: string;
+  country?: string;
+}
+
+// 鍵用途（RFC 5280のビット位置順）
+export const KEY_USAGE_BITS = [
+  'digitalSignature',
+  'nonRepudiation',
+  'keyEncipherment',
+  'dataEncipherment',
+  'keyAgreement',
+  'keyCertSign',
+  'cRLSign',
+  'encipherOnly',
+  'decipherOnly'
+] as const;
+
+export type KeyUsage = typeof KEY_USAGE_BITS[number];
+
+// 鍵に応じた署名アルゴリズム情報
+export interface SignatureAlgorithmInfo {
+  // AlgorithmIdentifier（DER）
+  algorithmIdentifier: Buffer;
+  // 署名前にハッシュするアルゴリズム（Ed25519ではsha512をダイジェストとして使用）
+  digest: 'sha256' | 'sha384' | 'sha512';
+  sign: (data: Buffer) => Buffer;
+}
+
+// 証明書の拡張
+export interface CertificateExtension {
+  oid: string;
+  critical: boolean;
+  value: Buffer;
+}
+
+// 証明書の主要フィールド（DERのまま保持）
+export interface ParsedCertificate {
+  tbs: Asn1Node;
+  serialNumber: Asn1Node;
+  issuer: Asn1Node;
+  subject: Asn1Node;
+  subjectPublicKeyInfo: Asn1Node;
+  extensions: CertificateExtension[];
+}
+
+// 証明書作成オプション
+export interface CertificateOptions {
+  subject: DistinguishedName;
+  // 発行者の識別名（DER）。省略時は自己署名
+  issuerName?: Buffer;
+  publicKey: KeyObject;
+  signingKey: KeyObject;
+  serialNumber?: Buffer;
+  notBefore: Date;
+  notAfter: Date;
+  extensions: Buffer[];
+}
+
+/**
+ * 識別名をDERエンコードする
+ */
+export function encodeName(name: DistinguishedName): Buffer {
+  const attributes: Buffer[] = [];
+  const addAttribute = (oid: string, value: Buffer) => {
+    attributes.push(encodeSet(encodeSequence(encodeOid(oid), value)));
+  };
+
+  if (name.country) {
+    addAttribute(Oids.country, encodePrintableString(name.country));
+  }
+  if (name.organization) {
+    addAttribute(Oids.organization, encodeUtf8String(name.organization));
+  }
+  if (name.organizationalUnit) {
+    addAttribute(Oids.organizationalUnit, encodeUtf8String(name.organizationalUnit));
+  }
+  addAttribute(Oids.commonName, encodeUtf8String(name.commonName));
+
+  return encodeSequence(...attributes);
+}
+
+/**
+ * 秘密鍵の種類から証明書・CMS用の署名アルゴリズムを決定する
+ * @param key 署名に使用する秘密鍵
+ */
+export function getSignatureAlgorithm(key: KeyObject): SignatureAlgorithmInfo {
+  switch (key.asymmetricKeyType) {
+    case 'ec': {
+      const curve = key.asymmetricKeyDetails?.namedCurve;
+      const [oid, digest] = curve === 'secp521r1'
+        ? [Oids.ecdsaWithSha512, 'sha512' as const]
+        : curve === 'secp384r1'
+          ? [Oids.ecdsaWithSha384, 'sha384' as const]
+          : [Oids.ecdsaWithSha256, 'sha256' as const];
+      return {
+        algorithmIdentifier: encodeSequence(encodeOid(oid)),
+        digest,
+        sign: data => crypto.sign(digest, data, key)
+      };
+    }
+    case 'rsa':
+      return {
+        algorithmIdentifier: encodeSequence(encodeOid(Oids.sha256WithRsa), encodeNull()),
+        digest: 'sha256',
+        sign: data => crypto.sign('sha256', data, key)
+      };
+    case 'ed25519':
+      return {
+        algorithmIdentifier: encodeSequence(encodeOid(Oids.ed25519)),
+        digest: 'sha512',
+        sign: data => crypto.sign(null, data, key)
+      };
+    default:
+      throw new Error(`証明書の署名に対応していない鍵の種類です: ${key.asymmetricKeyType}`);
+  }
+}
+
+/**
+ * 証明書拡張をエンコードする
+ */
+function encodeExtension(oid: string, critical: boolean, value: Buffer): Buffer {
+  return encodeSequence(
+    encodeOid(oid),
+    ...(critical ? [encodeBoolean(true)] : []),
+    encodeOctetString(value)
+  );
+}
+
+/**
+ * basicConstraints拡張を作成する
+ * @param ca CA証明書かどうか
+ * @param pathLength パス長制約（CAの場合のみ）
+ */
+export function basicConstraintsExtension(ca: boolean, pathLength?: number): Buffer {
+  const items: Buffer[] = [];
+  if (ca) {
+    items.push(encodeBoolean(true));
+    if (pathLength !== undefined) {
+      items.push(encodeInteger(pathLength));
+    }
+  }
+  return encodeExtension(Oids.basicConstraints, true, encodeSequence(...items));
+}
+
+/**
+ * keyUsage拡張を作成する
+ * @param usages 鍵用途の一覧
+ */
+export function keyUsageExtension(usages: KeyUsage[]): Buffer {
+  let bits = 0;
+  for (const usage of usages) {
+    bits |= 1 << (15 - KEY_USAGE_BITS.indexOf(usage));
+  }
+  const bytes = Buffer.from([bits >> 8, bits & 0xff]);
+  const value = bytes[1] === 0 ? bytes.subarray(0, 1) : bytes;
+
+  // 末尾の未使用ビット数を算出
+  const last = value[value.length - 1];
+  let unusedBits = 0;
+  while (unusedBits < 8 && (last & (1 << unusedBits)) === 0) {
+    unusedBits++;
+  }
+  return encodeExtension(Oids.keyUsage, true, encodeBitString(value, last === 0 ? 0 : unusedBits));
+}
+
+/**
+ * extKeyUsage拡張を作成する
+ * @param purposes 拡張キー使用法のOID一覧
+ * @param critical クリティカル拡張とするかどうか
+ */
+export function extendedKeyUsageExtension(purposes: string[], critical = false): Buffer {
+  return encodeExtension(Oids.extKeyUsage, critical, encodeSequence(...purposes.map(encodeOid)));
+}
+
+/**
+ * 公開鍵からキー識別子（SHA-1）を算出する
+ */
+export function computeKeyIdentifier(publicKey: KeyObject): Buffer {
+  const spki = decodeDer(publicKey.export({ type: 'spki', format: 'der' }) as Buffer);
+  const subjectPublicKey = spki.children[1].content.subarray(1);
+  return crypto.createHash('sha1').update(subjectPublicKey).digest();
+}
+
+/**
+ * subjectKeyIdentifier拡張を作成する
+ */
+export function subjectKeyIdentifierExtension(publicKey: KeyObject): Buffer {
+  return encodeExtension(Oids.subjectKeyIdentifier, false, encodeOctetString(computeKeyIdentifier(publicKey)));
+}
+
+/**
+ * authorityKeyIdentifier拡張を作成する
+ * @param issuerPublicKey 発行者の公開鍵
+ */
+export function authorityKeyIdentifierExtension(issuerPublicKey: KeyObject): Buffer {
+  // AuthorityKeyIdentifier ::= SEQUENCE { keyIdentifier [0] IMPLICIT OCTET STRING }
+  const keyIdentifier = encodeImplicit(0, encodeOctetString(computeKeyIdentifier(issuerPublicKey)), false);
+  return encodeExtension(Oids.authorityKeyIdentifier, false, encodeSequence(keyIdentifier));
+}
+
+/**
+ * DER証明書をPEM形式に変換する
+ */
+export function toPem(der: Buffer, label = 'CERTIFICATE'): string {
+  const base64 = der.toString('base64').match(/.{1,64}/g)?.join('\n') || '';
+  return `-----BEGIN ${label}-----\n${base64}\n-----END ${label}-----\n`;
+}
+
+/**
+ * X.509 v3証明書を作成する
+ * @param options 証明書作成オプション
+ * @returns DERエンコードされた証明書
+ */
+export function createCertificate(options: CertificateOptions): Buffer {
+  const signatureAlgorithm = getSignatureAlgorithm(options.signingKey);
+  const serialNumber = options.serialNumber || crypto.randomBytes(16);
+  // 正の整数となるよう最上位ビットを落とす
+  serialNumber[0] &= 0x7f;
+
+  const subjectName = encodeName(options.subject);
+  const tbsCertificate = encodeSequence(
+    encodeExplicit(0, encodeInteger(2)),
+    encodeInteger(serialNumber),
+    signatureAlgorithm.algorithmIdentifier,
+    options.issuerName || subjectName,
+    encodeSequence(encodeTime(options.notBefore), encodeTime(options.notAfter)),
+    subjectName,
+    options.publicKey.export({ type: 'spki', format: 'der' }) as Buffer,
+    encodeExplicit(3, encodeSequence(...options.extensions))
+  );
+
+  return encodeSequence(
+    tbsCertificate,
+    signatureAlgorithm.algorithmIdentifier,
+    encodeBitString(signatureAlgorithm.sign(tbsCertificate))
+  );
+}
+
+/**
+ * DER証明書の主要フィールドを取得する
+ * @param der DERエンコードされた証明書
+ */
+export function parseCertificateDer(der: Buffer): ParsedCertificate {
+  const certificate = decodeDer(der);
+  const tbs = certificate.children[0];
+  // versionフィールド（[0] EXPLICIT）は省略される場合がある
+  const fields = tbs.children[0].tag === 0xa0 ? tbs.children.slice(1) : tbs.children;
+  const [serialNumber, , issuer, , subject, subjectPublicKeyInfo] = fields;
+
+  const extensions: CertificateExtension[] = [];
+  const extensionsNode = fields.find(node => node.tag === 0xa3);
+  if (extensionsNode) {
+    for (const extension of extensionsNode.children[0].children) {
+      const hasCritical = extension.children.length === 3;
+      extensions.push({
+        oid: decodeOid(extension.children[0]),
+        critical: hasCritical && extension.children[1].content[0] !== 0,
+        value: extension.children[hasCritical ? 2 : 1].content
+      });
+    }
+  }
+
+  return { tbs, serialNumber, issuer, subject, subjectPublicKeyInfo, extensions };
+}
@@ -0,0 +1,217 @@
+// アセットのXMPパケットの読み書きユーティリティ
+// リモートマニフェストの参照（dcterms:provenance）を署名前のアセットに埋め込み、検証時に読み取るために使用する
+
+import { crc32 } from './checksumUtils';
+
+// JPEGのXMP（APP1セグメント）の識別子
+const JPEG_XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+
+// PNGのXMP（iTXtチャンク）のキーワード
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const DCTERMS_NAMESPACE = 'http://purl.org/dc/terms/';
+
+// XMPを書き込めるMIMEタイプ
+export const XMP_WRITABLE_MIME_TYPES = ['image/jpeg', 'image/png'];
+
+/**
+ * XMLの属性値をエスケープする
+ */
+function escapeXmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * dcterms:provenanceのみを持つ新しいXMPパケットを作成する
+ */
+function createProvenancePacket(url: string): string {
+  return [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:dcterms="${DCTERMS_NAMESPACE}" dcterms:provenance="${escapeXmlAttribute(url)}"/>`,
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>'
+  ].join('\n');
+}
+
+/**
+ * 既存のXMPパケットにdcterms:provenanceを設定する（既に設定されている場合は置き換える）
+ * @param xmp 既存のXMPパケット
+ * @param url マニフェストの参照URL
+ * @returns 更新したXMPパケット
+ */
+export function setXmpProvenance(xmp: string, url: string): string {
+  const escaped = escapeXmlAttribute(url);
+
+  if (/dcterms:provenance="[^"]*"/.test(xmp)) {
+    return xmp.replace(/dcterms:provenance="[^"]*"/, `dcterms:provenance="${escaped}"`);
+  }
+  if (/<dcterms:provenance>[\s\S]*?<\/dcterms:provenance>/.test(xmp)) {
+    return xmp.replace(/<dcterms:provenance>[\s\S]*?<\/dcterms:provenance>/, `<dcterms:provenance>${escaped}</dcterms:provenance>`);
+  }
+
+  const description = xmp.match(/<rdf:Description\b/);
+  if (!description || description.index === undefined) {
+    return createProvenancePacket(url);
+  }
+
+  const namespace = /xmlns:dcterms=/.test(xmp) ? '' : ` xmlns:dcterms="${DCTERMS_NAMESPACE}"`;
+  const insertAt = description.index + description[0].length;
+  return `${xmp.slice(0, insertAt)}${namespace} dcterms:provenance="${escaped}"${xmp.slice(insertAt)}`;
+}
+
+/**
+ * JPEGのXMPを書き込む（既存のXMPセグメントは置き換える）
+ */
+function writeJpegXmp(buffer: Buffer, url: string): Buffer {
+  if (buffer.readUInt16BE(0) !== 0xffd8) {
+    throw new Error('JPEGの形式が正しくありません。');
+  }
+
+  let existing: { start: number; end: number; xmp: string } | null = null;
+  // SOIとAPP0（JFIF）の後にXMPを配置する
+  let insertAt = 2;
+  let position = 2;
+
+  while (position + 4 <= buffer.length && buffer[position] === 0xff) {
+    const marker = buffer[position + 1];
+    // SOS以降は画像データ
+    if (marker === 0xda) {
+      break;
+    }
+    const length = buffer.readUInt16BE(position + 2);
+    const end = position + 2 + length;
+
+    if (marker === 0xe0 && insertAt === position) {
+      insertAt = end;
+    }
+    if (marker === 0xe1 && buffer.subarray(position + 4, position + 4 + JPEG_XMP_HEADER.length).equals(JPEG_XMP_HEADER)) {
+      existing = {
+        start: position,
+        end,
+        xmp: buffer.toString('utf8', position + 4 + JPEG_XMP_HEADER.length, end)
+      };
+      break;
+    }
+    position = end;
+  }
+
+  const packet = Buffer.from(existing ? setXmpProvenance(existing.xmp, url) : createProvenancePacket(url), 'utf8');
+  const length = 2 + JPEG_XMP_HEADER.length + packet.length;
+  if (length > 0xffff) {
+    throw new Error('XMPが大きすぎるためJPEGに書き込めません。');
+  }
+
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(0xffe1, 0);
+  header.writeUInt16BE(length, 2);
+  const segment = Buffer.concat([header, JPEG_XMP_HEADER, packet]);
+
+  return existing
+    ? Buffer.concat([buffer.subarray(0, existing.start), segment, buffer.subarray(existing.end)])
+    : Buffer.concat([buffer.subarray(0, insertAt), segment, buffer.subarray(insertAt)]);
+}
+
+/**
+ * PNGのXMPを書き込む（既存のXMPチャンクは置き換える）
+ */
+function writePngXmp(buffer: Buffer, url: string): Buffer {
+  if (!buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('PNGの形式が正しくありません。');
+  }
+
+  let existing: { start: number; end: number; xmp: string } | null = null;
+  let insertAt = -1;
+  let position = 8;
+
+  while (position + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(position);
+    const type = buffer.toString('latin1', position + 4, position + 8);
+    const end = position + 12 + length;
+
+    if (type === 'IHDR') {
+      insertAt = end;
+    }
+    if (type === 'iTXt') {
+      const data = buffer.subarray(position + 8, position + 8 + length);
+      const keywordEnd = data.indexOf(0);
+      // キーワード、圧縮フラグ、圧縮方式、言語タグ、翻訳キーワードの後がテキスト
+      if (keywordEnd > 0 && data.toString('latin1', 0, keywordEnd) === PNG_XMP_KEYWORD && data[keywordEnd + 1] === 0) {
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        existing = { start: position, end, xmp: data.toString('utf8', translatedEnd + 1) };
+        break;
+      }
+    }
+    if (type === 'IEND') {
+      break;
+    }
+    position = end;
+  }
+
+  if (insertAt < 0) {
+    throw new Error('PNGの形式が正しくありません。');
+  }
+
+  const packet = existing ? setXmpProvenance(existing.xmp, url) : createProvenancePacket(url);
+  const data = Buffer.concat([
+    Buffer.from(PNG_XMP_KEYWORD, 'latin1'),
+    // 区切り、非圧縮、圧縮方式、言語タグと翻訳キーワード（いずれも空）
+    Buffer.from([0, 0, 0, 0, 0]),
+    Buffer.from(packet, 'utf8')
+  ]);
+  const typeAndData = Buffer.concat([Buffer.from('iTXt', 'latin1'), data]);
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  typeAndData.copy(chunk, 4);
+  chunk.writeUInt32BE(crc32(typeAndData), 8 + data.length);
+
+  return existing
+    ? Buffer.concat([buffer.subarray(0, existing.start), chunk, buffer.subarray(existing.end)])
+    : Buffer.concat([buffer.subarray(0, insertAt), chunk, buffer.subarray(insertAt)]);
+}
+
+/**
+ * アセットのXMPにマニフェストの参照URL（dcterms:provenance）を書き込む
+ * @param buffer アセットのデータ
+ * @param mimeType アセットのMIMEタイプ（XMP_WRITABLE_MIME_TYPESのいずれか）
+ * @param url マニフェストの参照URL
+ * @returns XMPを書き込んだアセットのデータ
+ */
+export function writeXmpProvenance(buffer: Buffer, mimeType: string, url: string): Buffer {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return writeJpegXmp(buffer, url);
+    case 'image/png':
+      return writePngXmp(buffer, url);
+    default:
+      throw new Error(`${mimeType} にはXMPを書き込めません。`);
+  }
+}
+
+/**
+ * アセットのXMPからマニフェストの参照URL（dcterms:provenance）を読み取る
+ * JPEG・PNGのXMPは圧縮されていないため、アセット全体から検索する
+ * @param buffer アセットのデータ
+ * @returns マニフェストの参照URL（見つからない場合はnull）
+ */
+export function readXmpProvenance(buffer: Buffer): string | null {
+  const match = buffer.toString('latin1').match(/dcterms:provenance(?:="([^"]*)"|>([^<]*)<\/dcterms:provenance>)/);
+  const escaped = match ? match[1] ?? match[2] : undefined;
+  if (!escaped) {
+    return null;
+  }
+  return Buffer.from(escaped, 'latin1').toString('utf8')
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,61 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { writeZipArchive, ZipEntry } from './zipUtils';
+
+// unzipがない環境では外部ツールでの検証を省略する
+const unzipAvailable = spawnSync('unzip', ['-v']).status === 0;
+
+// アーカイブに格納するファイル（名前と内容）
+const files: Record<string, Buffer> = {
+  'signed.jpg': crypto.randomBytes(200 * 1024),
+  'signed.c2pa': crypto.randomBytes(1024),
+  'empty.txt': Buffer.alloc(0),
+  '署名済み画像.png': crypto.randomBytes(4096)
+};
+
+describe('writeZipArchive', () => {
+  let workDir: string;
+  let archivePath: string;
+  let archiveSize: number;
+
+  before(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zip-utils-test-'));
+    const entries: ZipEntry[] = Object.entries(files).map(([name, content], index) => {
+      const filePath = path.join(workDir, `entry-${index}`);
+      fs.writeFileSync(filePath, content);
+      return { name, path: filePath };
+    });
+    archivePath = path.join(workDir, 'archive.zip');
+    archiveSize = await writeZipArchive(archivePath, entries);
+  });
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('書き込んだサイズを返す', () => {
+    assert.equal(archiveSize, fs.statSync(archivePath).size);
+  });
+
+  test('unzip -t でCRCと構造の検証に成功する', { skip: !unzipAvailable && 'unzipがありません' }, () => {
+    const result = spawnSync('unzip', ['-t', archivePath], { encoding: 'utf8' });
+    assert.equal(result.status, 0, result.stdout + result.stderr);
+    assert.match(result.stdout, /No errors detected/);
+  });
+
+  test('unzipで展開した内容が元のファイルと一致する', { skip: !unzipAvailable && 'unzipがありません' }, () => {
+    const listing = spawnSync('unzip', ['-Z1', archivePath], { encoding: 'utf8' });
+    assert.deepEqual(listing.stdout.trim().split('\n'), Object.keys(files));
+
+    for (const [name, content] of Object.entries(files)) {
+      const extracted = spawnSync('unzip', ['-p', archivePath, name], { maxBuffer: 1024 * 1024 });
+      assert.equal(extracted.status, 0, extracted.stderr.toString());
+      assert.ok(extracted.stdout.equals(content), `${name} の内容が一致しません。`);
+    }
+  });
+});
@@ -0,0 +1,159 @@
+// ZIPアーカイブの書き込みユーティリティ
+// 署名済みの画像は圧縮済みのため、エントリは無圧縮（stored）で格納する
+
+import fs from 'fs/promises';
+import { crc32 } from './checksumUtils';
+
+// ZIPのシグネチャ
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+// 展開に必要なバージョン（2.0）と、ファイル名をUTF-8で記録するフラグ
+const VERSION = 20;
+const UTF8_FLAG = 0x0800;
+
+// 作成したシステム（上位バイト。3: UNIX）と、通常ファイル（0644）の外部属性
+// MS-DOS（0）のままだと、unzipがUTF-8のファイル名をOEMコードページとして変換してしまう
+const VERSION_MADE_BY = (3 << 8) | VERSION;
+const EXTERNAL_ATTRIBUTES = (0o100644 << 16) >>> 0;
+
+// ZIP64を使用しない場合のサイズとエントリ数の上限
+const MAX_UINT32 = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+// アーカイブに追加するファイル
+export interface ZipEntry {
+  // アーカイブ内のファイル名
+  name: string;
+  // 追加するファイルのパス
+  path: string;
+}
+
+// セントラルディレクトリに記録するエントリの情報
+interface WrittenEntry {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * 日時をMS-DOS形式の時刻と日付に変換する
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * ローカルファイルヘッダーを作成する
+ */
+function createLocalFileHeader(entry: WrittenEntry): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION, 4);
+  header.writeUInt16LE(UTF8_FLAG, 6);
+  // 圧縮方式（0: stored）
+  header.writeUInt16LE(0, 8);
+  header.writeUInt16LE(entry.time, 10);
+  header.writeUInt16LE(entry.date, 12);
+  header.writeUInt32LE(entry.crc, 14);
+  header.writeUInt32LE(entry.size, 18);
+  header.writeUInt32LE(entry.size, 22);
+  header.writeUInt16LE(entry.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, entry.name]);
+}
+
+/**
+ * セントラルディレクトリのエントリを作成する
+ */
+function createCentralDirectoryEntry(entry: WrittenEntry): Buffer {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION_MADE_BY, 4);
+  header.writeUInt16LE(VERSION, 6);
+  header.writeUInt16LE(UTF8_FLAG, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(entry.time, 12);
+  header.writeUInt16LE(entry.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.size, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  // 拡張フィールド長、コメント長、ディスク番号、内部属性は0
+  header.writeUInt32LE(EXTERNAL_ATTRIBUTES, 38);
+  header.writeUInt32LE(entry.offset, 42);
+  return Buffer.concat([header, entry.name]);
+}
+
+/**
+ * セントラルディレクトリの終端レコードを作成する
+ */
+function createEndOfCentralDirectory(count: number, size: number, offset: number): Buffer {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  record.writeUInt16LE(count, 8);
+  record.writeUInt16LE(count, 10);
+  record.writeUInt32LE(size, 12);
+  record.writeUInt32LE(offset, 16);
+  return record;
+}
+
+/**
+ * ファイルをまとめたZIPアーカイブを書き込む
+ * ファイルは1つずつ読み込むため、アーカイブ全体をメモリに保持しない
+ * @param outputPath 出力先のパス
+ * @param entries 追加するファイル（ファイル名は重複しないこと）
+ * @returns 書き込んだアーカイブのサイズ
+ */
+export async function writeZipArchive(outputPath: string, entries: ZipEntry[]): Promise<number> {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`ZIPに格納できるファイルは${MAX_ENTRIES}件までです。`);
+  }
+
+  const handle = await fs.open(outputPath, 'w');
+  const written: WrittenEntry[] = [];
+  let offset = 0;
+  let completed = false;
+
+  try {
+    for (const entry of entries) {
+      const data = await fs.readFile(entry.path);
+      const stats = await fs.stat(entry.path);
+      const record: WrittenEntry = {
+        name: Buffer.from(entry.name, 'utf8'),
+        crc: crc32(data),
+        size: data.length,
+        offset,
+        ...toDosDateTime(stats.mtime)
+      };
+      const header = createLocalFileHeader(record);
+
+      if (offset + header.length + data.length > MAX_UINT32) {
+        throw new Error('ZIPアーカイブの上限サイズ（4GB）を超えています。');
+      }
+      await handle.write(header);
+      await handle.write(data);
+      offset += header.length + data.length;
+      written.push(record);
+    }
+
+    const centralDirectory = Buffer.concat(written.map(createCentralDirectoryEntry));
+    await handle.write(centralDirectory);
+    await handle.write(createEndOfCentralDirectory(written.length, centralDirectory.length, offset));
+    completed = true;
+    return offset + centralDirectory.length + 22;
+  } finally {
+    await handle.close();
+    // 書き込みに失敗した場合は途中までのアーカイブを残さない
+    if (!completed) {
+      await fs.rm(outputPath, { force: true });
+    }
+  }
+}